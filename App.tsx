@@ -1,17 +1,25 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
-  GameState, GamePhase, Player, Investigator, Attribute, 
-  Tile, Token, TokenType, DiceFace, Monster, NetworkMode, PuzzleType, ActionContext
+  GameState, GamePhase, Player, Tile, Token, Monster, NetworkMode, PuzzleType, AbilityUse, TradeOffer, SecretObjective
 } from './types';
-import { 
-  INVESTIGATOR_TEMPLATES, ITEMS, STARTING_ITEMS, DICE_FACES, MONSTER_TEMPLATES, generateRoomImage 
-} from './constants';
-import * as GeminiService from './services/gemini';
+import { INVESTIGATOR_TEMPLATES, ITEMS, DIFFICULTY_PROFILES, Difficulty } from './constants';
+import * as Narrative from './services/narrative';
+import * as Saves from './services/saves';
+import { SCENARIOS, getScenario } from './scenarios';
+import { reduce, createInitialState, randomSeed, checkAbilityUse, countEvidencePoints, projectReplica, projectState, takeOver, GameAction, GameEvent } from './engine';
+import {
+  ClientAction, ProtocolError, Replica, encodeAction, encodeResume, encodeResync, encodeSession, encodeSync, encodePatch, encodeError, decodeClientMessage, decodeHostMessage, authorizeAction
+} from './network/protocol';
+import * as Session from './network/session';
+import { SNAPSHOT_INTERVAL, SyncPayload, applyPatch, diffValue } from './network/sync';
 
 // Components
 import DiceRoller from './components/DiceRoller';
 import MapBoard from './components/MapBoard';
 import InvestigatorCard from './components/InvestigatorCard';
+import AbilityPanel from './components/AbilityPanel';
+import TradePanel from './components/TradePanel';
+import InteractionDialog from './components/InteractionDialog';
 import SlidingPuzzle from './components/SlidingPuzzle';
 import RunePuzzle from './components/RunePuzzle';
 import CodePuzzle from './components/CodePuzzle';
@@ -20,50 +28,51 @@ import CodePuzzle from './components/CodePuzzle';
 declare const Peer: any;
 
 const PEER_PREFIX = 'echoes-madness-v1-';
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 3000;
 
 const App: React.FC = () => {
   // --- State ---
-  const [gameState, setGameState] = useState<GameState>({
-    roomCode: '',
-    phase: GamePhase.Lobby,
-    difficulty: 'Normal',
-    round: 0,
-    players: [],
-    monsters: [],
-    currentPlayerIndex: 0,
-    tiles: [],
-    tokens: [],
-    itemDeck: [], 
-    log: [],
-    storyContext: '',
-    evidenceCollected: 0,
-    evidenceRequired: 5,
-    isEscapeOpen: false,
-    networkMode: NetworkMode.Offline
-  });
+  const [gameState, setGameState] = useState<GameState>(() => createInitialState(randomSeed()));
 
   // Local Settings
   const [narrationEnabled, setNarrationEnabled] = useState(true);
   const [myPlayerId, setMyPlayerId] = useState<string | null>(null);
   const [connectedClientsCount, setConnectedClientsCount] = useState(0);
   const [lastNetworkAction, setLastNetworkAction] = useState<string>(''); // Debug info
+  const [protocolError, setProtocolError] = useState<ProtocolError | null>(null); // Last rejection from the Host
+  const [reconnecting, setReconnecting] = useState(false); // Client lost the Host and is retrying
+  const [narrativeSettings, setNarrativeSettings] = useState(() => Narrative.loadNarrativeSettings()); // Who writes the story when hosting
 
   // Networking Refs
   const peerRef = useRef<any>(null);
   const connectionsRef = useRef<any[]>([]); // For Host: list of client connections
   const clientConnRef = useRef<any>(null);  // For Client: connection to host
+  const connectionPlayersRef = useRef(new Map<any, string>()); // For Host: which investigator each connection controls
+  const sessionsRef = useRef(new Map<string, string>()); // For Host: session token of each client's investigator
+  const sessionDigestsRef = useRef(new Map<string, string>()); // For Host: digest of each session token, all the heir is sent
+  const objectiveDigestsRef = useRef(new Map<string, string>()); // For Host: digests of the objectives it took over without
+  const replicaRef = useRef<Replica | null>(null); // For Client: the full game, if chosen to take over from the Host
+  const syncStreamsRef = useRef(new Map<any, { seq: number; sent: SyncPayload; patches: number }>()); // For Host: what each connection last received
+  const clientSyncRef = useRef<{ seq: number; payload: SyncPayload } | null>(null); // For Client: the last state received and its number
   
   // State Ref to prevent stale closures in async logic
   const gameStateRef = useRef(gameState);
   useEffect(() => { gameStateRef.current = gameState; }, [gameState]);
 
+  // The narrator answering engine requests, rebuilt when the Host changes it
+  const narrator = useMemo(() => Narrative.createNarrativeProvider(narrativeSettings), [narrativeSettings]);
+  const narratorRef = useRef(narrator);
+  useEffect(() => { narratorRef.current = narrator; }, [narrator]);
+
   // Handler Ref to prevent stale closures in PeerJS callbacks
-  const handleNetworkDataRef = useRef<(data: any) => void>(() => {});
+  const handleNetworkDataRef = useRef<(conn: any, data: any) => void>(() => {});
+  const handleConnectionClosedRef = useRef<(conn: any) => void>(() => {});
 
   // Temp state for Lobby/Setup
   const [lobbyName, setLobbyName] = useState('');
-  const [joinCode, setJoinCode] = useState(''); // New input for joining
-  const [isHostTab, setIsHostTab] = useState(true); // Toggle between Host/Join
+  const [joinCode, setJoinCode] = useState(() => Session.lastSessionRoom()); // New input for joining, remembers the last room
+  const [isHostTab, setIsHostTab] = useState(() => !Session.lastSessionRoom()); // Toggle between Host/Join
   const [selectedInvId, setSelectedInvId] = useState<string | null>(null);
   const [previewInvId, setPreviewInvId] = useState<string | null>(null); 
   const [playerColor, setPlayerColor] = useState('#b45309');
@@ -71,8 +80,14 @@ const App: React.FC = () => {
   const [showTitleScreen, setShowTitleScreen] = useState(true);
   
   // Item Distribution State
-  const [distributionItems, setDistributionItems] = useState<string[]>([]);
   const [selectedDistItem, setSelectedDistItem] = useState<number | null>(null);
+
+  // Save Slots (Host / Offline only)
+  const [showSaves, setShowSaves] = useState(false);
+  const [tradePartnerId, setTradePartnerId] = useState<string | null>(null);
+  const [saveSlots, setSaveSlots] = useState<Saves.SaveSlot[]>([]);
+  const [saveName, setSaveName] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
   
   // --- Native Audio Logic ---
   const speak = (text: string) => {
@@ -110,6 +125,13 @@ const App: React.FC = () => {
     }
   };
 
+  // Rejections from the Host are shown briefly, then dismissed
+  useEffect(() => {
+    if (!protocolError) return;
+    const timer = setTimeout(() => setProtocolError(null), 4000);
+    return () => clearTimeout(timer);
+  }, [protocolError]);
+
   useEffect(() => {
     if (window.speechSynthesis) {
         window.speechSynthesis.getVoices();
@@ -125,19 +147,10 @@ const App: React.FC = () => {
   // Host: Broadcast state changes to all clients
   useEffect(() => {
       if (gameState.networkMode === NetworkMode.Host && connectionsRef.current.length > 0) {
-          // SANITIZE STATE BEFORE SENDING
-          const safeState = {
-              ...gameState,
-              log: gameState.log.slice(-50)
-          };
-          
-          const syncData = { type: 'SYNC', state: safeState };
-          const payloadString = JSON.stringify(syncData);
-          
           connectionsRef.current.forEach(conn => {
               if (conn.open) {
                   try {
-                      conn.send(payloadString);
+                      syncConnection(conn, payloadFor(conn, gameState));
                   } catch (e) {
                       console.error("Failed to sync state to client:", e);
                   }
@@ -146,6 +159,57 @@ const App: React.FC = () => {
       }
   }, [gameState]);
 
+  // Host: what one connection should hold. Each client only receives what its
+  // own investigator may know, except the heir (the first connected client in
+  // turn order, which would take over if this tab closed) that also holds the
+  // game as far as it may know it (see Replica).
+  const payloadFor = (conn: any, state: GameState): SyncPayload => {
+      // SANITIZE STATE BEFORE SENDING
+      const safeState = { ...state, log: state.log.slice(-50) };
+      const viewerId = connectionPlayersRef.current.get(conn);
+
+      const connected = connectionsRef.current.filter(c => c.open);
+      const heirId = state.players
+          .map(p => p.id)
+          .find(id => connected.some(c => connectionPlayersRef.current.get(c) === id));
+      if (!viewerId || viewerId !== heirId) return { state: projectState(safeState, viewerId) };
+
+      return {
+          state: projectState(safeState, viewerId),
+          replica: {
+              state: projectReplica(safeState, heirId),
+              evidencePoints: countEvidencePoints(safeState),
+              sessions: Object.fromEntries(sessionDigestsRef.current),
+              objectives: digestObjectives(safeState),
+              heirId
+          }
+      };
+  };
+
+  // Host: the objectives the heir may check but not read, counting those not
+  // yet brought back since this host took over
+  const digestObjectives = (state: GameState): Record<string, string> => Object.fromEntries(state.players.flatMap(p => {
+      const digest = p.secretObjective ? Session.digestObjective(p.secretObjective) : objectiveDigestsRef.current.get(p.id);
+      return digest ? [[p.id, digest]] : [];
+  }));
+
+  // Host: brings one connection up to date with a patch against what it last
+  // received, or with a full snapshot when it is new, asks for one or is due one
+  const syncConnection = (conn: any, payload: SyncPayload, snapshot = false) => {
+      const stream = syncStreamsRef.current.get(conn);
+      if (!stream || snapshot || stream.patches >= SNAPSHOT_INTERVAL) {
+          const seq = stream ? stream.seq + 1 : 0;
+          conn.send(encodeSync(seq, payload));
+          syncStreamsRef.current.set(conn, { seq, sent: payload, patches: 0 });
+          return;
+      }
+
+      const patch = diffValue(stream.sent, payload);
+      if (!patch) return; // Nothing this client can see has changed
+      conn.send(encodePatch(stream.seq + 1, patch));
+      syncStreamsRef.current.set(conn, { seq: stream.seq + 1, sent: payload, patches: stream.patches + 1 });
+  };
+
   const initHost = () => {
       if (peerRef.current) return; 
       setLoading(true);
@@ -165,6 +229,19 @@ const App: React.FC = () => {
           addLog(`Room Created! Share Code: ${displayCode}`, false);
       });
 
+      listenForClients(peer);
+
+      peer.on('error', (err: any) => {
+          console.error("Peer error:", err);
+          setLoading(false);
+          alert("Network Error: " + err.type);
+      });
+
+      peerRef.current = peer;
+  };
+
+  // Host: accepts client connections and routes their messages
+  const listenForClients = (peer: any) => {
       peer.on('connection', (conn: any) => {
           console.log("Host received connection from:", conn.peer);
           connectionsRef.current.push(conn);
@@ -174,8 +251,7 @@ const App: React.FC = () => {
               console.log("Host connection fully opened with", conn.peer);
               // Send immediate sync
               try {
-                  const syncData = { type: 'SYNC', state: gameStateRef.current };
-                  conn.send(JSON.stringify(syncData));
+                  syncConnection(conn, payloadFor(conn, gameStateRef.current), true);
               } catch (e) {
                   console.error("Failed to send initial sync:", e);
               }
@@ -184,68 +260,176 @@ const App: React.FC = () => {
           conn.on('data', (data: any) => {
               // Call the ref
               if (handleNetworkDataRef.current) {
-                  handleNetworkDataRef.current(data);
+                  handleNetworkDataRef.current(conn, data);
               }
           });
 
           conn.on('close', () => {
               setConnectedClientsCount(prev => Math.max(0, prev - 1));
-              connectionsRef.current = connectionsRef.current.filter(c => c !== conn);
+              handleConnectionClosedRef.current(conn);
           });
 
           conn.on('error', (err: any) => {
               console.error("Connection error:", err);
           });
       });
+  };
+
+  // --- Host Migration ---
+
+  // The heir claims the vanished host's room code and carries on from its
+  // replica. Until the old peer id is released the claim fails, so it is
+  // retried; if it never frees up the host is still there and the heir
+  // simply reconnects to it.
+  const takeOverHost = (roomCode: string, replica: Replica, attempt: number) => {
+      if (peerRef.current) {
+          peerRef.current.destroy();
+          peerRef.current = null;
+      }
+      clientConnRef.current = null;
+      clientSyncRef.current = null;
+      syncStreamsRef.current.clear();
+      setReconnecting(true);
+
+      const peer = new Peer(PEER_PREFIX + roomCode, { debug: 1 });
+
+      peer.on('open', () => {
+          console.log("Took over as Host of", roomCode);
+          replicaRef.current = null;
+          // Tokens are only known by their digests until their owners resume
+          sessionsRef.current = new Map();
+          sessionDigestsRef.current = new Map(Object.entries(replica.sessions));
+          objectiveDigestsRef.current = new Map(Object.entries(replica.objectives));
+
+          // Everyone else is away until their client resumes with the new host
+          let state: GameState = { ...takeOver(replica.state, replica.evidencePoints, randomSeed()), roomCode };
+          state.players.filter(p => p.id !== replica.heirId).forEach(p => {
+              state = reduce(state, { type: 'SET_CONNECTED', playerId: p.id, connected: false }).state;
+          });
+          state = { ...state, log: [...state.log, `The host has gone. You are now hosting room ${roomCode}.`].slice(-50) };
+
+          gameStateRef.current = state;
+          setGameState(state);
+          setReconnecting(false);
+
+          // Whatever the old host was waiting on from the narrator died with it
+          (state.pendingRequests || []).forEach(runEvent);
+      });
+
+      listenForClients(peer);
 
       peer.on('error', (err: any) => {
-          console.error("Peer error:", err);
-          setLoading(false);
-          alert("Network Error: " + err.type);
+          console.error("Host takeover error:", err);
+          if (peerRef.current !== peer) return;
+          if (err.type === 'unavailable-id' && attempt < MAX_RECONNECT_ATTEMPTS) {
+              setTimeout(() => takeOverHost(roomCode, replica, attempt + 1), RECONNECT_DELAY_MS);
+              return;
+          }
+          replicaRef.current = null;
+          connectToHost(roomCode, 1);
       });
 
       peerRef.current = peer;
   };
 
   const initClient = () => {
-      if (peerRef.current) {
-          peerRef.current.destroy();
-          peerRef.current = null;
-      }
-      
       if (!joinCode) {
           alert("Please enter a Room Code.");
           return;
       }
+      connectToHost(joinCode.toUpperCase(), 0);
+  };
 
-      setLoading(true);
+  // A dropped client with a session keeps retrying the same room for a while
+  // before giving up
+  const retryConnection = (roomCode: string, attempt: number) => {
+      if (!Session.loadSession(roomCode) || attempt >= MAX_RECONNECT_ATTEMPTS) {
+          alert("Disconnected from host.");
+          resetGame();
+          return;
+      }
+      setReconnecting(true);
+      setTimeout(() => connectToHost(roomCode, attempt + 1), RECONNECT_DELAY_MS);
+  };
+
+  // Client: adopts the Host's latest state (and the replica, if this client is the heir)
+  const applySync = (seq: number, payload: SyncPayload) => {
+      clientSyncRef.current = { seq, payload };
+      replicaRef.current = payload.replica || null;
+      setGameState(payload.state);
+  };
+
+  const connectToHost = (roomCode: string, attempt: number) => {
+      if (peerRef.current) {
+          peerRef.current.destroy();
+          peerRef.current = null;
+      }
+
+      if (attempt === 0) setLoading(true);
       
       const peer = new Peer(undefined, { debug: 1 }); 
-      const targetPeerId = PEER_PREFIX + joinCode.toUpperCase();
+      const targetPeerId = PEER_PREFIX + roomCode;
       
       console.log("Initializing Client. Connecting to:", targetPeerId);
 
+      // The peer and its connection may both report the same failure
+      let retried = false;
+      const retry = () => {
+          if (retried) return;
+          retried = true;
+          retryConnection(roomCode, attempt);
+      };
+
       peer.on('open', () => {
           console.log("Client Peer Open. ID:", peer.id);
           const conn = peer.connect(targetPeerId, { serialization: 'json' }); // Ensure standard serialization
           clientConnRef.current = conn;
+          clientSyncRef.current = null;
+          let awaitingSnapshot = false;
           
           conn.on('open', () => {
               console.log("Client connected to Host");
-              setGameState(prev => ({ ...prev, roomCode: joinCode, networkMode: NetworkMode.Client }));
+              setGameState(prev => ({ ...prev, roomCode, networkMode: NetworkMode.Client }));
               setShowTitleScreen(false);
               setLoading(false);
-              addLog("Connected to Host!", false);
+              setReconnecting(false);
+              addLog(attempt > 0 ? "Reconnected to Host!" : "Connected to Host!", false);
+
+              // Take back the investigator registered before a reload or drop
+              const session = Session.loadSession(roomCode);
+              if (session) {
+                  const me = gameStateRef.current.players.find(p => p.id === session.playerId);
+                  conn.send(encodeResume(session.playerId, session.token, me?.secretObjective));
+              }
           });
 
           conn.on('data', (raw: any) => {
-              try {
-                  const data = typeof raw === 'string' ? JSON.parse(raw) : raw;
-                  if (data.type === 'SYNC') {
-                      setGameState(data.state);
+              const decoded = decodeHostMessage(raw);
+              if (decoded.error) {
+                  console.error("Client failed to parse host message:", decoded.error);
+                  setProtocolError(decoded.error);
+                  return;
+              }
+              const message = decoded.message;
+              if (message.kind === 'SYNC') {
+                  awaitingSnapshot = false;
+                  applySync(message.seq, message.payload);
+              } else if (message.kind === 'PATCH') {
+                  // A missed patch cannot be patched over; wait for a snapshot
+                  const sync = clientSyncRef.current;
+                  if (!sync || message.seq !== sync.seq + 1) {
+                      if (!awaitingSnapshot) conn.send(encodeResync());
+                      awaitingSnapshot = true;
+                      return;
                   }
-              } catch(e) {
-                  console.error("Client failed to parse sync:", e);
+                  applySync(message.seq, applyPatch(sync.payload, message.patch));
+              } else if (message.kind === 'SESSION') {
+                  Session.saveSession({ roomCode, playerId: message.playerId, token: message.token });
+                  setMyPlayerId(message.playerId);
+              } else {
+                  console.warn("Host rejected action:", message.error);
+                  if (message.error.code === 'BAD_SESSION') Session.clearSession();
+                  setProtocolError(message.error);
               }
           });
 
@@ -256,14 +440,22 @@ const App: React.FC = () => {
           });
           
           conn.on('close', () => {
-              alert("Disconnected from host.");
-              resetGame();
+              if (peerRef.current !== peer) return; // Left on purpose
+              if (replicaRef.current) {
+                  takeOverHost(roomCode, replicaRef.current, 0);
+                  return;
+              }
+              retry();
           });
       });
       
       peer.on('error', (err: any) => {
           console.error("Client Peer Error:", err);
           setLoading(false);
+          if (attempt > 0) {
+              retry();
+              return;
+          }
           if (err.type === 'peer-unavailable') {
               alert("Room not found. Check the code and try again.");
           } else {
@@ -279,97 +471,122 @@ const App: React.FC = () => {
   };
 
   // Host handles incoming actions from Clients
-  const handleNetworkData = (raw: any) => {
-      const currentState = gameStateRef.current;
-      
-      let data = raw;
-      if (typeof raw === 'string') {
+  const handleNetworkData = (conn: any, raw: any) => {
+      const reply = (error: ProtocolError) => {
+          console.warn("Rejecting client message:", error);
           try {
-              data = JSON.parse(raw);
+              conn.send(encodeError(error));
           } catch (e) {
-              console.error("Failed to parse incoming network data:", e);
-              return;
+              console.error("Failed to send protocol error:", e);
           }
+      };
+
+      const decoded = decodeClientMessage(raw);
+      if (decoded.error) {
+          reply(decoded.error);
+          return;
       }
 
-      console.log("HOST RECEIVED ACTION:", data.type, data.payload);
-      setLastNetworkAction(`${data.type} from ${data.payload?.id || '?'}`);
+      if (decoded.message.kind === 'RESYNC') {
+          syncConnection(conn, payloadFor(conn, gameStateRef.current), true);
+          return;
+      }
+      if (decoded.message.kind === 'RESUME') {
+          resumeSession(conn, decoded.message.playerId, decoded.message.token, decoded.message.objective, reply);
+          return;
+      }
 
-      // We removed the stale state check for NetworkMode.Host here because 
-      // if this handler is running, it means we ARE the host receiving data on a server socket.
+      const { action } = decoded.message;
+      const senderId = connectionPlayersRef.current.get(conn);
+      console.log("HOST RECEIVED ACTION:", action.type, senderId);
+      setLastNetworkAction(`${action.type} from ${senderId || (action.type === 'REGISTER_PLAYER' ? action.player.name : '?')}`);
 
-      if (data.type === 'ACTION_REGISTER_PLAYER') {
-          const newPlayer = data.payload;
-          
-          if (!newPlayer || !newPlayer.id || !newPlayer.name) {
-              console.error("Invalid Register Payload:", newPlayer);
+      const rejection = authorizeAction(gameStateRef.current, senderId, action);
+      if (rejection) {
+          reply(rejection);
+          return;
+      }
+
+      // The first registration binds this connection to its investigator and
+      // hands out the token to take it back later. An investigator someone
+      // already holds can only be taken back with its token.
+      if (action.type === 'REGISTER_PLAYER') {
+          const playerId = action.player.id;
+          if (senderId !== playerId && (sessionDigestsRef.current.has(playerId) || playerId === myPlayerId)) {
+              reply({ code: 'MALFORMED', message: "That investigator is controlled by another connection.", actionType: action.type });
               return;
           }
+          connectionPlayersRef.current.set(conn, playerId);
+          dispatch(action);
+          conn.send(encodeSession(playerId, issueSession(playerId)));
+          return;
+      }
 
-          setGameState(prev => {
-              const existsIndex = prev.players.findIndex(p => p.id === newPlayer.id);
-              let updatedPlayers = [...prev.players];
-              
-              if (existsIndex !== -1) {
-                  console.log("Updating existing player:", newPlayer.name);
-                  updatedPlayers[existsIndex] = newPlayer;
-              } else {
-                  console.log("Registering New Player:", newPlayer.name);
-                  updatedPlayers.push(newPlayer);
-              }
+      dispatch(action);
+  };
 
-              return {
-                  ...prev,
-                  players: updatedPlayers,
-                  log: [...prev.log, `${newPlayer.name} has joined the roster.`].slice(-50)
-              };
-          });
-          speak(`${newPlayer.name} has joined the roster.`);
-      }
-      else if (data.type === 'ACTION_PLAYER_READY') {
-          setGameState(prev => ({
-              ...prev,
-              players: prev.players.map(p => 
-                  p.id === data.payload.playerId ? { ...p, isReady: data.payload.isReady } : p
-              )
-          }));
-      }
-      else if (data.type === 'ACTION_TILE_CLICK') {
-          const tile = currentState.tiles.find(t => t.id === data.payload.tileId);
-          if(tile) handleTileClick(tile, true);
-      }
-      else if (data.type === 'ACTION_TOKEN_CLICK') {
-          const token = currentState.tokens.find(t => t.id === data.payload.tokenId);
-          if(token) handleTokenClick(token, true);
-      }
-      else if (data.type === 'ACTION_MONSTER_CLICK') {
-          const monster = currentState.monsters.find(m => m.id === data.payload.monsterId);
-          if(monster) handleMonsterClick(monster, true);
-      }
-      else if (data.type === 'ACTION_END_TURN') {
-          endTurn(true);
+  // The token that lets a client take its investigator back later
+  const issueSession = (playerId: string): string => {
+      const token = sessionsRef.current.get(playerId) || Session.createSessionToken();
+      sessionsRef.current.set(playerId, token);
+      sessionDigestsRef.current.set(playerId, Session.digestSessionToken(token));
+      return token;
+  };
+
+  // Rebinds a returning client to its investigator, dropping whatever stale
+  // connection still held it. After a takeover only the token's digest is
+  // known, so that is what the presented token is checked against.
+  const resumeSession = (conn: any, playerId: string, token: string, objective: SecretObjective | undefined, reply: (error: ProtocolError) => void) => {
+      const state = gameStateRef.current;
+      const digest = sessionDigestsRef.current.get(playerId);
+      if (!digest || digest !== Session.digestSessionToken(token) || !state.players.some(p => p.id === playerId)) {
+          reply({ code: 'BAD_SESSION', message: "Your investigator could not be found in this room. Join again." });
+          return;
       }
-      else if (data.type === 'ACTION_USE_ITEM') {
-          handleUseItem(data.payload.item, true); 
+      sessionsRef.current.set(playerId, token);
+
+      connectionPlayersRef.current.forEach((id, c) => {
+          if (id !== playerId || c === conn) return;
+          connectionPlayersRef.current.delete(c);
+          c.close();
+      });
+      connectionPlayersRef.current.set(conn, playerId);
+      setLastNetworkAction(`RESUME from ${playerId}`);
+
+      conn.send(encodeSession(playerId, token));
+      syncConnection(conn, payloadFor(conn, state), true);
+      dispatch({ type: 'SET_CONNECTED', playerId, connected: true });
+
+      // An objective this host took over without, if it is the one the old host gave
+      const player = state.players.find(p => p.id === playerId)!;
+      if (objective && !player.secretObjective && objectiveDigestsRef.current.get(playerId) === Session.digestObjective(objective)) {
+          dispatch({ type: 'SECRET_OBJECTIVE_GENERATED', playerId, objective });
       }
-      else if (data.type === 'ACTION_COMPLETE_TASK') {
-          handleActionComplete(data.payload.context, data.payload.success, data.payload.data);
+  };
+
+  // A client's investigator is marked away when its last connection closes
+  const handleConnectionClosed = (conn: any) => {
+      const playerId = connectionPlayersRef.current.get(conn);
+      connectionsRef.current = connectionsRef.current.filter(c => c !== conn);
+      connectionPlayersRef.current.delete(conn);
+      syncStreamsRef.current.delete(conn);
+      if (playerId && !Array.from(connectionPlayersRef.current.values()).includes(playerId)) {
+          dispatch({ type: 'SET_CONNECTED', playerId, connected: false });
       }
   };
 
-  // Keep ref updated with latest handler on every render
+  // Keep refs updated with the latest handlers on every render
   useEffect(() => {
       handleNetworkDataRef.current = handleNetworkData;
+      handleConnectionClosedRef.current = handleConnectionClosed;
   });
 
   // Generic Action Sender for Clients
-  const sendAction = (type: string, payload: any) => {
+  const sendAction = (action: ClientAction) => {
       if (clientConnRef.current && clientConnRef.current.open) {
-          console.log("Client Sending Action:", type, payload);
+          console.log("Client Sending Action:", action.type, action);
           try {
-              // Explicit JSON stringify to avoid any serialization quirks in PeerJS
-              const msg = JSON.stringify({ type, payload });
-              clientConnRef.current.send(msg);
+              clientConnRef.current.send(encodeAction(action));
           } catch (e) {
               console.error("Failed to send action:", e);
               alert("Transmission failed. Reconnecting...");
@@ -380,11 +597,121 @@ const App: React.FC = () => {
       }
   };
 
+  // Clients forward player actions to the Host; the Host (or an offline game)
+  // feeds them straight into the engine.
+  const act = (action: ClientAction) => {
+      if (gameState.networkMode === NetworkMode.Client) {
+          sendAction(action);
+      } else {
+          dispatch(action);
+      }
+  };
+
+  // --- Rules Engine Bridge ---
+
+  // Runs an action through the engine (Host / Offline only) and carries out the
+  // side effects it asks for. The ref is updated eagerly so that follow-up
+  // dispatches from async effects never see a stale state.
+  const dispatch = (action: GameAction) => {
+      const previous = gameStateRef.current;
+      const { state, events } = reduce(previous, action);
+      gameStateRef.current = state;
+      setGameState(state);
+      events.forEach(runEvent);
+
+      // Autosave once every round, when the Mythos phase hands back to the investigators
+      if (previous.phase === GamePhase.Mythos && state.phase === GamePhase.Playing) {
+          const error = Saves.writeSave(Saves.AUTOSAVE_SLOT, state);
+          if (error) console.warn(error);
+      }
+  };
+
+  // --- Save Slots ---
+
+  const openSaves = () => {
+      setSaveSlots(Saves.listSaves());
+      setSaveError(null);
+      setShowSaves(true);
+  };
+
+  const saveToSlot = () => {
+      const name = saveName.trim() || `Round ${gameState.round}`;
+      const error = Saves.writeSave(name, gameStateRef.current);
+      setSaveError(error);
+      setSaveSlots(Saves.listSaves());
+  };
+
+  // Restores a saved investigation into the current session (keeping its room and connections)
+  const restoreSave = (result: Saves.LoadResult) => {
+      if (result.error) {
+          setSaveError(result.error);
+          return;
+      }
+      const current = gameStateRef.current;
+      const { save } = result;
+      const state: GameState = {
+          ...save.state,
+          roomCode: current.roomCode,
+          networkMode: current.networkMode,
+          log: [...save.state.log, `Case file "${save.name}" restored.`].slice(-50)
+      };
+      gameStateRef.current = state;
+      setGameState(state);
+      setShowSaves(false);
+      setShowTitleScreen(false);
+      if (state.networkMode !== NetworkMode.Client) (state.pendingRequests || []).forEach(runEvent);
+  };
+
+  const importSaveFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (file) restoreSave(await Saves.importSave(file));
+  };
+
+  const runEvent = async (event: GameEvent) => {
+      if (event.type === 'NARRATE') {
+          speak(event.text);
+          return;
+      }
+
+      setLoading(true);
+      try {
+          if (event.type === 'REQUEST_ROOM') {
+              const room = await narratorRef.current.generateRoomDiscovery(event.direction, event.context, event.fromType, event.existingTypes, event.seed);
+              dispatch({ type: 'ROOM_GENERATED', tokenId: event.tokenId, room });
+          } else if (event.type === 'REQUEST_INVESTIGATION') {
+              const { outcome } = event;
+              const narrative = await narratorRef.current.generateInvestigationOutcome(
+                  outcome.tokenDescription, outcome.success, event.context, outcome.foundObject, event.seed
+              );
+              dispatch({ type: 'INVESTIGATION_NARRATED', outcome, narrative: narrative || '' });
+          } else if (event.type === 'REQUEST_INTERACTION') {
+              const interaction = await narratorRef.current.generateInteraction(event.description, event.context, event.seed);
+              dispatch({ type: 'INTERACTION_GENERATED', tokenId: event.tokenId, interaction });
+          } else if (event.type === 'REQUEST_MYTHOS') {
+              try {
+                  const mythos = await narratorRef.current.generateMythosEvent(event.context, event.threat, event.board, event.seed);
+                  dispatch({ type: 'MYTHOS_GENERATED', event: mythos });
+              } catch (e) {
+                  dispatch({ type: 'END_MYTHOS' });
+              }
+          } else if (event.type === 'REQUEST_INSANITY') {
+              const objective = await narratorRef.current.generateInsanityCondition(event.context, event.seed);
+              dispatch({ type: 'SECRET_OBJECTIVE_GENERATED', playerId: event.playerId, objective });
+          }
+      } catch (e) {
+          console.error("Failed to resolve engine request:", event.type, e);
+      } finally {
+          setLoading(false);
+      }
+  };
+
   // --- Logic Helpers ---
 
-  const formatRoomName = (name: string) => {
-    if (name.toLowerCase().startsWith('the ')) return name;
-    return `The ${name}`;
+  const updateNarrativeSettings = (changes: Partial<Narrative.NarrativeSettings>) => {
+      const settings = { ...narrativeSettings, ...changes };
+      Narrative.saveNarrativeSettings(settings);
+      setNarrativeSettings(settings);
   };
 
   const createRoom = () => {
@@ -401,43 +728,33 @@ const App: React.FC = () => {
     if (peerRef.current) peerRef.current.destroy();
     peerRef.current = null;
     connectionsRef.current = [];
+    connectionPlayersRef.current.clear();
+    sessionsRef.current.clear();
+    sessionDigestsRef.current.clear();
+    objectiveDigestsRef.current.clear();
+    replicaRef.current = null;
+    syncStreamsRef.current.clear();
+    clientSyncRef.current = null;
     clientConnRef.current = null;
+    Session.clearSession();
 
-    setGameState({
-      roomCode: '',
-      phase: GamePhase.Lobby,
-      difficulty: 'Normal',
-      round: 0,
-      players: [],
-      monsters: [],
-      currentPlayerIndex: 0,
-      tiles: [],
-      tokens: [],
-      itemDeck: [],
-      log: [],
-      storyContext: '',
-      evidenceCollected: 0,
-      evidenceRequired: 5, 
-      isEscapeOpen: false,
-      networkMode: NetworkMode.Offline
-    });
+    setGameState(createInitialState(randomSeed()));
     setLobbyName('');
     setSelectedInvId(null);
     setPreviewInvId(null);
-    setDistributionItems([]);
     setSelectedDistItem(null);
     setLoading(false);
     setShowTitleScreen(true);
     setMyPlayerId(null);
     setConnectedClientsCount(0);
     setLastNetworkAction('');
+    setProtocolError(null);
+    setReconnecting(false);
   };
 
   const joinGame = () => {
     if(!selectedInvId || !lobbyName) return;
 
-    const template = INVESTIGATOR_TEMPLATES.find(t => t.id === selectedInvId)!;
-    
     // Ensure Client IDs are unique
     let uniqueId = myPlayerId;
     if (!uniqueId) {
@@ -447,37 +764,13 @@ const App: React.FC = () => {
         setMyPlayerId(uniqueId);
     }
 
-    const newPlayer: Player = {
-      id: uniqueId,
-      name: lobbyName,
-      investigatorId: selectedInvId,
-      color: playerColor,
-      clues: 1,
-      items: [],
-      health: template.health,
-      sanity: template.sanity,
-      attributes: { ...template.attributes },
-      image: template.image,
-      x: 0, 
-      y: 0,
-      movesRemaining: 2,
-      actionsRemaining: 2,
-      isWounded: false,
-      isInsane: false,
-      usedItemAbilityRound: false,
-      isReady: gameState.networkMode !== NetworkMode.Client // Host is always ready
-    };
-
-    if (gameState.networkMode === NetworkMode.Client) {
-        // Send player to host
-        console.log("Client Sending Register Action:", newPlayer);
-        sendAction('ACTION_REGISTER_PLAYER', newPlayer);
-    } else {
-        // Host adds immediately
-        setGameState(prev => ({
-            ...prev,
-            players: [...prev.players, newPlayer]
-        }));
+    // Clients send their choices to the Host, the Host adds immediately and
+    // builds the investigator from its template. The Host keeps a session for
+    // itself too, to rejoin as a client should another player take over the room.
+    act({ type: 'REGISTER_PLAYER', player: { id: uniqueId, name: lobbyName, investigatorId: selectedInvId, color: playerColor } });
+    if (gameState.networkMode !== NetworkMode.Client) act({ type: 'SET_READY', playerId: uniqueId, isReady: true }); // Host is always ready
+    if (gameState.networkMode === NetworkMode.Host) {
+        Session.saveSession({ roomCode: gameState.roomCode, playerId: uniqueId, token: issueSession(uniqueId) });
     }
   };
 
@@ -487,78 +780,24 @@ const App: React.FC = () => {
       if (!me) return;
 
       if (gameState.networkMode === NetworkMode.Client) {
-          sendAction('ACTION_PLAYER_READY', { playerId: myPlayerId, isReady: !me.isReady });
+          sendAction({ type: 'SET_READY', playerId: myPlayerId, isReady: !me.isReady });
       }
   };
 
   // STEP 1: PREPARE ITEMS
   const prepareItemDistribution = () => {
-     const currentPlayers = gameStateRef.current.players;
-     
      if (gameState.networkMode === NetworkMode.Client) return;
-
-     const numPlayers = currentPlayers.length;
-     const numItemsToGenerate = numPlayers + 1;
-     
-     const allItemKeys = Object.keys(ITEMS);
-     const weapons = allItemKeys.filter(k => ITEMS[k].type === 'Weapon');
-     const others = allItemKeys.filter(k => ITEMS[k].type !== 'Weapon');
-
-     const selected: string[] = [];
-
-     const maxWeapons = Math.ceil(numItemsToGenerate * 0.3); 
-     
-     for(let i=0; i<maxWeapons; i++) {
-        if(weapons.length > 0) {
-            const idx = Math.floor(Math.random() * weapons.length);
-            selected.push(weapons[idx]);
-            weapons.splice(idx, 1);
-        }
-     }
-
-     while(selected.length < numItemsToGenerate) {
-        if(others.length > 0) {
-             const idx = Math.floor(Math.random() * others.length);
-             selected.push(others[idx]);
-             others.splice(idx, 1);
-        } else {
-             if(weapons.length > 0) {
-                const idx = Math.floor(Math.random() * weapons.length);
-                selected.push(weapons[idx]);
-                weapons.splice(idx, 1);
-             } else {
-                 break; 
-             }
-        }
-     }
-     
-     for (let i = selected.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [selected[i], selected[j]] = [selected[j], selected[i]];
-     }
-
-     setDistributionItems(selected);
-     setGameState(prev => ({...prev, phase: GamePhase.ItemDistribution}));
+     dispatch({ type: 'BEGIN_ITEM_DISTRIBUTION' });
   };
 
   const assignItemToPlayer = (playerIndex: number) => {
       if (gameState.networkMode === NetworkMode.Client) return;
-
       if (selectedDistItem === null) return;
-      
-      const itemToAssign = distributionItems[selectedDistItem];
-      const newPlayers = [...gameState.players];
-      
-      newPlayers[playerIndex] = {
-          ...newPlayers[playerIndex],
-          items: [...newPlayers[playerIndex].items, itemToAssign]
-      };
-      
-      const newDistList = [...distributionItems];
-      newDistList.splice(selectedDistItem, 1);
 
-      setGameState(prev => ({...prev, players: newPlayers}));
-      setDistributionItems(newDistList);
+      const player = gameState.players[playerIndex];
+      if (!player) return;
+
+      dispatch({ type: 'ASSIGN_ITEM', itemIndex: selectedDistItem, playerId: player.id });
       setSelectedDistItem(null);
   };
 
@@ -570,118 +809,10 @@ const App: React.FC = () => {
     setLoading(true);
     
     try {
-        const distributed = currentState.players.flatMap(p => p.items);
-        const remainingItems = STARTING_ITEMS.filter(i => !distributed.includes(i));
-        for (let i = remainingItems.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [remainingItems[i], remainingItems[j]] = [remainingItems[j], remainingItems[i]];
-        }
-
-        const intro = await GeminiService.generateIntro(currentState.difficulty, currentState.players);
-        
-        const dirs = ['North', 'South', 'East', 'West'];
-        const hallDir = dirs[Math.floor(Math.random() * dirs.length)];
-        let parlorDir = dirs[Math.floor(Math.random() * dirs.length)];
-        while (parlorDir === hallDir || (hallDir === 'North' && parlorDir === 'South') || (hallDir === 'South' && parlorDir === 'North') || (hallDir === 'East' && parlorDir === 'West') || (hallDir === 'West' && parlorDir === 'East')) {
-            parlorDir = dirs[Math.floor(Math.random() * dirs.length)];
-        }
-        
-        const getVec = (d: string) => {
-            if (d === 'North') return {x:0, y:-1};
-            if (d === 'South') return {x:0, y:1};
-            if (d === 'East') return {x:1, y:0};
-            if (d === 'West') return {x:-1, y:0};
-            return {x:0, y:0};
-        };
-
-        const hV = getVec(hallDir);
-        const pV = getVec(parlorDir);
-
-        const inverseDir = (d: string) => d === 'North' ? 'South' : d === 'South' ? 'North' : d === 'East' ? 'West' : 'East';
-        
-        const h1x = hV.x, h1y = hV.y;
-        const h2x = hV.x * 2, h2y = hV.y * 2;
-        const hallMinX = Math.min(h1x, h2x);
-        const hallMinY = Math.min(h1y, h2y);
-        const hallW = Math.abs(h2x - h1x) + 1;
-        const hallH = Math.abs(h2y - h1y) + 1;
-
-        const p1x = pV.x, p1y = pV.y;
-        const p2x = pV.x * 2, p2y = pV.y * 2;
-        const parlorMinX = Math.min(p1x, p2x);
-        const parlorMinY = Math.min(p1y, p2y);
-        const parlorW = Math.abs(p2x - p1x) + 1;
-        const parlorH = Math.abs(p2y - p1y) + 1;
-
-        const foyerImg = generateRoomImage(`Foyer, ${intro.startingRoomDescription}, doors on the ${hallDir} and ${parlorDir} walls, square room`, 1, 1);
-        const hallImg = generateRoomImage(`Grand Hall, A long rectangular corridor lined with portraits, containing a Strange Painting, door on the ${inverseDir(hallDir)} wall, detailed floor plan`, 2, 1); // Approx
-        const parlorImg = generateRoomImage(`The Parlor, cozy with a fireplace and armchairs, rug on floor, tea table, door on the ${inverseDir(parlorDir)} wall, detailed floor plan`, 2, 1); // Approx
-
-        const foyer: Tile = {
-          id: 'tile_start', roomId: 'room_start_mansion', name: formatRoomName('Foyer'), description: intro.startingRoomDescription,
-          x: 0, y: 0, imageType: 'hallway', roomImage: foyerImg, roomX: 0, roomY: 0, roomWidth: 1, roomHeight: 1
-        };
-        
-        const hallRoomId = 'room_start_hall';
-        const hallTile1: Tile = { id: 'tile_hall_1', roomId: hallRoomId, name: formatRoomName('Grand Hall'), description: "A long corridor lined with portraits.", x: h1x, y: h1y, imageType: 'hallway', roomImage: hallImg, roomX: hallMinX, roomY: hallMinY, roomWidth: 2, roomHeight: 2 };
-        const hallTile2: Tile = { id: 'tile_hall_2', roomId: hallRoomId, name: formatRoomName('Grand Hall'), description: "A long corridor lined with portraits.", x: h2x, y: h2y, imageType: 'hallway', roomImage: hallImg, roomX: hallMinX, roomY: hallMinY, roomWidth: 2, roomHeight: 2 };
-
-        const parlorRoomId = 'room_start_parlor';
-        const parlorTile1: Tile = { id: 'tile_parlor_1', roomId: parlorRoomId, name: formatRoomName('Parlor'), description: "A quiet sitting room.", x: p1x, y: p1y, imageType: 'study', roomImage: parlorImg, roomX: parlorMinX, roomY: parlorMinY, roomWidth: 2, roomHeight: 2 };
-        const parlorTile2: Tile = { id: 'tile_parlor_2', roomId: parlorRoomId, name: formatRoomName('Parlor'), description: "A quiet sitting room.", x: p2x, y: p2y, imageType: 'study', roomImage: parlorImg, roomX: parlorMinX, roomY: parlorMinY, roomWidth: 2, roomHeight: 2 };
-
-        const tiles = [foyer, hallTile1, hallTile2, parlorTile1, parlorTile2];
-        const tokens: Token[] = [];
-        
-        tokens.push({ id: 't_search_foyer', type: TokenType.Search, x: 0, y: 0, description: 'Coat Rack', resolved: false, requiredAttribute: Attribute.Observation, difficulty: 2 });
-        tokens.push({ id: 't_search_hall_1', type: TokenType.Search, x: h1x, y: h1y, description: 'Bust of Ancestor', resolved: false, requiredAttribute: Attribute.Lore, difficulty: 2 });
-        tokens.push({ id: 't_search_hall_2', type: TokenType.Search, x: h2x, y: h2y, description: 'Strange Painting', resolved: false, requiredAttribute: Attribute.Observation, difficulty: 3 });
-        tokens.push({ id: 't_search_parlor_1', type: TokenType.Search, x: p1x, y: p1y, description: 'Coffee Table', resolved: false, requiredAttribute: Attribute.Observation, difficulty: 2 });
-        tokens.push({ id: 't_search_parlor_2', type: TokenType.Search, x: p2x, y: p2y, description: 'Bookshelf', resolved: false, requiredAttribute: Attribute.Lore, difficulty: 2 });
-
-        tokens.push({ id: 't_door_foyer_hall', type: TokenType.Explore, x: 0, y: 0, description: 'Archway', resolved: true, direction: hallDir as any });
-        tokens.push({ id: 't_door_foyer_parlor', type: TokenType.Explore, x: 0, y: 0, description: 'Double Doors', resolved: true, direction: parlorDir as any });
-
-        const cardVectors = [{ dir: 'North', x: 0, y: -1 }, { dir: 'South', x: 0, y: 1 }, { dir: 'East', x: 1, y: 0 }, { dir: 'West', x: -1, y: 0 }];
-        const checkOccupied = (tx: number, ty: number) => tiles.some(t => t.x === tx && t.y === ty);
-
-        tiles.forEach(tile => {
-             cardVectors.forEach((v, i) => {
-                const tx = tile.x + v.x;
-                const ty = tile.y + v.y;
-                if (!checkOccupied(tx, ty)) {
-                     if (Math.random() > 0.55) {
-                         tokens.push({
-                            id: `t_door_${tile.id}_${i}`,
-                            type: TokenType.Explore,
-                            x: tile.x, y: tile.y,
-                            description: 'Heavy Door',
-                            resolved: false,
-                            direction: v.dir as any
-                        });
-                     }
-                }
-            });
-        });
-
-        const safeIntroText = intro && intro.introText ? intro.introText : "The game begins.";
-
-        setGameState(prev => ({
-          ...prev,
-          players: currentState.players, 
-          phase: GamePhase.Playing,
-          round: 1,
-          tiles: tiles,
-          tokens: tokens,
-          itemDeck: remainingItems, 
-          storyContext: safeIntroText,
-          log: [safeIntroText],
-          evidenceCollected: 0,
-          evidenceRequired: 4 + Math.floor(currentState.players.length / 2), 
-          isEscapeOpen: false
-        }));
-        
-        speak(safeIntroText);
+        // Authored scenarios bring their own intro, the procedural default asks for one
+        const scenario = getScenario(currentState.scenarioId);
+        const intro = scenario.intro || await narratorRef.current.generateIntro(currentState.difficulty, currentState.players, currentState.rngState);
+        dispatch({ type: 'START_GAME', intro });
     } catch (error) {
         console.error("Critical Error generating map:", error);
         addLog("Error starting game. Check console.", false);
@@ -690,857 +821,68 @@ const App: React.FC = () => {
     }
   };
 
-  // --- Core Game Logic ---
-
-  const handleUseItem = (item: string, remote = false) => {
-      if (gameState.networkMode === NetworkMode.Client && !remote) {
-          sendAction('ACTION_USE_ITEM', { item });
-          return;
-      }
-
-      const player = gameState.players[gameState.currentPlayerIndex];
-      const template = INVESTIGATOR_TEMPLATES.find(t => t.id === player.investigatorId);
-      const maxHp = template?.health || 7;
-      const maxSanity = template?.sanity || 7;
-
-      const consumeItem = () => {
-          const newItems = player.items.filter((i, idx) => idx !== player.items.indexOf(item));
-          return newItems;
-      };
+  // --- Interaction Logic ---
 
-      const updatePlayer = (updates: Partial<Player>) => {
-           setGameState(prev => ({
-              ...prev,
-              players: prev.players.map(p => p.id === player.id ? { ...p, ...updates } : p)
-           }));
-      };
+  const handleUseItem = (item: string) => act({ type: 'USE_ITEM', item });
 
-      if (item === "First Aid Kit") {
-          const newHp = Math.min(player.health + 2, maxHp);
-          if (newHp > player.health) {
-              updatePlayer({ health: newHp, items: consumeItem() });
-              addLog(`${player.name} uses First Aid Kit and heals 2 Health.`);
-          } else {
-              addLog("Health is already full.", false);
-          }
-      } else if (item === "Bandages") {
-          const newHp = Math.min(player.health + 1, maxHp);
-          if (newHp > player.health) {
-               updatePlayer({ health: newHp, items: consumeItem() });
-               addLog(`${player.name} bandages their wounds (+1 Health).`);
-          } else {
-              addLog("Health is already full.", false);
-          }
-      } else if (item === "Painkillers") {
-          const newHp = Math.min(player.health + 2, maxHp);
-          if (newHp > player.health) {
-               updatePlayer({ health: newHp, sanity: Math.max(0, player.sanity - 1), items: consumeItem() });
-               addLog(`${player.name} takes Painkillers (+2 Health, -1 Sanity).`);
-          } else {
-               addLog("Health is already full.", false);
-          }
-      } else if (item === "Smelling Salts") {
-          const newSanity = Math.min(player.sanity + 2, maxSanity);
-          if (newSanity > player.sanity) {
-               updatePlayer({ sanity: newSanity, items: consumeItem() });
-               addLog(`${player.name} uses Smelling Salts (+2 Sanity).`);
-          } else {
-               addLog("Sanity is already full.", false);
-          }
-      } else if (item === "Pocket Watch") {
-          updatePlayer({ actionsRemaining: player.actionsRemaining + 2, items: consumeItem() });
-          addLog(`${player.name} checks the Pocket Watch. Time seems to slow (+2 Actions).`);
-      } else if (item === "Kerosene") {
-          const monstersInSpace = gameState.monsters.filter(m => m.x === player.x && m.y === player.y);
-          if (monstersInSpace.length > 0) {
-              const target = monstersInSpace[0];
-              const newHealth = target.health - 3;
-              let newMonsters = [...gameState.monsters];
-              if (newHealth <= 0) {
-                  newMonsters = newMonsters.filter(m => m.id !== target.id);
-                  addLog(`${player.name} throws Kerosene! ${target.name} burns and dies!`, true);
-              } else {
-                  newMonsters = newMonsters.map(m => m.id === target.id ? { ...m, health: newHealth } : m);
-                  addLog(`${player.name} throws Kerosene! ${target.name} takes 3 Fire Damage.`, true);
-              }
-              setGameState(prev => ({
-                  ...prev,
-                  monsters: newMonsters,
-                  players: prev.players.map(p => p.id === player.id ? { ...p, items: consumeItem() } : p)
-              }));
-          } else {
-              addLog("No monsters here to burn.", false);
-          }
-      }
-  };
+  const handleUseAbility = (playerId: string, use: AbilityUse) => act({ type: 'USE_ABILITY', playerId, use });
 
-  const handleConsumeItem = (item: string) => {
-      if (gameState.networkMode === NetworkMode.Client) {
-          sendAction('ACTION_USE_ITEM', { item });
-          return;
+  // Offline, both investigators sit at this screen, so offering is agreeing.
+  // Online, the partner has to accept the offer from their own screen.
+  const handleProposeTrade = (offer: TradeOffer) => {
+      act({ type: 'PROPOSE_TRADE', offer });
+      if (gameState.networkMode === NetworkMode.Offline) {
+          act({ type: 'RESPOND_TRADE', playerId: offer.toId, accept: true });
       }
-
-      const player = gameState.players[gameState.currentPlayerIndex];
-      const newItems = player.items.filter((i, idx) => idx !== player.items.indexOf(item));
-      setGameState(prev => ({
-          ...prev,
-          players: prev.players.map(p => p.id === player.id ? { ...p, items: newItems } : p),
-          log: [...prev.log, `${player.name} used ${item}.`].slice(-50)
-      }));
-  };
-
-  const handleMarkItemUsed = () => {
-      const player = gameState.players[gameState.currentPlayerIndex];
-      setGameState(prev => ({
-          ...prev,
-          players: prev.players.map(p => p.id === player.id ? { ...p, usedItemAbilityRound: true } : p)
-      }));
+      setTradePartnerId(null);
   };
 
-  const applyDamage = async (playerId: string, damage: number, horror: number) => {
-      setGameState(prev => {
-          const player = prev.players.find(p => p.id === playerId);
-          if (!player) return prev;
-
-          let newHealth = player.health - damage;
-          let newSanity = player.sanity - horror;
-          let newIsWounded = player.isWounded;
-          let newIsInsane = player.isInsane;
-          let logMsg = "";
-          let elimMsg = "";
-
-          if (newHealth <= 0) {
-              if (player.isWounded) {
-                  elimMsg = `${player.name} has succumbed to their wounds!`;
-                  return { ...prev, players: prev.players.filter(p => p.id !== playerId), log: [...prev.log, elimMsg].slice(-50) };
-              } else {
-                  newIsWounded = true;
-                  const template = INVESTIGATOR_TEMPLATES.find(t => t.id === player.investigatorId);
-                  newHealth = template ? template.health : 7; 
-                  logMsg += `${player.name} is broken and Wounded! Health restored, but mobility is limited. `;
-              }
-          }
-
-          let sanityChanged = false;
-          if (newSanity <= 0) {
-              if (!player.isInsane) {
-                  newIsInsane = true;
-                  newSanity = 0; 
-                  logMsg += `${player.name} has gone INSANE! `;
-                  sanityChanged = true;
-              } else {
-                 newSanity = 0;
-              }
-          }
+  const handleRespondTrade = (playerId: string, accept: boolean) => act({ type: 'RESPOND_TRADE', playerId, accept });
 
-          if (logMsg) speak(logMsg);
+  // Offline games control every investigator, networked screens only their own
+  const controlsPlayer = (playerId: string) => gameState.networkMode === NetworkMode.Offline || playerId === myPlayerId;
 
-          const updatedPlayer = {
-              ...player,
-              health: newHealth,
-              sanity: newSanity,
-              isWounded: newIsWounded,
-              isInsane: newIsInsane,
-              actionsRemaining: (newIsWounded && !player.isWounded) ? Math.min(player.actionsRemaining, 1) : player.actionsRemaining,
-              movesRemaining: (newIsWounded && !player.isWounded) ? Math.min(player.movesRemaining, 1) : player.movesRemaining
-          };
+  const handlePuzzleComplete = (success: boolean) => {
+      act({ type: 'COMPLETE_PUZZLE', success });
 
-          return {
-              ...prev,
-              players: prev.players.map(p => p.id === playerId ? updatedPlayer : p),
-              log: logMsg ? [...prev.log, logMsg].slice(-50) : prev.log
-          };
-      });
-
-      const player = gameState.players.find(p => p.id === playerId); 
-      
-      if (player && !player.isInsane && (player.sanity - horror) <= 0) {
-         setLoading(true);
-         const objective = await GeminiService.generateInsanityCondition(gameState.storyContext);
-         setGameState(prev => ({
-             ...prev,
-             players: prev.players.map(p => p.id === playerId ? { ...p, secretObjective: objective } : p)
-         }));
-         setLoading(false);
-      }
-  };
-
-  const updatePlayerAction = (playerId: string, delta: number) => {
-    setGameState(prev => ({
-        ...prev,
-        players: prev.players.map(p => p.id === playerId ? { ...p, actionsRemaining: p.actionsRemaining + delta } : p)
-    }));
-  };
-
-  // --- New Centralized Action Resolution Logic ---
-  
-  const handleActionComplete = (context: ActionContext, success: boolean, data?: any) => {
-      // If we are Client, we must send this to Host
+      // Clients clear the local UI immediately for responsiveness
       if (gameState.networkMode === NetworkMode.Client) {
-          sendAction('ACTION_COMPLETE_TASK', { context, success, data });
-          
-          // Clear local UI immediately for responsiveness
           setGameState(prev => ({
               ...prev,
-              activeDiceRoll: undefined,
               activePuzzle: undefined,
               phase: GamePhase.Playing // Return to playing pending sync
           }));
-          return;
-      }
-
-      // HOST LOGIC (also runs if offline)
-      console.log("Resolving Action:", context, success);
-
-      if (context.type === 'SEARCH') {
-          const token = gameState.tokens.find(t => t.id === context.tokenId);
-          if (token) {
-              resolveSearch(token, success, data); // data is rolls array
-          } else {
-              setGameState(prev => ({ ...prev, phase: GamePhase.Playing, activeDiceRoll: undefined, activePuzzle: undefined }));
-          }
-      } else if (context.type === 'COMBAT') {
-          resolveCombat(context.monsterId, success, data); // data is damage amount
       }
   };
 
-  // --- Interaction Logic ---
+  const handleStudyPuzzle = () => act({ type: 'STUDY_PUZZLE' });
 
-  const handleTileClick = (tile: Tile, remote = false) => {
-    // Check if Game is playing
-    const currentState = gameStateRef.current;
-    if (currentState.phase !== GamePhase.Playing) return;
-    
-    // Network Check
-    if (currentState.networkMode === NetworkMode.Client && !remote) {
-        sendAction('ACTION_TILE_CLICK', { tileId: tile.id });
-        return;
-    }
-
-    const player = currentState.players[currentState.currentPlayerIndex];
-
-    if (player.movesRemaining <= 0) {
-        addLog("No moves remaining.", false);
-        return;
-    }
-
-    // MONSTER CHECK: Movement Restriction
-    const monstersOnTile = currentState.monsters.filter(m => m.x === player.x && m.y === player.y);
-    if (monstersOnTile.length > 0 && (tile.x !== player.x || tile.y !== player.y)) {
-        addLog(`${player.name} is engaged by ${monstersOnTile[0].name} and cannot move! Defeat the monster first.`, true);
-        return;
-    }
-
-    const dist = Math.abs(player.x - tile.x) + Math.abs(player.y - tile.y);
-    if (dist === 1) {
-        const updatedPlayers = currentState.players.map(p => 
-            p.id === player.id 
-            ? { ...p, x: tile.x, y: tile.y, movesRemaining: p.movesRemaining - 1 }
-            : p
-        );
-        setGameState(prev => ({ ...prev, players: updatedPlayers }));
-    }
-  };
-
-  const handleTokenClick = async (token: Token, remote = false) => {
-    const currentState = gameStateRef.current;
-    if (currentState.phase !== GamePhase.Playing) return;
+  const handleTileClick = (tile: Tile) => act({ type: 'MOVE', tileId: tile.id });
 
-    if (currentState.networkMode === NetworkMode.Client && !remote) {
-        sendAction('ACTION_TOKEN_CLICK', { tokenId: token.id });
-        return;
-    }
+  const handleTokenClick = (token: Token) => act({ type: 'INTERACT_TOKEN', tokenId: token.id });
 
-    const player = currentState.players[currentState.currentPlayerIndex];
-    
-    if (player.x !== token.x || player.y !== token.y) {
-      addLog("You must be in the same area to interact.", false);
-      return;
-    }
+  const handleMonsterClick = (monster: Monster) => act({ type: 'ATTACK', monsterId: monster.id });
 
-    if (token.type === TokenType.Escape) {
-        setGameState(prev => ({ ...prev, phase: GamePhase.Victory }));
-        speak("You burst through the heavy doors into the cool night air. You have survived the night.");
-        return;
-    }
+  const handleEvade = (monster: Monster) => act({ type: 'EVADE', monsterId: monster.id });
 
-    if (player.actionsRemaining <= 0) {
-      addLog("No actions remaining.", false);
-      return;
-    }
+  const handleDialogueChoice = (choiceIndex: number | null) => act({ type: 'CHOOSE_DIALOGUE', choiceIndex });
 
-    if (token.type === TokenType.Explore) {
-      setLoading(true);
-      
-      let dir = token.direction || 'North';
-      let originX = token.x;
-      let originY = token.y;
-      
-      let entryX = originX;
-      let entryY = originY;
-      if (dir === 'North') entryY--;
-      if (dir === 'South') entryY++;
-      if (dir === 'East') entryX++;
-      if (dir === 'West') entryX--;
-
-      const exists = currentState.tiles.find(t => t.x === entryX && t.y === entryY);
-      if (exists) {
-        addLog(`${player.name} opens the door, but it leads to a known room.`, true);
-        updatePlayerAction(player.id, -1);
-        setGameState(prev => ({
-           ...prev,
-           tokens: prev.tokens.map(t => t.id === token.id ? { ...t, resolved: true } : t)
-        }));
-        setLoading(false);
-        return;
-      }
+  const endTurn = () => act({ type: 'END_TURN' });
 
-      const sourceTile = currentState.tiles.find(t => t.x === originX && t.y === originY);
-      const fromType = sourceTile?.imageType || 'hallway';
-      const existingTypes = Array.from(new Set(currentState.tiles.map(t => t.imageType.toLowerCase()))) as string[];
-
-      const roomData = await GeminiService.generateRoomDiscovery(dir, currentState.storyContext, fromType, existingTypes);
-      const roomName = formatRoomName(roomData.name);
-      
-      const newTiles: Tile[] = [];
-      const newTokens: Token[] = [];
-      const newRoomId = `room_${Date.now()}`;
-      const isHallway = roomData.visualType.toLowerCase() === 'hallway';
-      const isCloset = roomData.visualType.toLowerCase() === 'closet';
-      
-      const entryTile = {
-        id: `tile_${Date.now()}_entry`,
-        roomId: newRoomId,
-        name: roomName,
-        description: roomData.description,
-        x: entryX,
-        y: entryY,
-        imageType: roomData.visualType.toLowerCase() as any
-      };
-      newTiles.push(entryTile);
-
-      if (!isHallway && !isCloset) {
-          const checkOccupied = (x: number, y: number) => {
-              return currentState.tiles.some(t => t.x === x && t.y === y) || newTiles.some(t => t.x === x && t.y === y);
-          };
-
-          let dx = 0, dy = 0;
-          let orthoX = 0, orthoY = 0;
-          
-          if (dir === 'North') { dy = -1; orthoX = 1; } 
-          if (dir === 'South') { dy = 1; orthoX = 1; }
-          if (dir === 'East') { dx = 1; orthoY = 1; }
-          if (dir === 'West') { dx = -1; orthoY = 1; }
-
-          const p1 = { x: entryX + dx, y: entryY + dy }; 
-          const p2 = { x: entryX + orthoX, y: entryY + orthoY }; 
-          const p3 = { x: entryX + dx + orthoX, y: entryY + dy + orthoY }; 
-
-          const can2x2 = !checkOccupied(p1.x, p1.y) && !checkOccupied(p2.x, p2.y) && !checkOccupied(p3.x, p3.y);
-          
-          if (can2x2 && Math.random() > 0.5) {
-             [p1, p2, p3].forEach((p, i) => {
-                 newTiles.push({
-                    id: `tile_${Date.now()}_${i}`,
-                    roomId: newRoomId,
-                    name: roomName,
-                    description: "",
-                    x: p.x,
-                    y: p.y,
-                    imageType: roomData.visualType.toLowerCase() as any
-                 });
-             });
-          } else {
-             if (!checkOccupied(p1.x, p1.y) && Math.random() > 0.2) {
-                  newTiles.push({
-                    id: `tile_${Date.now()}_fwd`,
-                    roomId: newRoomId,
-                    name: roomName,
-                    description: "",
-                    x: p1.x,
-                    y: p1.y,
-                    imageType: roomData.visualType.toLowerCase() as any
-                 });
-             } else if (!checkOccupied(p2.x, p2.y) && Math.random() > 0.2) {
-                  newTiles.push({
-                    id: `tile_${Date.now()}_side`,
-                    roomId: newRoomId,
-                    name: roomName,
-                    description: "",
-                    x: p2.x,
-                    y: p2.y,
-                    imageType: roomData.visualType.toLowerCase() as any
-                 });
-             }
-          }
-      }
-
-      const xs = newTiles.map(t => t.x);
-      const ys = newTiles.map(t => t.y);
-      const minX = Math.min(...xs);
-      const minY = Math.min(...ys);
-      const maxX = Math.max(...xs);
-      const maxY = Math.max(...ys);
-      const width = maxX - minX + 1;
-      const height = maxY - minY + 1;
-      
-      const entryDirection = dir === 'North' ? 'South' : dir === 'South' ? 'North' : dir === 'East' ? 'West' : 'East';
-
-      const exitCount = isHallway ? 2 : (Math.random() > 0.6 ? 2 : 1);
-      const possibleDirs = ['North', 'South', 'East', 'West'].filter(d => {
-          if (dir === 'North' && d === 'South') return false;
-          if (dir === 'South' && d === 'North') return false;
-          if (dir === 'East' && d === 'West') return false;
-          if (dir === 'West' && d === 'East') return false;
-          return true;
-      });
-
-      const selectedExits: string[] = [];
-      for (let i = 0; i < exitCount; i++) {
-          if (possibleDirs.length === 0) break;
-          const exDir = possibleDirs.splice(Math.floor(Math.random() * possibleDirs.length), 1)[0];
-          selectedExits.push(exDir);
-      }
-
-      const doors = [entryDirection, ...selectedExits];
-      const doorString = `doors on the ${doors.join(' and ')} walls`;
-
-      const roomImgPrompt = `${roomName}, ${roomData.description}, ${doorString}, ${roomData.visualType} style`;
-      const roomImgUrl = generateRoomImage(roomImgPrompt, width, height);
-
-      newTiles.forEach(t => {
-          t.roomImage = roomImgUrl;
-          t.roomX = minX;
-          t.roomY = minY;
-          t.roomWidth = width;
-          t.roomHeight = height;
-      });
-
-      const searchPoints = roomData.searchPoints || [{description: 'Unknown', attribute: 'Observation'}];
-      const shuffledTiles = [...newTiles].sort(() => 0.5 - Math.random());
-      
-      searchPoints.forEach((point: any, index: number) => {
-          const targetTile = shuffledTiles[index % shuffledTiles.length];
-          newTokens.push({
-            id: `tok_${Date.now()}_search_${index}`,
-            type: TokenType.Search,
-            x: targetTile.x,
-            y: targetTile.y,
-            description: point.description,
-            resolved: false,
-            requiredAttribute: (point.attribute as Attribute) || Attribute.Observation,
-            difficulty: 2
-          });
-      });
-
-      selectedExits.forEach((exDir, i) => {
-          const candidates = newTiles.filter(t => {
-             if (exDir === 'North') return t.y === minY;
-             if (exDir === 'South') return t.y === maxY;
-             if (exDir === 'West') return t.x === minX;
-             if (exDir === 'East') return t.x === maxX;
-             return false;
-          });
-          
-          const doorTile = candidates.length > 0 
-                ? candidates[Math.floor(Math.random() * candidates.length)] 
-                : newTiles[Math.floor(Math.random() * newTiles.length)];
-
-          newTokens.push({
-            id: `tok_${Date.now()}_door_${i}`,
-            type: TokenType.Explore,
-            x: doorTile.x,
-            y: doorTile.y,
-            description: isHallway ? 'Heavy Door' : 'Side Door',
-            resolved: false,
-            direction: exDir as any
-          });
-      });
-
-      const updatedPlayers = currentState.players.map(p => 
-        p.id === player.id 
-        ? { ...p, x: entryX, y: entryY, actionsRemaining: p.actionsRemaining - 1 } 
-        : p
-      );
-
-      const updatedTokens = currentState.tokens.map(t => 
-        t.id === token.id ? { ...t, resolved: true } : t
-      );
-
-      setGameState(prev => ({
-        ...prev,
-        tiles: [...prev.tiles, ...newTiles],
-        tokens: [...updatedTokens, ...newTokens],
-        players: updatedPlayers,
-        storyContext: prev.storyContext + ` They entered ${roomName}. ${roomData.description}`,
-        log: [...prev.log, `${player.name} explores ${roomName}. ${roomData.description}`].slice(-50)
-      }));
-      
-      speak(`${player.name} opens the door to ${roomName}. ${roomData.description}`);
-      setLoading(false);
-
-    } else if (token.type === TokenType.Search) {
-      if (Math.random() > 0.7) {
-          const rand = Math.random();
-          let puzzleType = PuzzleType.Sliding;
-          if (rand < 0.33) puzzleType = PuzzleType.Sliding;
-          else if (rand < 0.66) puzzleType = PuzzleType.Rune;
-          else puzzleType = PuzzleType.Code;
-
-          setGameState(prev => ({
-              ...prev,
-              phase: GamePhase.Puzzle,
-              activePuzzle: {
-                  type: puzzleType,
-                  token: token,
-                  context: { type: 'SEARCH', tokenId: token.id }
-              }
-          }));
-      } else {
-          const attr = token.requiredAttribute || Attribute.Observation;
-          const count = player.attributes[attr]; 
-          
-          setGameState(prev => ({
-            ...prev,
-            phase: GamePhase.DiceRoll,
-            activeDiceRoll: {
-              playerId: player.id,
-              attribute: attr,
-              count: count,
-              target: token.difficulty || 1,
-              description: token.description,
-              context: { type: 'SEARCH', tokenId: token.id }
-            }
-          }));
-      }
-    }
-  };
-
-  const resolveSearch = async (token: Token, success: boolean, rolls: DiceFace[]) => {
-     setLoading(true);
-     setGameState(prev => ({ 
-         ...prev, 
-         phase: GamePhase.Playing, 
-         activeDiceRoll: undefined,
-         activePuzzle: undefined 
-     }));
-
-     let rewardType: 'None' | 'Evidence' | 'Item' | 'Clue' = 'None';
-     let foundObjectName = '';
-
-     if (success) {
-         const roll = Math.random();
-         const state = gameStateRef.current;
-         
-         if (!state.isEscapeOpen && roll < 0.20) { 
-             rewardType = 'Evidence';
-             foundObjectName = 'Incriminating Evidence';
-         } else if (roll < 0.65 && state.itemDeck.length > 0) {
-             rewardType = 'Item';
-             foundObjectName = state.itemDeck[state.itemDeck.length - 1];
-         } else {
-             rewardType = 'Clue'; 
-             foundObjectName = 'a Clue';
-         }
-     }
-
-     const narrative = await GeminiService.generateInvestigationOutcome(
-       token.description, 
-       success, 
-       gameState.storyContext,
-       rewardType === 'Item' ? foundObjectName : (rewardType === 'Evidence' ? 'Incriminating Evidence' : (rewardType === 'Clue' ? 'a hidden Clue' : undefined))
-     );
-     
-     setGameState(prev => {
-        let newPlayers = [...prev.players];
-        let newTokens = [...prev.tokens];
-        let newItemDeck = [...prev.itemDeck];
-        let rewardMsg = "";
-        let newEvidenceCount = prev.evidenceCollected;
-
-        const currentPlayer = newPlayers[prev.currentPlayerIndex];
-
-        if (success) {
-           if (rewardType === 'Evidence') {
-               newEvidenceCount++;
-               rewardMsg = "Found: EVIDENCE";
-           } else if (rewardType === 'Item') {
-               const popped = newItemDeck.pop();
-               if (popped) {
-                   currentPlayer.items.push(popped);
-                   rewardMsg = `Found: ${popped}`;
-               } else {
-                   currentPlayer.clues++;
-                   rewardMsg = "Found: 1 Clue";
-               }
-           } else {
-               currentPlayer.clues++;
-               rewardMsg = "Found: 1 Clue";
-           }
-
-           newTokens = newTokens.filter(t => t.id !== token.id);
-        } else {
-           rewardMsg = "Found nothing";
-        }
-
-        newPlayers[prev.currentPlayerIndex].actionsRemaining--;
-        
-        const logMsg = `${success ? 'SUCCESS' : 'FAILURE'}: ${rewardMsg}. ${narrative}`;
-        
-        const nextState = {
-          ...prev,
-          players: newPlayers,
-          tokens: newTokens,
-          itemDeck: newItemDeck,
-          log: [...prev.log, logMsg].slice(-50),
-          storyContext: prev.storyContext + ` Investigation of ${token.description}: ${narrative}`,
-          evidenceCollected: newEvidenceCount
-        };
-
-        return nextState;
-     });
-
-     setTimeout(() => {
-        setGameState(current => {
-            if (current.evidenceCollected >= current.evidenceRequired && !current.isEscapeOpen) {
-                const finaleMsg = "You found the final piece of evidence! The ancient ritual is exposed. The Master of the House has awoken! RETREAT TO THE FOYER!";
-                const spawnTile = current.tiles[Math.floor(Math.random() * current.tiles.length)];
-                const bossTemplate = MONSTER_TEMPLATES.find(m => m.tier === 3) || MONSTER_TEMPLATES[MONSTER_TEMPLATES.length - 1];
-                
-                const boss: Monster = {
-                    id: `boss_${Date.now()}`,
-                    templateId: bossTemplate.id,
-                    name: bossTemplate.name,
-                    tier: 3,
-                    health: bossTemplate.health + current.players.length * 3,
-                    maxHealth: bossTemplate.health + current.players.length * 3,
-                    damage: bossTemplate.damage + 1,
-                    horror: bossTemplate.horror + 1,
-                    x: spawnTile.x,
-                    y: spawnTile.y,
-                    image: bossTemplate.image
-                };
-
-                const escapeToken: Token = {
-                    id: 'tok_escape',
-                    type: TokenType.Escape,
-                    x: 0, 
-                    y: 0,
-                    description: "Exit the Mansion",
-                    resolved: false
-                };
-
-                speak(finaleMsg);
-
-                return {
-                    ...current,
-                    isEscapeOpen: true,
-                    monsters: [...current.monsters, boss],
-                    tokens: [...current.tokens, escapeToken],
-                    log: [...current.log, `FINALE: ${finaleMsg}`].slice(-50)
-                };
-            }
-            return current;
-        });
-     }, 100);
-
-     let spokenText = narrative.trim();
-     if (spokenText && !/[.!?]$/.test(spokenText)) {
-         spokenText += ".";
-     }
-     
-     if (success) {
-         if (rewardType === 'Item') spokenText += ` ${foundObjectName} added to inventory.`;
-         else if (rewardType === 'Clue') spokenText += ` Clue added to inventory.`;
-         else if (rewardType === 'Evidence') spokenText += ` Evidence collected.`;
-     } 
-
-     if (success) spokenText += (gameState.evidenceCollected + 1 >= gameState.evidenceRequired ? " You feel you are close to the truth." : "");
-
-     speak(spokenText);
-     setLoading(false);
-  };
-
-  const endMythosPhase = () => {
-    const currentState = gameStateRef.current;
-    if (currentState.players.length === 0) {
-        addLog("ALL INVESTIGATORS ELIMINATED", true);
-        setGameState(prev => ({ ...prev, phase: GamePhase.GameOver }));
-        return;
-    }
-    setGameState(prev => ({
-      ...prev,
-      phase: GamePhase.Playing,
-      mythosEvent: undefined,
-      currentPlayerIndex: 0,
-      players: prev.players.map(p => ({ 
-          ...p, 
-          actionsRemaining: p.isWounded ? 1 : 2, 
-          movesRemaining: p.isWounded ? 1 : 2,
-          usedItemAbilityRound: false 
-      }))
-    }));
-    addLog("New Round.", false);
-  };
-
-  const runMythosPhase = async () => {
-      const currentState = gameStateRef.current;
-      const nextRound = currentState.round + 1;
-      const threat = Math.min(10, nextRound + (currentState.difficulty === 'Hard' ? 2 : 0));
-      
-      setGameState(prev => ({ ...prev, phase: GamePhase.Mythos, round: nextRound }));
-      
-      try {
-          const event = await GeminiService.generateMythosEvent(currentState.storyContext, threat);
-          
-          let logMsg = event.narrative;
-          let newMonsters = [...currentState.monsters];
-          let newPlayers = [...currentState.players];
-          
-          if (event.type === 'SPAWN') {
-             const tile = currentState.tiles[Math.floor(Math.random() * currentState.tiles.length)];
-             const mTemplate = MONSTER_TEMPLATES.find(m => m.tier === (threat > 6 ? 2 : 1)) || MONSTER_TEMPLATES[0];
-             const monster: Monster = {
-                 id: `m_${Date.now()}`,
-                 templateId: mTemplate.id,
-                 name: mTemplate.name,
-                 health: mTemplate.health,
-                 maxHealth: mTemplate.health,
-                 damage: mTemplate.damage,
-                 horror: mTemplate.horror,
-                 tier: mTemplate.tier as any,
-                 x: tile.x,
-                 y: tile.y,
-                 image: mTemplate.image
-             };
-             newMonsters.push(monster);
-             logMsg += ` A ${monster.name} appears!`;
-          } else if (event.type === 'TEST') {
-             // Simple global horror test
-             logMsg += " The darkness presses in. All investigators take 1 Horror.";
-             newPlayers = newPlayers.map(p => ({ ...p, sanity: Math.max(0, p.sanity - 1) }));
-          }
-          
-          setGameState(prev => ({ 
-              ...prev, 
-              monsters: newMonsters,
-              players: newPlayers,
-              mythosEvent: { text: logMsg, type: event.type as any },
-              log: [...prev.log, logMsg].slice(-50)
-          }));
-          speak(logMsg);
-      } catch (e) {
-          endMythosPhase(); 
-      }
-  };
-
-  const resolveCombat = (monsterId: string, hit: boolean, damage: number) => {
-     setGameState(prev => {
-         let newMonsters = [...prev.monsters];
-         const mIdx = newMonsters.findIndex(m => m.id === monsterId);
-         let msg = "";
-         if (mIdx !== -1 && hit) {
-             newMonsters[mIdx] = { ...newMonsters[mIdx], health: newMonsters[mIdx].health - damage };
-             if (newMonsters[mIdx].health <= 0) {
-                 msg = `You defeated the ${newMonsters[mIdx].name}!`;
-                 newMonsters.splice(mIdx, 1);
-             } else {
-                 msg = `You hit the ${newMonsters[mIdx].name} for ${damage} damage.`;
-             }
-         } else {
-             msg = "Attack missed!";
-         }
-         return {
-             ...prev,
-             monsters: newMonsters,
-             phase: GamePhase.Playing,
-             activeDiceRoll: undefined,
-             log: [...prev.log, msg].slice(-50)
-         };
-     });
-  };
-
-  const handleMonsterClick = (monster: Monster, remote = false) => {
-      const currentState = gameStateRef.current;
-      if (currentState.phase !== GamePhase.Playing) return;
-
-      if (currentState.networkMode === NetworkMode.Client && !remote) {
-          sendAction('ACTION_MONSTER_CLICK', { monsterId: monster.id });
-          return;
-      }
-
-      const player = currentState.players[currentState.currentPlayerIndex];
-      
-      if (player.actionsRemaining <= 0) {
-          addLog("No actions remaining.", false);
-          return;
-      }
-
-      if (Math.abs(player.x - monster.x) + Math.abs(player.y - monster.y) > 0) {
-           const hasGun = player.items.some(i => i.includes('Revolver') || i.includes('Shotgun'));
-           if (!hasGun) {
-               addLog("Too far to attack! (Need firearm)", false);
-               return;
-           }
-      }
-
-      const weapon = player.items.find(i => ITEMS[i]?.type === 'Weapon');
-      const baseDmg = 1;
-      const weaponDmg = weapon ? (weapon.includes('Shotgun') ? 2 : 1) : 0;
-      const totalDmg = baseDmg + weaponDmg;
-      const str = player.attributes[Attribute.Strength];
-
-      setGameState(prev => ({
-          ...prev,
-          phase: GamePhase.DiceRoll,
-          activeDiceRoll: {
-              playerId: player.id,
-              attribute: Attribute.Strength,
-              count: str,
-              target: 2, 
-              description: `Attacking ${monster.name}`,
-              context: { type: 'COMBAT', monsterId: monster.id }
-          }
-      }));
-      
-      updatePlayerAction(player.id, -1);
-  };
-
-  const endTurn = (remote = false) => {
-      const currentState = gameStateRef.current;
-      if (currentState.networkMode === NetworkMode.Client && !remote) {
-           sendAction('ACTION_END_TURN', {});
-           return;
-      }
-      
-      const player = currentState.players[currentState.currentPlayerIndex];
-      const enemies = currentState.monsters.filter(m => m.x === player.x && m.y === player.y);
-      if (enemies.length > 0) {
-          let totalDmg = 0;
-          let totalHorror = 0;
-          enemies.forEach(m => { totalDmg += m.damage; totalHorror += m.horror; });
-          if (totalDmg > 0 || totalHorror > 0) {
-              addLog(`${player.name} is attacked by enemies!`, true);
-              applyDamage(player.id, totalDmg, totalHorror);
-          }
-      }
-
-      const nextIndex = (currentState.currentPlayerIndex + 1) % currentState.players.length;
-      if (nextIndex === 0) {
-          runMythosPhase();
-      } else {
-           setGameState(prev => ({ 
-               ...prev, 
-               currentPlayerIndex: nextIndex,
-               players: prev.players.map(p => p.id === prev.players[nextIndex].id ? 
-                   { ...p, actionsRemaining: p.isWounded ? 1 : 2, movesRemaining: p.isWounded ? 1 : 2 } : p)
-           }));
-           speak(`It is ${currentState.players[nextIndex].name}'s turn.`);
-      }
-  };
+  const endMythosPhase = () => act({ type: 'END_MYTHOS' });
 
   // --- Render ---
   const currentPlayer = gameState.players[gameState.currentPlayerIndex];
+  const rollingPlayer = gameState.players.find(p => p.id === gameState.activeDiceRoll?.playerId);
+  const engagingMonsters = currentPlayer
+    ? gameState.monsters.filter(m => m.x === currentPlayer.x && m.y === currentPlayer.y && !currentPlayer.evadedMonsters?.includes(m.id))
+    : [];
+  const tradePartners = currentPlayer
+    ? gameState.players.filter(p => p.id !== currentPlayer.id && p.x === currentPlayer.x && p.y === currentPlayer.y)
+    : [];
+  const tradePartner = gameState.players.find(p => p.id === tradePartnerId);
+  const pendingTrade = gameState.pendingTrade;
+  const scenario = getScenario(gameState.scenarioId);
   
   const activeTemplateId = previewInvId || selectedInvId || INVESTIGATOR_TEMPLATES[0].id;
   const activeTemplate = INVESTIGATOR_TEMPLATES.find(t => t.id === activeTemplateId) || INVESTIGATOR_TEMPLATES[0];
@@ -1561,6 +903,69 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* Client Reconnecting Banner */}
+      {reconnecting && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-[150] bg-[#2a1b15] border border-yellow-700 px-4 py-2 rounded-sm shadow-lg text-sm font-serif text-[#d4c5b0] animate-pulse">
+          Connection to the host lost. Reconnecting...
+        </div>
+      )}
+
+      {/* Host Rejection Toast */}
+      {protocolError && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-[150] bg-[#2a1b15] border border-red-900 px-4 py-2 rounded-sm shadow-lg text-sm font-serif text-[#d4c5b0]">
+          <span className="text-red-500 font-bold uppercase tracking-widest text-xs mr-2">Refused</span>
+          {protocolError.message}
+        </div>
+      )}
+
+      {/* Save Slots */}
+      {showSaves && (
+        <div className="fixed inset-0 z-[120] bg-black/80 flex items-center justify-center p-8" onClick={() => setShowSaves(false)}>
+          <div className="bg-[#1a1210] border-2 border-[#5c4033] rounded-sm p-6 max-w-lg w-full shadow-2xl font-serif text-[#d4c5b0]" onClick={(e) => e.stopPropagation()}>
+            <h2 className="text-2xl text-mythos-gold uppercase tracking-widest mb-4">Case Files</h2>
+
+            {gameState.phase !== GamePhase.Lobby && (
+              <div className="flex gap-2 mb-4">
+                <input
+                  type="text"
+                  placeholder={`Round ${gameState.round}`}
+                  value={saveName}
+                  onChange={(e) => setSaveName(e.target.value)}
+                  className="flex-1 bg-black/40 border border-[#5c4033] px-2 py-1 text-sm outline-none"
+                />
+                <button onClick={saveToSlot} className="px-3 py-1 bg-[#5c1a1a] border border-red-900 text-xs uppercase font-bold hover:bg-red-900">Save</button>
+                <button onClick={() => Saves.exportSave(saveName.trim() || `Round ${gameState.round}`, gameStateRef.current)} className="px-3 py-1 bg-black/60 border border-[#5c4033] text-xs uppercase font-bold hover:bg-black">Export</button>
+              </div>
+            )}
+
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {saveSlots.length === 0 && <p className="text-sm italic text-gray-500">No saved investigations.</p>}
+              {saveSlots.map(slot => (
+                <div key={slot.name} className="flex items-center justify-between bg-black/40 border border-[#3e2723] px-3 py-2">
+                  <div>
+                    <div className="font-bold">{slot.name}</div>
+                    <div className="text-xs text-gray-500">
+                      Round {slot.round} · {slot.investigators.join(', ')} · {new Date(slot.savedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={() => restoreSave(Saves.loadSave(slot.name))} className="px-2 py-1 text-xs uppercase font-bold border border-mythos-gold text-mythos-gold hover:bg-mythos-gold hover:text-black">Load</button>
+                    <button onClick={() => { Saves.deleteSave(slot.name); setSaveSlots(Saves.listSaves()); }} className="px-2 py-1 text-xs uppercase border border-red-900 text-red-400 hover:bg-red-900">Delete</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <label className="block mt-4 text-xs uppercase tracking-widest text-gray-400 cursor-pointer hover:text-white">
+              Import save file…
+              <input type="file" accept="application/json,.json" onChange={importSaveFile} className="hidden" />
+            </label>
+
+            {saveError && <p className="mt-3 text-sm text-red-400">{saveError}</p>}
+          </div>
+        </div>
+      )}
+
       {/* Title Screen Overlay */}
       {showTitleScreen && (
         <div className="absolute inset-0 z-[100] bg-black flex flex-col items-center justify-center p-8 text-center bg-[url('https://www.transparenttextures.com/patterns/dark-matter.png')]">
@@ -1635,13 +1040,30 @@ const App: React.FC = () => {
                     Actions: <span className="text-white font-bold ml-1">{currentPlayer.actionsRemaining}</span>
                  </div>
                  <div className="bg-black/60 px-3 py-1 border border-[#5c4033] rounded-sm text-blue-300 shadow-[0_0_10px_rgba(0,100,255,0.2)]">
-                    Evidence: <span className="text-white font-bold ml-1">{gameState.evidenceCollected} / {gameState.evidenceRequired}</span>
+                    {scenario.evidence.name}: <span className="text-white font-bold ml-1">{gameState.evidenceCollected} / {gameState.evidenceRequired}</span>
+                 </div>
+                 <div
+                    className={`bg-black/60 px-3 py-1 border rounded-sm text-red-400 ${gameState.doom >= gameState.doomLimit - 2 ? 'border-red-600 animate-pulse' : 'border-red-950'}`}
+                    title="Advances every Mythos phase. The investigation is lost when it fills."
+                 >
+                    Doom: <span className="text-white font-bold ml-1">{gameState.doom} / {gameState.doomLimit}</span>
                  </div>
              </div>
             <div className="flex items-center gap-3">
               <span className="font-bold text-[#d4c5b0] tracking-wide uppercase text-sm font-serif">{currentPlayer.name}</span>
+              {currentPlayer.disconnected && <span className="text-[10px] uppercase font-bold text-yellow-500 border border-yellow-700 px-1 rounded-sm">Disconnected</span>}
             </div>
-            <button onClick={() => endTurn()} className="px-6 py-1.5 bg-[#5c1a1a] border border-red-900 rounded-sm text-xs uppercase font-bold hover:bg-red-900 transition-colors shadow-lg">End Turn</button>
+            {engagingMonsters.map(m => (
+                <button key={m.id} onClick={() => handleEvade(m)} className="px-4 py-1.5 bg-black/60 border border-green-900 rounded-sm text-xs uppercase font-bold text-green-300 hover:bg-green-950 transition-colors" title="Spend an action to slip past this monster">
+                    Evade {m.name}
+                </button>
+            ))}
+            {gameState.networkMode !== NetworkMode.Client && (
+                <button onClick={openSaves} className="px-4 py-1.5 bg-black/60 border border-[#5c4033] rounded-sm text-xs uppercase font-bold text-mythos-gold hover:bg-black transition-colors">Case Files</button>
+            )}
+            <button onClick={() => endTurn()} className="px-6 py-1.5 bg-[#5c1a1a] border border-red-900 rounded-sm text-xs uppercase font-bold hover:bg-red-900 transition-colors shadow-lg">
+                {currentPlayer.disconnected && gameState.networkMode === NetworkMode.Host ? `Skip ${currentPlayer.name}'s Turn` : "End Turn"}
+            </button>
           </div>
         )}
       </div>
@@ -1670,10 +1092,30 @@ const App: React.FC = () => {
                                       <h2 className="text-4xl text-black font-serif font-bold uppercase tracking-widest">Case File #892</h2>
                                       <p className="text-[#5c4033] italic mt-1">Classification: Top Secret // Paranormal</p>
                                   </div>
+                                  {gameState.networkMode !== NetworkMode.Client && (
+                                      <button
+                                        onClick={openSaves}
+                                        className="ml-4 px-3 py-1 border-2 border-black/30 rounded text-xs font-bold uppercase tracking-widest text-black hover:bg-black/10"
+                                      >
+                                          Resume a Case
+                                      </button>
+                                  )}
                               </div>
                               <div className="text-right">
                                   <div className="text-sm font-bold text-black uppercase">Session ID</div>
                                   <div className="text-2xl text-red-900 font-mono tracking-widest">{gameState.roomCode}</div>
+                                  {/* The seed stays with the host: it would let a client predict the game */}
+                                  {gameState.networkMode !== NetworkMode.Client && (
+                                      <div className="text-xs text-black/60 font-mono mt-1 flex items-center justify-end gap-1">
+                                          <span>Seed</span>
+                                          <input
+                                              type="number"
+                                              value={gameState.seed}
+                                              onChange={(e) => dispatch({ type: 'SET_SEED', seed: Number(e.target.value) || 0 })}
+                                              className="w-28 bg-transparent border-b border-black/30 text-right focus:outline-none"
+                                          />
+                                      </div>
+                                  )}
                                   {gameState.networkMode === NetworkMode.Client && <div className="text-xs text-blue-800 font-bold mt-1">Connected as Client</div>}
                                   {gameState.networkMode === NetworkMode.Host && (
                                       <div className="text-xs font-bold mt-1 flex flex-col items-end">
@@ -1735,18 +1177,67 @@ const App: React.FC = () => {
                                       </div>
                                   )}
 
+                                  <div>
+                                      <label className="block text-black font-bold uppercase text-xs mb-2 tracking-widest">Scenario</label>
+                                      {gameState.networkMode === NetworkMode.Host ? (
+                                          <select 
+                                            className="w-full bg-[#dacbb6] border border-[#bfa68a] p-2 text-[#2b1d0e] font-serif focus:outline-none focus:border-red-900 shadow-inner"
+                                            value={gameState.scenarioId}
+                                            onChange={(e) => dispatch({ type: 'SET_SCENARIO', scenarioId: e.target.value })}
+                                          >
+                                              {SCENARIOS.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+                                          </select>
+                                      ) : (
+                                          <div className="text-lg font-serif font-bold text-[#2b1d0e]">{scenario.title}</div>
+                                      )}
+                                      <p className="text-xs text-[#5c4033] italic mt-1">{scenario.summary}</p>
+                                  </div>
+
                                   {gameState.networkMode === NetworkMode.Host && (
                                       <div>
                                           <label className="block text-black font-bold uppercase text-xs mb-2 tracking-widest">Difficulty</label>
                                           <select 
                                             className="w-full bg-[#dacbb6] border border-[#bfa68a] p-2 text-[#2b1d0e] font-serif focus:outline-none focus:border-red-900 shadow-inner"
                                             value={gameState.difficulty}
-                                            onChange={(e) => setGameState(prev => ({...prev, difficulty: e.target.value as any}))}
+                                            onChange={(e) => dispatch({ type: 'SET_DIFFICULTY', difficulty: e.target.value as GameState['difficulty'] })}
+                                          >
+                                              {(Object.keys(DIFFICULTY_PROFILES) as Difficulty[]).map(d => (
+                                                  <option key={d} value={d}>{DIFFICULTY_PROFILES[d].label}</option>
+                                              ))}
+                                          </select>
+                                          <p className="text-xs text-[#5c4033] italic mt-1">{DIFFICULTY_PROFILES[gameState.difficulty].summary}</p>
+                                      </div>
+                                  )}
+
+                                  {gameState.networkMode !== NetworkMode.Client && (
+                                      <div>
+                                          <label className="block text-black font-bold uppercase text-xs mb-2 tracking-widest">Narrator</label>
+                                          <select 
+                                            className="w-full bg-[#dacbb6] border border-[#bfa68a] p-2 text-[#2b1d0e] font-serif focus:outline-none focus:border-red-900 shadow-inner"
+                                            value={narrativeSettings.providerId}
+                                            onChange={(e) => updateNarrativeSettings({ providerId: e.target.value as Narrative.NarrativeProviderId })}
                                           >
-                                              <option value="Easy">★ Easy (Max 1 enemy/player)</option>
-                                              <option value="Normal">★★ Normal (Max 2 enemies/player)</option>
-                                              <option value="Hard">★★★ Hard (Max 3 enemies/player)</option>
+                                              {Narrative.NARRATIVE_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
                                           </select>
+                                          <p className="text-xs text-[#5c4033] italic mt-1">{Narrative.NARRATIVE_PROVIDERS.find(p => p.id === narrativeSettings.providerId)?.summary}</p>
+                                          {narrativeSettings.providerId === 'local' && (
+                                              <div className="flex gap-2 mt-2">
+                                                  <input 
+                                                    type="text" 
+                                                    className="flex-[2] min-w-0 bg-[#dacbb6] border border-[#bfa68a] p-1 text-xs text-[#2b1d0e] font-mono focus:outline-none focus:border-red-900 shadow-inner"
+                                                    placeholder="http://localhost:11434/v1"
+                                                    value={narrativeSettings.localEndpoint}
+                                                    onChange={(e) => updateNarrativeSettings({ localEndpoint: e.target.value })}
+                                                  />
+                                                  <input 
+                                                    type="text" 
+                                                    className="flex-1 min-w-0 bg-[#dacbb6] border border-[#bfa68a] p-1 text-xs text-[#2b1d0e] font-mono focus:outline-none focus:border-red-900 shadow-inner"
+                                                    placeholder="Model"
+                                                    value={narrativeSettings.localModel}
+                                                    onChange={(e) => updateNarrativeSettings({ localModel: e.target.value })}
+                                                  />
+                                              </div>
+                                          )}
                                       </div>
                                   )}
 
@@ -1758,7 +1249,8 @@ const App: React.FC = () => {
                                                   <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: p.color }}></span>
                                                   <span className="font-bold truncate">{p.name}</span>
                                                   <span className="text-xs opacity-70 ml-2 whitespace-nowrap">{INVESTIGATOR_TEMPLATES.find(t => t.id === p.investigatorId)?.name}</span>
-                                                  {p.isReady && <span className="ml-auto text-green-700 font-bold text-[10px] uppercase border border-green-600 px-1 rounded">Ready</span>}
+                                                  {p.disconnected && <span className="ml-auto text-yellow-800 font-bold text-[10px] uppercase border border-yellow-700 px-1 rounded">Away</span>}
+                                                  {p.isReady && <span className={`${p.disconnected ? 'ml-1' : 'ml-auto'} text-green-700 font-bold text-[10px] uppercase border border-green-600 px-1 rounded`}>Ready</span>}
                                               </li>
                                           ))}
                                           {gameState.players.length === 0 && <li className="text-black/40 italic">Waiting for investigators...</li>}
@@ -1824,6 +1316,7 @@ const App: React.FC = () => {
                                         <div className="mb-6 bg-[#dacbb6]/50 p-4 rounded border border-[#c9b8a0]">
                                             <div className="text-[10px] uppercase font-bold text-[#5c4033] mb-2 tracking-wide">Special Ability</div>
                                             <div className="text-sm italic text-[#2b1d0e] leading-relaxed font-serif">"{activeTemplate.ability}"</div>
+                                            {activeTemplate.abilityNote && <div className="text-xs text-[#5c4033] mt-2">{activeTemplate.abilityNote}</div>}
                                         </div>
 
                                         <div className="mt-auto">
@@ -1895,7 +1388,7 @@ const App: React.FC = () => {
                          <div className="w-1/3 border-r border-[#bfa68a] pr-4 flex flex-col">
                              <h3 className="font-bold text-[#2b1d0e] uppercase text-xs mb-2 tracking-widest">Available Items</h3>
                              <div className="flex-1 overflow-y-auto space-y-2 pr-2">
-                                 {distributionItems.map((item, idx) => (
+                                 {gameState.distributionItems.map((item, idx) => (
                                      <div 
                                         key={idx}
                                         onClick={() => gameState.networkMode === NetworkMode.Host && setSelectedDistItem(idx)}
@@ -1909,7 +1402,7 @@ const App: React.FC = () => {
                                          <div className="text-xs opacity-80">{ITEMS[item]?.type}</div>
                                      </div>
                                  ))}
-                                 {distributionItems.length === 0 && (
+                                 {gameState.distributionItems.length === 0 && (
                                      <div className="text-center text-gray-500 italic mt-10">No items remaining.</div>
                                  )}
                              </div>
@@ -1961,11 +1454,26 @@ const App: React.FC = () => {
                  {/* HUD / Current Player Card */}
                  {currentPlayer && (
                      <div className="absolute bottom-4 left-4 z-50 w-80 pointer-events-none">
+                         {/* Abilities usable out of turn (a Client only acts for its own investigator) */}
+                         <div className="pointer-events-auto mb-2">
+                            <AbilityPanel
+                                gameState={gameState}
+                                players={gameState.networkMode === NetworkMode.Client ? gameState.players.filter(p => p.id === myPlayerId) : gameState.players}
+                                onUseAbility={handleUseAbility}
+                            />
+                         </div>
                          <div className="pointer-events-auto transform transition-transform hover:scale-105 origin-bottom-left">
                             <InvestigatorCard 
                                 player={currentPlayer} 
                                 isActive={true} 
                                 onUseItem={(item) => handleUseItem(item)}
+                                tradePartners={tradePartners}
+                                onTrade={controlsPlayer(currentPlayer.id) ? (partner) => setTradePartnerId(partner.id) : undefined}
+                                pendingTrade={pendingTrade}
+                                onAcceptTrade={pendingTrade && controlsPlayer(pendingTrade.toId) ? () => handleRespondTrade(pendingTrade.toId, true) : undefined}
+                                onDeclineTrade={pendingTrade && (controlsPlayer(pendingTrade.toId) || controlsPlayer(pendingTrade.fromId))
+                                    ? () => handleRespondTrade(controlsPlayer(pendingTrade.toId) ? pendingTrade.toId : pendingTrade.fromId, false)
+                                    : undefined}
                             />
                          </div>
                      </div>
@@ -1985,56 +1493,77 @@ const App: React.FC = () => {
         {/* OVERLAYS */}
         
         {/* Dice Roller Overlay */}
-        {gameState.phase === GamePhase.DiceRoll && gameState.activeDiceRoll && currentPlayer && (
+        {gameState.phase === GamePhase.DiceRoll && gameState.activeDiceRoll && rollingPlayer && (
              <DiceRoller 
-                attribute={gameState.activeDiceRoll.attribute}
-                amount={gameState.activeDiceRoll.count}
-                target={gameState.activeDiceRoll.target}
-                playerClues={currentPlayer.clues}
-                playerColor={currentPlayer.color}
-                playerItems={currentPlayer.items}
-                usedItemAbilityRound={currentPlayer.usedItemAbilityRound}
-                onComplete={(faces, cluesSpent) => {
-                    const successes = faces.filter(f => f === DiceFace.ElderSign).length;
-                    const success = successes >= gameState.activeDiceRoll!.target;
-                    
-                    if (cluesSpent > 0) {
-                        setGameState(prev => ({
-                            ...prev,
-                            players: prev.players.map(p => p.id === currentPlayer.id ? { ...p, clues: p.clues - cluesSpent } : p)
-                        }));
-                    }
-                    
-                    // Centralized completion handler
-                    handleActionComplete(gameState.activeDiceRoll!.context, success, faces);
-                }}
-                onConsumeItem={handleConsumeItem}
-                onMarkItemUsed={handleMarkItemUsed}
+                roll={gameState.activeDiceRoll}
+                player={rollingPlayer}
+                onRoll={() => act({ type: 'ROLL_DICE' })}
+                onSpendClue={(dieIndex) => act({ type: 'SPEND_CLUE', dieIndex })}
+                onUseItem={(item) => act({ type: 'USE_DICE_ITEM', item })}
+                onConfirm={() => act({ type: 'CONFIRM_ROLL' })}
+                canUseAbility={(use) => !checkAbilityUse(gameState, rollingPlayer.id, use)}
+                onUseAbility={(use) => handleUseAbility(rollingPlayer.id, use)}
                 onCancel={() => {}} 
              />
         )}
 
+        {/* Interaction Overlay */}
+        {gameState.phase === GamePhase.Playing && gameState.activeInteraction && currentPlayer && (
+            <InteractionDialog
+                interaction={gameState.activeInteraction}
+                player={currentPlayer}
+                canChoose={controlsPlayer(gameState.activeInteraction.playerId)}
+                onChoose={handleDialogueChoice}
+            />
+        )}
+
+        {/* Trade Overlay */}
+        {gameState.phase === GamePhase.Playing && currentPlayer && tradePartner && (
+            <TradePanel
+                from={currentPlayer}
+                to={tradePartner}
+                onPropose={handleProposeTrade}
+                onCancel={() => setTradePartnerId(null)}
+            />
+        )}
+
         {/* Puzzle Overlay */}
         {gameState.phase === GamePhase.Puzzle && gameState.activePuzzle && (
             <>
                 {gameState.activePuzzle.type === PuzzleType.Sliding && (
                     <SlidingPuzzle 
-                        onComplete={() => handleActionComplete(gameState.activePuzzle!.context, true)} 
-                        onFail={() => handleActionComplete(gameState.activePuzzle!.context, false)} 
+                        seed={gameState.activePuzzle.seed}
+                        complexity={gameState.activePuzzle.complexity}
+                        onComplete={() => handlePuzzleComplete(true)} 
+                        onFail={() => handlePuzzleComplete(false)} 
                     />
                 )}
                 {gameState.activePuzzle.type === PuzzleType.Rune && (
                     <RunePuzzle 
-                        onComplete={() => handleActionComplete(gameState.activePuzzle!.context, true)} 
-                        onFail={() => handleActionComplete(gameState.activePuzzle!.context, false)} 
+                        seed={gameState.activePuzzle.seed}
+                        complexity={gameState.activePuzzle.complexity}
+                        onComplete={() => handlePuzzleComplete(true)} 
+                        onFail={() => handlePuzzleComplete(false)} 
                     />
                 )}
                 {gameState.activePuzzle.type === PuzzleType.Code && (
                     <CodePuzzle 
-                        onComplete={() => handleActionComplete(gameState.activePuzzle!.context, true)} 
-                        onFail={() => handleActionComplete(gameState.activePuzzle!.context, false)} 
+                        seed={gameState.activePuzzle.seed}
+                        complexity={gameState.activePuzzle.complexity}
+                        onComplete={() => handlePuzzleComplete(true)} 
+                        onFail={() => handlePuzzleComplete(false)} 
                     />
                 )}
+                {currentPlayer && controlsPlayer(currentPlayer.id) && (
+                    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[55]">
+                        <button
+                            onClick={handleStudyPuzzle}
+                            className="px-4 py-2 bg-[#2b1d0e] border border-[#bfa68a] text-[#e8dfc5] font-serif text-sm rounded shadow-lg hover:bg-[#3e2b18]"
+                        >
+                            Study it instead: Lore check ({gameState.activePuzzle.complexity} {gameState.activePuzzle.complexity === 1 ? 'success' : 'successes'} needed)
+                        </button>
+                    </div>
+                )}
             </>
         )}
 
@@ -2045,12 +1574,16 @@ const App: React.FC = () => {
                     <div className="absolute inset-0 bg-[url('https://www.transparenttextures.com/patterns/dark-matter.png')] opacity-20 pointer-events-none"></div>
                     <h2 className="text-4xl text-red-600 font-serif font-bold mb-6 tracking-widest uppercase drop-shadow-md">Mythos Phase</h2>
                     <p className="text-xl text-[#d4c5b0] mb-8 font-serif leading-relaxed">{gameState.mythosEvent.text}</p>
-                    <button 
-                        onClick={endMythosPhase}
-                        className="px-8 py-3 bg-red-900 hover:bg-red-800 text-white font-serif uppercase tracking-widest border border-red-950 shadow-lg"
-                    >
-                        Continue
-                    </button>
+                    {gameState.networkMode !== NetworkMode.Client || currentPlayer?.id === myPlayerId ? (
+                        <button 
+                            onClick={endMythosPhase}
+                            className="px-8 py-3 bg-red-900 hover:bg-red-800 text-white font-serif uppercase tracking-widest border border-red-950 shadow-lg"
+                        >
+                            Continue
+                        </button>
+                    ) : (
+                        <div className="text-sm text-[#d4c5b0]/60 italic font-serif">Waiting for {currentPlayer?.name || 'the host'} to continue...</div>
+                    )}
                 </div>
             </div>
         )}
@@ -2063,10 +1596,23 @@ const App: React.FC = () => {
                         {gameState.phase === GamePhase.Victory ? "SURVIVED" : "DEFEATED"}
                     </h1>
                     <p className={`text-2xl font-serif mb-12 ${gameState.phase === GamePhase.Victory ? 'text-[#5c4033]' : 'text-gray-400'}`}>
-                        {gameState.phase === GamePhase.Victory 
-                            ? "You have escaped the manor with your lives and your sanity... mostly." 
-                            : "The manor claims another soul. Your investigation ends here."}
+                        {gameState.phase === GamePhase.Victory ? scenario.victoryText : scenario.defeatText}
                     </p>
+                    {gameState.scoreboard && gameState.scoreboard.length > 0 && (
+                        <ul className="mb-10 text-left font-serif divide-y divide-black/20 border-y border-black/20">
+                            {gameState.scoreboard.map(entry => (
+                                <li key={entry.playerId} className="py-2 flex items-baseline gap-4">
+                                    <span className={`w-16 shrink-0 text-xs font-bold uppercase tracking-widest ${entry.won ? 'text-green-700' : 'text-red-700'}`}>
+                                        {entry.won ? "Won" : "Lost"}
+                                    </span>
+                                    <div className={gameState.phase === GamePhase.Victory ? 'text-[#2b1d0e]' : 'text-gray-300'}>
+                                        <span className="font-bold">{entry.name}</span> <span className="text-sm opacity-80">{entry.reason}</span>
+                                        {entry.objective && <p className="text-sm italic text-purple-700">"{entry.objective}"</p>}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
                     <button 
                         onClick={resetGame}
                         className={`px-10 py-4 text-xl font-bold uppercase tracking-widest border-2 transition-all
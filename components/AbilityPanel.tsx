@@ -0,0 +1,76 @@
+import React from 'react';
+import { AbilityUse, GameState, Player } from '../types';
+import { checkAbilityUse, getAbility, getTopCard } from '../engine';
+
+interface Props {
+  gameState: GameState;
+  players: Player[]; // Investigators this screen may act for
+  onUseAbility: (playerId: string, use: AbilityUse) => void;
+}
+
+// Prompts for the abilities that can be used outside a dice roll
+const AbilityPanel: React.FC<Props> = ({ gameState, players, onUseAbility }) => {
+  const current = gameState.players[gameState.currentPlayerIndex];
+
+  const prompts = players.flatMap(player => {
+    const can = (use: AbilityUse) => !checkAbilityUse(gameState, player.id, use);
+    const buttons: { key: string; label: string; use: AbilityUse }[] = [];
+    let note: string | null = null;
+
+    switch (getAbility(player)) {
+      case 'GRANT_ACTION':
+        if (current && can({ ability: 'GRANT_ACTION', targetId: current.id })) {
+          buttons.push({ key: 'grant', label: `Rally ${current.name} (+1 Action)`, use: { ability: 'GRANT_ACTION', targetId: current.id } });
+        }
+        break;
+      case 'GIVE_ACTION':
+        gameState.players.forEach(target => {
+          const use: AbilityUse = { ability: 'GIVE_ACTION', targetId: target.id };
+          if (can(use)) buttons.push({ key: `give_${target.id}`, label: `Give an Action to ${target.name}`, use });
+        });
+        break;
+      case 'BURY_ITEM':
+        // There is no spell deck yet, so the spirits read the item deck
+        if (gameState.itemDeck.length > 0) note = `The spirits show the next item: ${getTopCard(gameState.itemDeck)}`;
+        if (can({ ability: 'BURY_ITEM' })) {
+          buttons.push({ key: 'bury', label: 'Bury it', use: { ability: 'BURY_ITEM' } });
+        }
+        break;
+      case 'NEGATE_HORROR':
+        player.items.forEach((item, i) => {
+          const use: AbilityUse = { ability: 'NEGATE_HORROR', item };
+          if (can(use)) buttons.push({ key: `negate_${i}`, label: `Discard ${item} (-1 Horror)`, use });
+        });
+        break;
+    }
+
+    if (buttons.length === 0 && !note) return [];
+    return [{ player, buttons, note }];
+  });
+
+  if (prompts.length === 0) return null;
+
+  return (
+    <div className="bg-black/70 border border-[#5c4033] rounded-sm p-2 space-y-2 font-serif text-xs text-[#d4c5b0] shadow-lg">
+      {prompts.map(({ player, buttons, note }) => (
+        <div key={player.id}>
+          <div className="uppercase tracking-widest text-[10px] font-bold mb-1" style={{ color: player.color }}>{player.name}</div>
+          {note && <div className="italic text-gray-400 mb-1">{note}</div>}
+          <div className="flex flex-wrap gap-1">
+            {buttons.map(b => (
+              <button
+                key={b.key}
+                onClick={() => onUseAbility(player.id, b.use)}
+                className="px-2 py-1 border border-mythos-gold text-mythos-gold hover:bg-mythos-gold hover:text-black transition-colors"
+              >
+                {b.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AbilityPanel;
@@ -1,7 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
+import { createRng } from '../engine';
 
 interface Props {
+  seed: number;
+  complexity?: 1 | 2 | 3; // From the difficulty
   onComplete: () => void;
   onFail: () => void;
 }
@@ -17,9 +20,10 @@ const COLORS = [
 ];
 
 const CODE_LENGTH = 4;
-const MAX_ATTEMPTS = 8;
+const ATTEMPTS = { 1: 10, 2: 8, 3: 6 };
 
-const CodePuzzle: React.FC<Props> = ({ onComplete, onFail }) => {
+const CodePuzzle: React.FC<Props> = ({ seed, complexity = 2, onComplete, onFail }) => {
+  const MAX_ATTEMPTS = ATTEMPTS[complexity];
   const [secretCode, setSecretCode] = useState<string[]>([]);
   const [history, setHistory] = useState<{ guess: string[], feedback: { exact: number, partial: number } }[]>([]);
   const [currentGuess, setCurrentGuess] = useState<(string | null)[]>(Array(CODE_LENGTH).fill(null));
@@ -27,13 +31,14 @@ const CodePuzzle: React.FC<Props> = ({ onComplete, onFail }) => {
 
   useEffect(() => {
     // Generate random secret code
+    const rng = createRng(seed);
     const code = [];
     for (let i = 0; i < CODE_LENGTH; i++) {
-      code.push(COLORS[Math.floor(Math.random() * COLORS.length)].id);
+      code.push(rng.pick(COLORS).id);
     }
     setSecretCode(code);
     // console.log("Secret Code (Cheats):", code); 
-  }, []);
+  }, [seed]);
 
   const handleColorSelect = (colorId: string) => {
     if (status !== 'playing') return;
@@ -1,104 +1,78 @@
-
 import React, { useState } from 'react';
-import { Attribute, DiceFace } from '../types';
-import { DICE_FACES } from '../constants';
+import { AbilityUse, DiceFace, GameState, Player } from '../types';
+import { canUseDiceItem, describeDiceItem, getDicePool, getItemEffect, getPassiveDice, getRollSuccesses } from '../engine';
 
 interface DiceRollerProps {
-  attribute: Attribute;
-  amount: number;
-  playerClues: number;
-  playerColor: string;
-  playerItems: string[];
-  usedItemAbilityRound?: boolean;
-  target: number;
-  onComplete: (finalFaces: DiceFace[], cluesSpent: number) => void;
-  onConsumeItem: (item: string) => void;
-  onMarkItemUsed: () => void;
+  roll: NonNullable<GameState['activeDiceRoll']>;
+  player: Player; // The investigator making the roll
+  onRoll: () => void;
+  onSpendClue: (dieIndex: number) => void;
+  onUseItem: (item: string) => void;
+  onConfirm: () => void;
+  canUseAbility: (use: AbilityUse) => boolean;
+  onUseAbility: (use: AbilityUse) => void;
   onCancel: () => void;
 }
 
+// Renders the roll held in the game state. The host rolls the faces and
+// applies every clue or item request, this component only asks for them.
 const DiceRoller: React.FC<DiceRollerProps> = ({ 
-  attribute, amount, playerClues, playerColor, playerItems, usedItemAbilityRound,
-  target, onComplete, onConsumeItem, onMarkItemUsed, onCancel 
+  roll, player, onRoll, onSpendClue, onUseItem, onConfirm, canUseAbility, onUseAbility, onCancel 
 }) => {
-  const [results, setResults] = useState<DiceFace[] | null>(null);
-  const [spentClues, setSpentClues] = useState(0);
   const [rolling, setRolling] = useState(false);
-  const [bonusDice, setBonusDice] = useState(0);
+  const [abilityMode, setAbilityMode] = useState<'REROLL' | 'CONVERT_DIE' | null>(null);
+  const [selectedDice, setSelectedDice] = useState<number[]>([]);
+
+  const { attribute, count: amount, target, bonusDice } = roll;
+  const results = roll.faces || null;
+  const playerColor = player.color;
 
   // Passive Bonuses
-  let passiveBonus = 0;
-  if (attribute === Attribute.Observation && playerItems.includes("Magnifying Glass")) passiveBonus += 1;
-  if (attribute === Attribute.Lore && playerItems.includes("Ancient Tome")) passiveBonus += 1;
-  if (attribute === Attribute.Will && playerItems.includes("Elder Sign")) passiveBonus += 1;
+  const passiveBonus = getPassiveDice(attribute, player.items);
 
   const rollDice = () => {
     setRolling(true);
     // Animate for a bit
     setTimeout(() => {
-      const totalDice = amount + bonusDice + passiveBonus;
-      const rolls = Array(totalDice).fill(0).map(() => {
-        const idx = Math.floor(Math.random() * DICE_FACES.length);
-        return DICE_FACES[idx] as DiceFace;
-      });
-      setResults(rolls);
+      onRoll();
       setRolling(false);
     }, 800);
   };
 
   const convertClue = (index: number) => {
-    if (!results || spentClues >= playerClues) return;
+    if (!results || player.clues <= 0) return;
     if (results[index] !== DiceFace.Clue) return;
-
-    const newResults = [...results];
-    newResults[index] = DiceFace.ElderSign; // Convert to pass
-    setResults(newResults);
-    setSpentClues(prev => prev + 1);
+    onSpendClue(index); // Convert to pass
   };
 
-  const passes = results ? results.filter(r => r === DiceFace.ElderSign).length : 0;
-  const clues = results ? results.filter(r => r === DiceFace.Clue).length : 0;
-  const isPass = passes >= target;
-
-  // Item Logic handlers
-  const hasExtraDiceItem = playerItems.includes("Lucky Cigarette Case");
-  const hasSingleConvertItem = playerItems.includes("Detective's Journal");
-  const hasAllConvertItem = playerItems.includes("Eldritch Glyph");
-  const hasLantern = playerItems.includes("Lantern") && attribute === Attribute.Observation;
-  const hasLockpick = playerItems.includes("Lockpick") && attribute === Attribute.Agility;
-
-  const useExtraDiceItem = () => {
-      setBonusDice(prev => prev + 2);
-      onConsumeItem("Lucky Cigarette Case");
+  // Abilities that act on the rolled dice
+  const canReroll = !!results && canUseAbility({ ability: 'REROLL', dieIndexes: results.map((_, i) => i) });
+  const canConvertDie = !!results && results.some((_, i) => canUseAbility({ ability: 'CONVERT_DIE', dieIndex: i }));
+
+  const clickDie = (index: number) => {
+    if (abilityMode === 'REROLL') {
+      setSelectedDice(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+    } else if (abilityMode === 'CONVERT_DIE') {
+      onUseAbility({ ability: 'CONVERT_DIE', dieIndex: index });
+      setAbilityMode(null);
+    } else {
+      convertClue(index);
+    }
   };
 
-  const useLantern = () => {
-      setBonusDice(prev => prev + 3);
-      onConsumeItem("Lantern");
+  const confirmReroll = () => {
+    if (selectedDice.length > 0) onUseAbility({ ability: 'REROLL', dieIndexes: selectedDice });
+    setSelectedDice([]);
+    setAbilityMode(null);
   };
 
-  const useLockpick = () => {
-      setBonusDice(prev => prev + 3);
-      onConsumeItem("Lockpick");
-  };
-
-  const useSingleConvertItem = () => {
-      if (!results) return;
-      const clueIdx = results.findIndex(r => r === DiceFace.Clue);
-      if (clueIdx !== -1) {
-          const newResults = [...results];
-          newResults[clueIdx] = DiceFace.ElderSign;
-          setResults(newResults);
-          onMarkItemUsed(); // Mark "Once per round"
-      }
-  };
+  const passes = getRollSuccesses(roll);
+  const clues = results ? results.filter(r => r === DiceFace.Clue).length : 0;
+  const isPass = passes >= target;
 
-  const useAllConvertItem = () => {
-      if (!results) return;
-      const newResults = results.map(r => r === DiceFace.Clue ? DiceFace.ElderSign : r);
-      setResults(newResults);
-      onConsumeItem("Eldritch Glyph");
-  };
+  // Item Logic (each item listed once, even when carried twice)
+  const usableItems = player.items.filter((item, i) => player.items.indexOf(item) === i && canUseDiceItem(roll, player, item));
+  const itemLabel = (item: string) => `Use ${item} (${describeDiceItem(getItemEffect(item)!)})`;
   
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
@@ -116,25 +90,15 @@ const DiceRoller: React.FC<DiceRollerProps> = ({
                 Rolling {amount} <span className="text-blue-400 font-bold" title="Attributes"> (Base) </span>
                 {passiveBonus > 0 && <span className="text-green-500 font-bold" title="Passive Items"> + {passiveBonus} </span>}
                 {bonusDice > 0 && <span className="text-yellow-500 font-bold" title="Bonuses"> + {bonusDice} </span>}
-                 = <span className="text-white font-bold text-xl ml-2">{amount + passiveBonus + bonusDice} Dice</span>
+                 = <span className="text-white font-bold text-xl ml-2">{getDicePool(roll, player)} Dice</span>
              </p>
              
              <div className="flex flex-col gap-2 mb-6 items-center">
-                {hasExtraDiceItem && (
-                    <button onClick={useExtraDiceItem} className="px-4 py-1 text-sm bg-purple-900 border border-purple-500 text-purple-200 rounded hover:bg-purple-800">
-                        Use Lucky Cigarette Case (+2 Dice)
+                {usableItems.map(item => (
+                    <button key={item} onClick={() => onUseItem(item)} className="px-4 py-1 text-sm bg-purple-900 border border-purple-500 text-purple-200 rounded hover:bg-purple-800">
+                        {itemLabel(item)}
                     </button>
-                )}
-                {hasLantern && (
-                    <button onClick={useLantern} className="px-4 py-1 text-sm bg-yellow-900 border border-yellow-500 text-yellow-200 rounded hover:bg-yellow-800">
-                        Use Lantern (+3 Dice)
-                    </button>
-                )}
-                {hasLockpick && (
-                    <button onClick={useLockpick} className="px-4 py-1 text-sm bg-gray-700 border border-gray-500 text-gray-200 rounded hover:bg-gray-600">
-                        Use Lockpick (+3 Dice)
-                    </button>
-                )}
+                ))}
              </div>
 
              <button 
@@ -152,8 +116,9 @@ const DiceRoller: React.FC<DiceRollerProps> = ({
               {results.map((face, idx) => (
                 <div 
                   key={idx}
-                  onClick={() => convertClue(idx)}
+                  onClick={() => clickDie(idx)}
                   className={`w-16 h-16 flex items-center justify-center rounded-lg border-2 text-2xl font-bold cursor-pointer transition-all hover:scale-110 shadow-lg select-none
+                    ${selectedDice.includes(idx) ? 'ring-4 ring-yellow-400' : ''}
                     ${face === DiceFace.ElderSign ? 'bg-green-900 border-green-500 text-green-200' : ''}
                     ${face === DiceFace.Clue ? 'bg-blue-900 border-blue-400 text-blue-200 animate-pulse' : ''}
                     ${face === DiceFace.Blank ? 'bg-gray-800 border-gray-600 text-gray-500' : ''}
@@ -171,38 +136,62 @@ const DiceRoller: React.FC<DiceRollerProps> = ({
                  Result: <span className={isPass ? "text-green-400 font-bold" : "text-red-400 font-bold"}>
                     {isPass ? "PASS" : "FAIL"}
                  </span> ({passes}/{target})
+                 {roll.bonusSuccesses ? <span className="text-sm text-green-500 ml-2" title="Ability">(+{roll.bonusSuccesses} from ability)</span> : null}
               </p>
               
               {/* Item Interactions Phase 2 */}
               <div className="flex gap-2 justify-center flex-wrap">
-                  {hasSingleConvertItem && !usedItemAbilityRound && clues > 0 && (
+                  {usableItems.map(item => (
                       <button 
-                        onClick={useSingleConvertItem}
+                        key={item}
+                        onClick={() => onUseItem(item)}
                         className="text-xs bg-indigo-900 border border-indigo-400 text-indigo-100 px-3 py-1 rounded hover:bg-indigo-800"
                       >
-                          Use Detective's Journal (Convert 1)
+                          {itemLabel(item)}
                       </button>
-                  )}
+                  ))}
                   
-                  {hasAllConvertItem && clues > 0 && (
+                  {canReroll && !abilityMode && (
+                      <button 
+                        onClick={() => setAbilityMode('REROLL')}
+                        className="text-xs bg-amber-900 border border-amber-400 text-amber-100 px-3 py-1 rounded hover:bg-amber-800"
+                      >
+                          Ability: Re-roll Dice
+                      </button>
+                  )}
+                  {abilityMode === 'REROLL' && (
                       <button 
-                        onClick={useAllConvertItem}
-                        className="text-xs bg-purple-900 border border-purple-400 text-purple-100 px-3 py-1 rounded hover:bg-purple-800"
+                        onClick={confirmReroll}
+                        className="text-xs bg-amber-700 border border-amber-300 text-white px-3 py-1 rounded hover:bg-amber-600"
                       >
-                          Use Eldritch Glyph (Convert ALL)
+                          {selectedDice.length > 0 ? `Re-roll ${selectedDice.length} Selected` : 'Cancel Re-roll'}
+                      </button>
+                  )}
+                  {canConvertDie && !abilityMode && (
+                      <button 
+                        onClick={() => setAbilityMode('CONVERT_DIE')}
+                        className="text-xs bg-emerald-900 border border-emerald-400 text-emerald-100 px-3 py-1 rounded hover:bg-emerald-800"
+                      >
+                          Ability: Buy a Success (1 Resource)
                       </button>
                   )}
               </div>
 
-              {clues > 0 && playerClues - spentClues > 0 && (
+              {abilityMode === 'REROLL' && (
+                <p className="text-sm text-amber-300">Select the dice to re-roll.</p>
+              )}
+              {abilityMode === 'CONVERT_DIE' && (
+                <p className="text-sm text-emerald-300">Click the die to turn into a success.</p>
+              )}
+              {!abilityMode && clues > 0 && player.clues > 0 && (
                 <p className="text-sm text-blue-300">Click on '?' dice to spend a clue and convert to success.</p>
               )}
-               <p className="text-sm text-gray-400">Clues Remaining: {playerClues - spentClues}</p>
+               <p className="text-sm text-gray-400">Clues Remaining: {player.clues}</p>
             </div>
 
             <div className="flex justify-center pt-4">
               <button
-                onClick={() => onComplete(results, spentClues)}
+                onClick={onConfirm}
                 className="px-6 py-2 bg-mythos-gold text-white font-serif rounded hover:bg-yellow-700 uppercase tracking-widest font-bold"
               >
                 Confirm Result
@@ -215,4 +204,4 @@ const DiceRoller: React.FC<DiceRollerProps> = ({
   );
 };
 
-export default DiceRoller;
\ No newline at end of file
+export default DiceRoller;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { GameState, Player } from '../types';
+
+interface Props {
+  interaction: NonNullable<GameState['activeInteraction']>;
+  player: Player; // The investigator doing the talking
+  canChoose: boolean; // Only the screen acting for that investigator picks
+  onChoose: (choiceIndex: number | null) => void;
+}
+
+// Shows an Interact token's scene and the choices the narrative service
+// offered. Picking one spends an action and starts its test.
+const InteractionDialog: React.FC<Props> = ({ interaction, player, canChoose, onChoose }) => (
+  <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+    <div className="bg-[#2a1b15] border-2 border-mythos-gold rounded-sm p-8 max-w-xl w-full shadow-2xl font-serif">
+      <p className="text-lg text-[#d4c5b0] italic leading-relaxed mb-6">{interaction.narrative}</p>
+
+      <div className="space-y-2">
+        {interaction.choices.map((choice, i) => (
+          <button
+            key={i}
+            disabled={!canChoose || player.actionsRemaining <= 0}
+            onClick={() => onChoose(i)}
+            className="w-full text-left px-4 py-2 border border-[#5c4033] text-[#e8dfc5] hover:bg-[#3e2b18] disabled:opacity-50 disabled:hover:bg-transparent transition-colors"
+          >
+            {choice.text}
+            <span className="ml-2 text-xs uppercase tracking-wider text-mythos-gold">({choice.attribute}, {choice.difficulty})</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center mt-6">
+        <span className="text-xs text-gray-500">
+          {canChoose ? "Each choice costs an action." : `Waiting for ${player.name}...`}
+        </span>
+        {canChoose && (
+          <button onClick={() => onChoose(null)} className="px-4 py-1 text-xs uppercase tracking-widest border border-gray-600 text-gray-400 hover:bg-gray-800">
+            Walk Away
+          </button>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+export default InteractionDialog;
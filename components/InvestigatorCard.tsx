@@ -1,17 +1,28 @@
 
 import React, { useState } from 'react';
-import { Player, Attribute } from '../types';
+import { Player, Attribute, TradeOffer } from '../types';
 import { INVESTIGATOR_TEMPLATES, ITEMS } from '../constants';
+import { describeObjective, getHandSize, isUsableFromInventory } from '../engine';
 
 interface Props {
   player: Player;
   isActive: boolean;
   onSelect?: () => void;
   onUseItem?: (item: string) => void;
+  tradePartners?: Player[]; // Investigators in the same space
+  onTrade?: (partner: Player) => void;
+  pendingTrade?: TradeOffer; // Offered by this investigator
+  onAcceptTrade?: () => void; // Only given to the screen answering for the partner
+  onDeclineTrade?: () => void;
   compact?: boolean;
 }
 
-const InvestigatorCard: React.FC<Props> = ({ player, isActive, onSelect, onUseItem, compact = false }) => {
+const describeTradeSide = (items: string[], clues: number) =>
+  [...items, ...(clues > 0 ? [`${clues} clue${clues === 1 ? '' : 's'}`] : [])].join(', ') || 'nothing';
+
+const InvestigatorCard: React.FC<Props> = ({ 
+  player, isActive, onSelect, onUseItem, tradePartners = [], onTrade, pendingTrade, onAcceptTrade, onDeclineTrade, compact = false 
+}) => {
   const [revealSecret, setRevealSecret] = useState(false);
   const template = INVESTIGATOR_TEMPLATES.find(t => t.id === player.investigatorId);
   const investigatorName = template ? template.name : "Investigator";
@@ -48,6 +59,7 @@ const InvestigatorCard: React.FC<Props> = ({ player, isActive, onSelect, onUseIt
              )}
              <div>
                 <h3 className="font-serif text-lg font-bold text-[#2b1d0e] tracking-wide leading-none">{player.name}</h3>
+                {player.disconnected && <p className="text-[10px] text-yellow-800 uppercase font-bold tracking-widest mt-1">Disconnected</p>}
                 {!compact && <p className="text-xs text-[#8b6b4b] uppercase tracking-widest mt-1">{investigatorName}</p>}
              </div>
          </div>
@@ -87,14 +99,26 @@ const InvestigatorCard: React.FC<Props> = ({ player, isActive, onSelect, onUseIt
                           {revealSecret ? "Secret Objective" : "Tap to Reveal Secret"}
                       </p>
                       {revealSecret && (
-                          <p className="text-sm font-serif italic text-purple-200">
-                              "{player.secretObjective}"
-                          </p>
+                          <>
+                              <p className="text-sm font-serif italic text-purple-200">
+                                  "{player.secretObjective.text}"
+                              </p>
+                              <p className="text-[10px] text-purple-300 mt-1">{describeObjective(player.secretObjective)}</p>
+                          </>
                       )}
                   </div>
               </div>
           )}
 
+          {template && (
+              <div className="mb-3 relative z-10 text-[11px] font-serif italic text-[#3d2b1f] bg-[#f3e9d2] border border-[#d1c2a5] rounded-sm p-2">
+                  <span className="not-italic uppercase text-[9px] font-bold tracking-wider text-[#8b6b4b] mr-1">Ability</span>
+                  {template.ability}
+                  {template.abilityNote && <span className="block not-italic text-[10px] text-[#5c4033] mt-1">{template.abilityNote}</span>}
+                  {player.usedAbilityRound && <span className="not-italic text-[9px] font-bold uppercase text-red-900 ml-1">(Used this round)</span>}
+              </div>
+          )}
+
           <div className="grid grid-cols-3 gap-1 mb-4 relative z-10">
             {Object.entries(player.attributes).map(([attr, value]) => (
               <div key={attr} className="text-center bg-[#dacbb6] rounded-sm p-1 border border-[#c9b8a0]">
@@ -105,13 +129,13 @@ const InvestigatorCard: React.FC<Props> = ({ player, isActive, onSelect, onUseIt
           </div>
 
           <div className="border-t border-[#bfa68a] pt-3 mt-2 relative z-10">
-            <p className="text-[10px] uppercase text-[#5c4033] mb-2 tracking-wider font-bold">Inventory</p>
+            <p className="text-[10px] uppercase text-[#5c4033] mb-2 tracking-wider font-bold">Inventory ({player.items.length}/{getHandSize(player)})</p>
             <div className="flex flex-wrap gap-2">
               {player.items.map((itemKey, i) => {
                 const itemDef = ITEMS[itemKey];
                 const desc = itemDef ? itemDef.description : "Unknown item";
                 const isWeapon = itemDef?.type === 'Weapon';
-                const isConsumable = itemKey === "First Aid Kit";
+                const isConsumable = isUsableFromInventory(itemKey);
 
                 return (
                   <span 
@@ -137,6 +161,37 @@ const InvestigatorCard: React.FC<Props> = ({ player, isActive, onSelect, onUseIt
               })}
               {player.items.length === 0 && <span className="text-xs text-[#7d6e5f] italic">Empty handed</span>}
             </div>
+
+            {onTrade && tradePartners.length > 0 && !pendingTrade && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {tradePartners.map(partner => (
+                  <button
+                    key={partner.id}
+                    onClick={(e) => { e.stopPropagation(); onTrade(partner); }}
+                    className="text-[10px] uppercase font-bold tracking-wider px-2 py-1 border border-[#8b6b4b] text-[#5c4033] rounded-sm hover:bg-[#d4c5b0]"
+                  >
+                    Trade with {partner.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {pendingTrade && (
+              <div className="mt-2 p-2 bg-[#f3e9d2] border border-dashed border-[#8b6b4b] rounded-sm text-[11px] font-serif text-[#3d2b1f]">
+                <p>
+                  Offers {tradePartners.find(p => p.id === pendingTrade.toId)?.name || 'another investigator'} <b>{describeTradeSide(pendingTrade.giveItems, pendingTrade.giveClues)}</b> for <b>{describeTradeSide(pendingTrade.takeItems, pendingTrade.takeClues)}</b>.
+                </p>
+                <div className="flex gap-1 mt-1">
+                  {onAcceptTrade && (
+                    <button onClick={(e) => { e.stopPropagation(); onAcceptTrade(); }} className="text-[10px] uppercase font-bold px-2 py-1 bg-green-800 text-white rounded-sm hover:bg-green-700">Accept</button>
+                  )}
+                  {onDeclineTrade && (
+                    <button onClick={(e) => { e.stopPropagation(); onDeclineTrade(); }} className="text-[10px] uppercase font-bold px-2 py-1 bg-red-900 text-white rounded-sm hover:bg-red-800">{onAcceptTrade ? 'Decline' : 'Withdraw'}</button>
+                  )}
+                  {!onAcceptTrade && <span className="italic text-[#7d6e5f] self-center">Awaiting an answer...</span>}
+                </div>
+              </div>
+            )}
           </div>
            
            <div className="mt-3 flex items-center justify-between relative z-10 bg-[#dacbb6] p-2 rounded-sm border border-[#c9b8a0]">
@@ -148,6 +203,12 @@ const InvestigatorCard: React.FC<Props> = ({ player, isActive, onSelect, onUseIt
                 {player.clues === 0 && <span className="text-[10px] text-[#7d6e5f]">None</span>}
               </div>
            </div>
+           {player.resources !== undefined && (
+             <div className="mt-2 flex items-center justify-between relative z-10 bg-[#dacbb6] p-2 rounded-sm border border-[#c9b8a0]">
+                <span className="text-xs text-[#5c4033] uppercase font-bold">Resources</span>
+                <span className="text-sm font-serif font-bold text-[#2b1d0e]">{player.resources}</span>
+             </div>
+           )}
         </>
       )}
     </div>
@@ -87,6 +87,7 @@ const MapBoard: React.FC<Props> = ({ tiles, tokens, players, monsters = [], onTo
     if (doorToken) {
         // Render Door + Partial Walls (Jambs) to create "gap" effect
         const isOpen = doorToken.resolved;
+        const isLocked = !isOpen && !!doorToken.locked;
         const doorLength = '40%'; 
         const wallLength = '30%';
 
@@ -154,13 +155,14 @@ const MapBoard: React.FC<Props> = ({ tiles, tokens, players, monsters = [], onTo
                             top: '50%',
                             transform: 'translateY(-50%)'
                         }),
-                        backgroundColor: isOpen ? 'transparent' : '#5d4037',
-                        border: isOpen ? '2px dashed #444' : '2px solid #2a1b15',
+                        backgroundColor: isOpen ? 'transparent' : isLocked ? '#37474f' : '#5d4037',
+                        border: isOpen ? '2px dashed #444' : isLocked ? '2px solid #90a4ae' : '2px solid #2a1b15',
                         boxShadow: isOpen ? 'none' : '0 2px 5px rgba(0,0,0,0.8)'
                     }}
-                    title={isOpen ? "Open Door" : "Closed Door"}
+                    title={isOpen ? "Open Door" : isLocked ? "Locked Door (force it open)" : "Closed Door"}
                 >
-                    {!isOpen && <div className="w-1.5 h-1.5 rounded-full bg-yellow-600 group-hover:bg-yellow-400 shadow-sm"></div>}
+                    {isLocked && <span className="text-[8px] leading-none">🔒</span>}
+                    {!isOpen && !isLocked && <div className="w-1.5 h-1.5 rounded-full bg-yellow-600 group-hover:bg-yellow-400 shadow-sm"></div>}
                 </div>
             </React.Fragment>
         );
@@ -214,7 +216,7 @@ const MapBoard: React.FC<Props> = ({ tiles, tokens, players, monsters = [], onTo
           
           const tilePlayers = players.filter(p => p.x === tile.x && p.y === tile.y);
           // Only show interactable tokens (Explore tokens are handled in renderEdge, except specific cases, but mostly Search/Interact/Escape/Sight)
-          const tileTokens = tokens.filter(t => t.x === tile.x && t.y === tile.y && !t.resolved && t.type !== TokenType.Explore);
+          const tileTokens = tokens.filter(t => t.x === tile.x && t.y === tile.y && !t.resolved && !t.hidden && t.type !== TokenType.Explore);
           const tileMonsters = monsters.filter(m => m.x === tile.x && m.y === tile.y);
 
           // Calculate background stitching based on room properties
@@ -248,6 +250,16 @@ const MapBoard: React.FC<Props> = ({ tiles, tokens, players, monsters = [], onTo
                {renderEdge(tile, 'E')}
                {renderEdge(tile, 'W')}
               
+               {/* Room Condition */}
+               {tile.condition?.type === 'FIRE' && (
+                   <div className="absolute inset-0 bg-orange-600/30 pointer-events-none z-10 animate-pulse" title="Fire: burns whoever is here when the Mythos phase begins">
+                       <span className="absolute bottom-1 right-1 text-sm">🔥</span>
+                   </div>
+               )}
+               {tile.condition?.type === 'DARKNESS' && (
+                   <div className="absolute inset-0 bg-black/60 pointer-events-none z-10" title="Darkness: searching here is harder" />
+               )}
+
                {/* Room Label */}
                <div className="absolute top-1 left-1 opacity-50 text-[8px] uppercase tracking-wider text-white pointer-events-none z-10 font-sans bg-black/50 px-1 rounded">
                    {tile.name}
@@ -293,6 +305,10 @@ const MapBoard: React.FC<Props> = ({ tiles, tokens, players, monsters = [], onTo
                            >
                                {token.type === TokenType.Escape ? (
                                    <span className="text-3xl drop-shadow-md" title="Escape!">🏃</span>
+                               ) : token.type === TokenType.Interact ? (
+                                   <div className="w-8 h-8 rounded-full bg-green-600 border-2 border-white text-white font-bold flex items-center justify-center text-sm shadow-[0_0_10px_rgba(22,163,74,0.6)]" title={token.description}>!</div>
+                               ) : token.type === TokenType.Sight ? (
+                                   <div className="w-8 h-8 rounded-full bg-sky-700 border-2 border-white flex items-center justify-center text-sm shadow-[0_0_10px_rgba(3,105,161,0.6)]" title={token.description}>👁</div>
                                ) : (
                                    <div className="w-8 h-8 rounded-full bg-yellow-500 border-2 border-white text-black font-bold flex items-center justify-center text-sm shadow-[0_0_10px_rgba(234,179,8,0.6)]">?</div>
                                )}
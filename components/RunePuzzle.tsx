@@ -1,14 +1,18 @@
 
 import React, { useState, useEffect } from 'react';
+import { createRng } from '../engine';
 
 interface Props {
+  seed: number;
+  complexity?: 1 | 2 | 3; // From the difficulty
   onComplete: () => void;
   onFail: () => void;
 }
 
-const RUNES = ['ᚠ', 'ᚢ', 'ᚦ', 'ᚨ', 'ᚱ', 'ᚲ'];
+const RUNES = ['ᚠ', 'ᚢ', 'ᚦ', 'ᚨ', 'ᚱ', 'ᚲ', 'ᚷ', 'ᚹ'];
+const PAIRS = { 1: 4, 2: 6, 3: 8 };
 
-const RunePuzzle: React.FC<Props> = ({ onComplete, onFail }) => {
+const RunePuzzle: React.FC<Props> = ({ seed, complexity = 2, onComplete, onFail }) => {
   const [cards, setCards] = useState<{id: number, rune: string, flipped: boolean, matched: boolean}[]>([]);
   const [flippedIndices, setFlippedIndices] = useState<number[]>([]);
   const [matches, setMatches] = useState(0);
@@ -16,8 +20,8 @@ const RunePuzzle: React.FC<Props> = ({ onComplete, onFail }) => {
 
   useEffect(() => {
     // Create pairs and shuffle
-    const deck = [...RUNES, ...RUNES]
-      .sort(() => Math.random() - 0.5)
+    const runes = RUNES.slice(0, PAIRS[complexity]);
+    const deck = createRng(seed).shuffle([...runes, ...runes])
       .map((rune, i) => ({
         id: i,
         rune,
@@ -25,7 +29,7 @@ const RunePuzzle: React.FC<Props> = ({ onComplete, onFail }) => {
         matched: false
       }));
     setCards(deck);
-  }, []);
+  }, [seed, complexity]);
 
   const handleCardClick = (index: number) => {
     if (locked || cards[index].flipped || cards[index].matched) return;
@@ -56,7 +60,7 @@ const RunePuzzle: React.FC<Props> = ({ onComplete, onFail }) => {
         setLocked(false);
         setMatches(m => {
             const next = m + 1;
-            if (next === RUNES.length) {
+            if (next === PAIRS[complexity]) {
                 setTimeout(onComplete, 800);
             }
             return next;
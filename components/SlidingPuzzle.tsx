@@ -1,12 +1,17 @@
 
 import React, { useState, useEffect } from 'react';
+import { createRng } from '../engine';
 
 interface Props {
+  seed: number;
+  complexity?: 1 | 2 | 3; // From the difficulty
   onComplete: () => void;
   onFail: () => void;
 }
 
-const SlidingPuzzle: React.FC<Props> = ({ onComplete, onFail }) => {
+const SHUFFLE_MOVES = { 1: 15, 2: 50, 3: 120 };
+
+const SlidingPuzzle: React.FC<Props> = ({ seed, complexity = 2, onComplete, onFail }) => {
   // 0 represents empty space
   // Solved state: [1, 2, 3, 4, 5, 6, 7, 8, 0]
   const [grid, setGrid] = useState<number[]>([]);
@@ -15,12 +20,13 @@ const SlidingPuzzle: React.FC<Props> = ({ onComplete, onFail }) => {
 
   useEffect(() => {
     // Generate a solvable puzzle by making random moves from solved state
+    const rng = createRng(seed);
     let state = [1, 2, 3, 4, 5, 6, 7, 8, 0];
     let emptyIdx = 8;
     const previousMoves: number[] = [];
     
-    // Simulate 50 random valid moves to shuffle
-    for (let i = 0; i < 50; i++) {
+    // Simulate random valid moves to shuffle, more of them on harder games
+    for (let i = 0; i < SHUFFLE_MOVES[complexity]; i++) {
       const neighbors = [];
       if (emptyIdx % 3 > 0) neighbors.push(emptyIdx - 1); // Left
       if (emptyIdx % 3 < 2) neighbors.push(emptyIdx + 1); // Right
@@ -29,7 +35,7 @@ const SlidingPuzzle: React.FC<Props> = ({ onComplete, onFail }) => {
       
       // Don't undo immediate last move to ensure good shuffling
       const valid = neighbors.filter(n => n !== previousMoves[previousMoves.length - 1]);
-      const next = valid.length > 0 ? valid[Math.floor(Math.random() * valid.length)] : neighbors[0];
+      const next = valid.length > 0 ? rng.pick(valid) : neighbors[0];
       
       // Swap
       [state[emptyIdx], state[next]] = [state[next], state[emptyIdx]];
@@ -37,7 +43,7 @@ const SlidingPuzzle: React.FC<Props> = ({ onComplete, onFail }) => {
       previousMoves.push(emptyIdx);
     }
     setGrid(state);
-  }, []);
+  }, [seed, complexity]);
 
   const handleTileClick = (index: number) => {
     if (solved) return;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Player, TradeOffer } from '../types';
+
+interface Props {
+  from: Player; // The investigator taking their turn
+  to: Player;
+  onPropose: (offer: TradeOffer) => void;
+  onCancel: () => void;
+}
+
+// Lets the investigator taking their turn put together an exchange with
+// someone in the same space. The engine checks it again when it is accepted.
+const TradePanel: React.FC<Props> = ({ from, to, onPropose, onCancel }) => {
+  const [give, setGive] = useState<number[]>([]);
+  const [take, setTake] = useState<number[]>([]);
+  const [giveClues, setGiveClues] = useState(0);
+  const [takeClues, setTakeClues] = useState(0);
+
+  const toggle = (list: number[], setList: (l: number[]) => void, index: number) =>
+    setList(list.includes(index) ? list.filter(i => i !== index) : [...list, index]);
+
+  const isEmpty = give.length + take.length + giveClues + takeClues === 0;
+
+  const propose = () => onPropose({
+    fromId: from.id,
+    toId: to.id,
+    giveItems: give.map(i => from.items[i]),
+    giveClues,
+    takeItems: take.map(i => to.items[i]),
+    takeClues
+  });
+
+  const side = (player: Player, selected: number[], setSelected: (l: number[]) => void, clues: number, setClues: (n: number) => void) => (
+    <div className="flex-1 bg-[#e8dfc5] border border-[#8b6b4b] rounded-sm p-3">
+      <div className="uppercase tracking-widest text-[10px] font-bold mb-2" style={{ color: player.color }}>{player.name} gives</div>
+      <div className="flex flex-wrap gap-1 mb-3">
+        {player.items.map((item, i) => (
+          <button
+            key={i}
+            onClick={() => toggle(selected, setSelected, i)}
+            className={`text-xs px-2 py-1 rounded-sm border font-serif italic ${selected.includes(i) ? 'bg-mythos-gold text-black border-yellow-800' : 'bg-[#f3e9d2] text-[#3d2b1f] border-[#d1c2a5]'}`}
+          >
+            {item}
+          </button>
+        ))}
+        {player.items.length === 0 && <span className="text-xs text-[#7d6e5f] italic">Empty handed</span>}
+      </div>
+      <div className="flex items-center gap-2 text-xs text-[#5c4033] uppercase font-bold">
+        Clues
+        <button onClick={() => setClues(Math.max(0, clues - 1))} className="w-6 h-6 border border-[#8b6b4b] rounded-sm">-</button>
+        <span className="font-serif text-base text-[#2b1d0e]">{clues}</span>
+        <button onClick={() => setClues(Math.min(player.clues, clues + 1))} className="w-6 h-6 border border-[#8b6b4b] rounded-sm">+</button>
+        <span className="normal-case font-normal text-[#7d6e5f]">of {player.clues}</span>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-mythos-dark border-2 border-mythos-gold rounded-lg p-6 max-w-2xl w-full shadow-2xl">
+        <h2 className="text-2xl font-serif text-mythos-gold mb-4 text-center">Trade with {to.name}</h2>
+        <div className="flex gap-3">
+          {side(from, give, setGive, giveClues, setGiveClues)}
+          {side(to, take, setTake, takeClues, setTakeClues)}
+        </div>
+        <div className="flex justify-center gap-3 pt-5">
+          <button onClick={onCancel} className="px-6 py-2 border border-gray-500 text-gray-300 font-serif uppercase tracking-widest hover:bg-gray-800">
+            Cancel
+          </button>
+          <button
+            onClick={propose}
+            disabled={isEmpty}
+            className="px-6 py-2 bg-mythos-gold text-white font-serif rounded uppercase tracking-widest font-bold hover:bg-yellow-700 disabled:opacity-40"
+          >
+            Offer Trade
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TradePanel;
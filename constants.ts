@@ -1,16 +1,16 @@
 
-import { Investigator, Attribute } from './types';
+import { Investigator, Attribute, GameState } from './types';
 
 // Generic image generator for Portraits and Monsters (Art style)
 export const generateImage = (prompt: string) => 
   `https://image.pollinations.ai/prompt/${encodeURIComponent(prompt + " lovecraftian horror arkham horror card game style digital art dark lighting high detailed")}?width=512&height=512&nologo=true`;
 
 // Specific generator for Map Tiles to ensure consistent Perspective (Top Down) and Size
-export const generateRoomImage = (prompt: string, widthTiles: number = 1, heightTiles: number = 1) => {
+// Pass the game's seeded value so a replayed game draws the same rooms
+export const generateRoomImage = (prompt: string, widthTiles: number = 1, heightTiles: number = 1, seed: number = Math.floor(Math.random() * 100000)) => {
   if (!prompt) return ""; 
   // Truncate prompt to prevent 414 URI Too Long errors
   const safePrompt = prompt.slice(0, 300); 
-  const seed = Math.floor(Math.random() * 100000);
 
   // Calculate pixel dimensions based on tile ratio
   // REDUCED SCALE FOR SPEED (256px per tile unit instead of 512px)
@@ -44,6 +44,7 @@ export const INVESTIGATOR_TEMPLATES: Investigator[] = [
     name: 'Father Mateo',
     title: 'The Priest',
     ability: 'Once per round, you may re-roll any number of dice during a Will check.',
+    abilityId: 'REROLL',
     health: 7,
     sanity: 7,
     image: generateImage("portrait of Father Mateo catholic priest holding a bible and rosary stern face glowing magic"),
@@ -61,6 +62,7 @@ export const INVESTIGATOR_TEMPLATES: Investigator[] = [
     name: 'Wendy Adams',
     title: 'The Urchin',
     ability: 'You may evade monsters using Agility instead of Observation.',
+    abilityId: 'AGILITY_EVADE',
     health: 7,
     sanity: 7,
     image: generateImage("portrait of Wendy Adams young orphan girl with an amulet dark moody street urchin"),
@@ -78,6 +80,7 @@ export const INVESTIGATOR_TEMPLATES: Investigator[] = [
     name: 'Harvey Walters',
     title: 'The Professor',
     ability: 'Start with 1 extra Clue. You may hold 2 additional cards in your hand.',
+    abilityId: 'EXTRA_CLUE',
     health: 6,
     sanity: 8,
     image: generateImage("portrait of Harvey Walters old professor university suit monocle holding ancient tome"),
@@ -95,6 +98,7 @@ export const INVESTIGATOR_TEMPLATES: Investigator[] = [
     name: 'Leo Anderson',
     title: 'The Expedition Leader',
     ability: 'Once per round, a friendly investigator in your space gains 1 Action.',
+    abilityId: 'GRANT_ACTION',
     health: 8,
     sanity: 6,
     image: generateImage("portrait of Leo Anderson rugged expedition leader trenchcoat explorer"),
@@ -112,6 +116,7 @@ export const INVESTIGATOR_TEMPLATES: Investigator[] = [
     name: 'Agatha Crane',
     title: 'The Parapsychologist',
     ability: 'When you perform a Lore check to solve a puzzle, add +1 to your roll result.',
+    abilityId: 'PUZZLE_LORE',
     health: 6,
     sanity: 8,
     image: generateImage("portrait of Agatha Crane woman parapsychologist 1920s scientist ghost hunter"),
@@ -129,6 +134,7 @@ export const INVESTIGATOR_TEMPLATES: Investigator[] = [
     name: 'Preston Fairmont',
     title: 'The Millionaire',
     ability: 'You may spend Resources to convert 1 die result to a Success.',
+    abilityId: 'CONVERT_DIE',
     health: 7,
     sanity: 7,
     image: generateImage("portrait of Preston Fairmont wealthy millionaire tuxedo arrogant 1920s"),
@@ -146,6 +152,7 @@ export const INVESTIGATOR_TEMPLATES: Investigator[] = [
     name: 'William Yorick',
     title: 'The Gravedigger',
     ability: 'When you defeat a monster, you may retrieve 1 Item from the discard pile.',
+    abilityId: 'SCAVENGE',
     health: 9,
     sanity: 5,
     image: generateImage("portrait of William Yorick gravedigger with shovel and lantern rugged"),
@@ -163,6 +170,8 @@ export const INVESTIGATOR_TEMPLATES: Investigator[] = [
     name: 'Akachi Onyele',
     title: 'The Shaman',
     ability: 'When performing a spell action, you may look at the top card of the spell deck.',
+    abilityId: 'BURY_ITEM',
+    abilityNote: 'There are no spells yet. Until there are, you see the top card of the item deck and, once per round, may put it on the bottom.',
     health: 6,
     sanity: 8,
     image: generateImage("portrait of Akachi Onyele african shaman priestess magic staff glowing eyes"),
@@ -180,6 +189,7 @@ export const INVESTIGATOR_TEMPLATES: Investigator[] = [
     name: 'Carson Sinclair',
     title: 'The Butler',
     ability: 'As an action, you may give another investigator 1 of your actions.',
+    abilityId: 'GIVE_ACTION',
     health: 6,
     sanity: 8,
     image: generateImage("portrait of Carson Sinclair butler suit formal loyal grim expression"),
@@ -197,6 +207,7 @@ export const INVESTIGATOR_TEMPLATES: Investigator[] = [
     name: 'Diana Stanley',
     title: 'The Redeemed Cultist',
     ability: 'When you would take Horror, you may discard 1 Item to negate 1 Horror.',
+    abilityId: 'NEGATE_HORROR',
     health: 7,
     sanity: 7,
     image: generateImage("portrait of Diana Stanley woman cultist robes redeemed determined dark magic"),
@@ -211,39 +222,62 @@ export const INVESTIGATOR_TEMPLATES: Investigator[] = [
   }
 ];
 
+// When an item's effect applies
+export type ItemTrigger =
+  | 'Passive'    // Always on: weapon damage when attacking, extra dice on matching checks
+  | 'Action'     // Used from the inventory during your turn
+  | 'BeforeRoll' // Spent before rolling to add dice
+  | 'AfterRoll'; // Spent after rolling to convert Clue faces
+
+export interface ItemEffect {
+  trigger: ItemTrigger;
+  consumable?: boolean;    // Discarded once used
+  oncePerRound?: boolean;  // Tracked with usedItemAbilityRound
+  damage?: number;         // Added to attacks (Passive) or dealt to a monster in range (Action)
+  range?: number;          // Spaces away a target may be, 0 is your own space
+  banishes?: string[];     // Monster templates destroyed by any hit
+  dice?: number;           // Extra dice for checks
+  attribute?: Attribute;   // Restricts the dice to checks of this attribute
+  convertClues?: number | 'all'; // Clue faces turned into successes
+  heal?: number;           // Health restored
+  sanity?: number;         // Sanity restored (negative for horror taken)
+  actions?: number;        // Actions gained
+}
+
 export interface ItemDef {
   name: string;
   type: 'Weapon' | 'Utility' | 'Relic';
   description: string;
+  effect: ItemEffect;
 }
 
 export const ITEMS: Record<string, ItemDef> = {
   // WEAPONS
-  "Old Revolver": { name: "Old Revolver", type: "Weapon", description: "+1 Damage. A rusty but reliable firearm." },
-  "Rusty Knife": { name: "Rusty Knife", type: "Weapon", description: "+1 Damage. Dangerous in close quarters." },
-  "Holy Water": { name: "Holy Water", type: "Weapon", description: "+1 Damage. INSTANTLY banishes Spirits." },
-  "Crowbar": { name: "Crowbar", type: "Weapon", description: "+1 Damage." },
-  "Brass Knuckles": { name: "Brass Knuckles", type: "Weapon", description: "+1 Damage. Up close and personal." },
-  "Shotgun": { name: "Shotgun", type: "Weapon", description: "+2 Damage. Devastating at close range." },
-  "Ritual Dagger": { name: "Ritual Dagger", type: "Weapon", description: "+1 Damage. Magical properties." },
+  "Old Revolver": { name: "Old Revolver", type: "Weapon", description: "+1 Damage. A rusty but reliable firearm. Range 3.", effect: { trigger: 'Passive', damage: 1, range: 3 } },
+  "Rusty Knife": { name: "Rusty Knife", type: "Weapon", description: "+1 Damage. Dangerous in close quarters.", effect: { trigger: 'Passive', damage: 1, range: 0 } },
+  "Holy Water": { name: "Holy Water", type: "Weapon", description: "+1 Damage. INSTANTLY banishes Spirits.", effect: { trigger: 'Passive', damage: 1, range: 0, banishes: ['m_ghost'] } },
+  "Crowbar": { name: "Crowbar", type: "Weapon", description: "+1 Damage.", effect: { trigger: 'Passive', damage: 1, range: 0 } },
+  "Brass Knuckles": { name: "Brass Knuckles", type: "Weapon", description: "+1 Damage. Up close and personal.", effect: { trigger: 'Passive', damage: 1, range: 0 } },
+  "Shotgun": { name: "Shotgun", type: "Weapon", description: "+2 Damage. Devastating at close range. Range 2.", effect: { trigger: 'Passive', damage: 2, range: 2 } },
+  "Ritual Dagger": { name: "Ritual Dagger", type: "Weapon", description: "+1 Damage. Magical properties.", effect: { trigger: 'Passive', damage: 1, range: 0 } },
   
   // UTILITY / RELICS
-  "Lantern": { name: "Lantern", type: "Utility", description: "Use to add +3 Dice to Observation. (Consumed)" },
-  "Bandages": { name: "Bandages", type: "Utility", description: "Use to heal 1 Health. (Consumed)" },
-  "Ancient Tome": { name: "Ancient Tome", type: "Relic", description: "Passive: +1 Die on Lore checks." },
-  "Pocket Watch": { name: "Pocket Watch", type: "Relic", description: "Use to gain +2 Actions immediately. (Consumed)" },
-  "Magnifying Glass": { name: "Magnifying Glass", type: "Utility", description: "Passive: +1 Die on Observation checks." },
-  "Elder Sign": { name: "Elder Sign", type: "Relic", description: "Passive: +1 Die on Will checks." },
-  "Painkillers": { name: "Painkillers", type: "Utility", description: "Use to heal 2 Health, but take 1 Horror. (Consumed)" },
-  "Smelling Salts": { name: "Smelling Salts", type: "Utility", description: "Use to heal 2 Sanity. (Consumed)" },
-  "Kerosene": { name: "Kerosene", type: "Utility", description: "Use to deal 3 Damage to a monster in your space. (Consumed)" },
-  "Lockpick": { name: "Lockpick", type: "Utility", description: "Use to add +3 Dice to Agility. (Consumed)" },
+  "Lantern": { name: "Lantern", type: "Utility", description: "Use to add +3 Dice to Observation. (Consumed)", effect: { trigger: 'BeforeRoll', dice: 3, attribute: Attribute.Observation, consumable: true } },
+  "Bandages": { name: "Bandages", type: "Utility", description: "Use to heal 1 Health. (Consumed)", effect: { trigger: 'Action', heal: 1, consumable: true } },
+  "Ancient Tome": { name: "Ancient Tome", type: "Relic", description: "Passive: +1 Die on Lore checks.", effect: { trigger: 'Passive', dice: 1, attribute: Attribute.Lore } },
+  "Pocket Watch": { name: "Pocket Watch", type: "Relic", description: "Use to gain +2 Actions immediately. (Consumed)", effect: { trigger: 'Action', actions: 2, consumable: true } },
+  "Magnifying Glass": { name: "Magnifying Glass", type: "Utility", description: "Passive: +1 Die on Observation checks.", effect: { trigger: 'Passive', dice: 1, attribute: Attribute.Observation } },
+  "Elder Sign": { name: "Elder Sign", type: "Relic", description: "Passive: +1 Die on Will checks.", effect: { trigger: 'Passive', dice: 1, attribute: Attribute.Will } },
+  "Painkillers": { name: "Painkillers", type: "Utility", description: "Use to heal 2 Health, but take 1 Horror. (Consumed)", effect: { trigger: 'Action', heal: 2, sanity: -1, consumable: true } },
+  "Smelling Salts": { name: "Smelling Salts", type: "Utility", description: "Use to heal 2 Sanity. (Consumed)", effect: { trigger: 'Action', sanity: 2, consumable: true } },
+  "Kerosene": { name: "Kerosene", type: "Utility", description: "Use to deal 3 Damage to a monster in your space. (Consumed)", effect: { trigger: 'Action', damage: 3, range: 0, consumable: true } },
+  "Lockpick": { name: "Lockpick", type: "Utility", description: "Use to add +3 Dice to Agility. (Consumed)", effect: { trigger: 'BeforeRoll', dice: 3, attribute: Attribute.Agility, consumable: true } },
   
   // SPECIAL
-  "First Aid Kit": { name: "First Aid Kit", type: "Utility", description: "Use to heal 2 Health. (Consumed)" },
-  "Lucky Cigarette Case": { name: "Lucky Cigarette Case", type: "Relic", description: "Use to add +2 Dice to any roll. (Consumed)" },
-  "Detective's Journal": { name: "Detective's Journal", type: "Utility", description: "Once per round: Convert 1 Clue to a Success." },
-  "Eldritch Glyph": { name: "Eldritch Glyph", type: "Relic", description: "Use to convert ALL Clues to Successes. (Consumed)" }
+  "First Aid Kit": { name: "First Aid Kit", type: "Utility", description: "Use to heal 2 Health. (Consumed)", effect: { trigger: 'Action', heal: 2, consumable: true } },
+  "Lucky Cigarette Case": { name: "Lucky Cigarette Case", type: "Relic", description: "Use to add +2 Dice to any roll. (Consumed)", effect: { trigger: 'BeforeRoll', dice: 2, consumable: true } },
+  "Detective's Journal": { name: "Detective's Journal", type: "Utility", description: "Once per round: Convert 1 Clue to a Success.", effect: { trigger: 'AfterRoll', convertClues: 1, oncePerRound: true } },
+  "Eldritch Glyph": { name: "Eldritch Glyph", type: "Relic", description: "Use to convert ALL Clues to Successes. (Consumed)", effect: { trigger: 'AfterRoll', convertClues: 'all', consumable: true } }
 };
 
 export const STARTING_ITEMS = Object.keys(ITEMS);
@@ -256,16 +290,72 @@ export const DICE_FACES = [
 
 export const MONSTER_TEMPLATES = [
   // Tier 1: Early Game / Easy
-  { id: 'm_cultist', name: 'Cultist', tier: 1, health: 2, damage: 0, horror: 1, image: generateImage("lovecraftian cultist in robes holding dagger scary face") },
-  { id: 'm_rat', name: 'Swarm of Rats', tier: 1, health: 1, damage: 1, horror: 0, image: generateImage("swarm of black rats red eyes vicious biting") },
-  { id: 'm_maniac', name: 'Crazed Maniac', tier: 1, health: 3, damage: 1, horror: 0, image: generateImage("crazed maniac bloody axe insane expression asylum patient") },
+  { id: 'm_cultist', name: 'Cultist', tier: 1, health: 2, damage: 0, horror: 1, behavior: { speed: 1 }, image: generateImage("lovecraftian cultist in robes holding dagger scary face") },
+  { id: 'm_rat', name: 'Swarm of Rats', tier: 1, health: 1, damage: 1, horror: 0, behavior: { speed: 3 }, image: generateImage("swarm of black rats red eyes vicious biting") },
+  { id: 'm_maniac', name: 'Crazed Maniac', tier: 1, health: 3, damage: 1, horror: 0, behavior: { speed: 1 }, image: generateImage("crazed maniac bloody axe insane expression asylum patient") },
 
   // Tier 2: Mid Game (NERFED from original)
-  { id: 'm_deepone', name: 'Deep One', tier: 2, health: 4, damage: 1, horror: 0, image: generateImage("deep one fish man monster scales claws scary") },
-  { id: 'm_ghost', name: 'Vengeful Spirit', tier: 2, health: 4, damage: 0, horror: 1, image: generateImage("vengeful spirit ghost translucent scary screaming face") },
-  { id: 'm_hound', name: 'Hound of Tindalos', tier: 2, health: 5, damage: 1, horror: 1, image: generateImage("hound of tindalos alien dog geometric angular teeth scary") },
+  { id: 'm_deepone', name: 'Deep One', tier: 2, health: 4, damage: 1, horror: 0, behavior: { speed: 1 }, image: generateImage("deep one fish man monster scales claws scary") },
+  { id: 'm_ghost', name: 'Vengeful Spirit', tier: 2, health: 4, damage: 0, horror: 1, behavior: { speed: 2 }, image: generateImage("vengeful spirit ghost translucent scary screaming face") },
+  { id: 'm_hound', name: 'Hound of Tindalos', tier: 2, health: 5, damage: 1, horror: 1, behavior: { speed: 0, teleports: true }, image: generateImage("hound of tindalos alien dog geometric angular teeth scary") },
 
   // Tier 3: Late Game / Boss (NERFED from original)
-  { id: 'm_shoggoth', name: 'Shoggoth', tier: 3, health: 10, damage: 2, horror: 2, image: generateImage("shoggoth blob of eyes and mouths slime monster massive terrifying") },
-  { id: 'm_starspawn', name: 'Star Spawn', tier: 3, health: 12, damage: 2, horror: 3, image: generateImage("star spawn of cthulhu giant winged octopus face monster massive") }
+  { id: 'm_shoggoth', name: 'Shoggoth', tier: 3, health: 10, damage: 2, horror: 2, behavior: { speed: 1, restsEvery: 2, crushing: true }, image: generateImage("shoggoth blob of eyes and mouths slime monster massive terrifying") },
+  { id: 'm_starspawn', name: 'Star Spawn', tier: 3, health: 12, damage: 2, horror: 3, behavior: { speed: 1 }, image: generateImage("star spawn of cthulhu giant winged octopus face monster massive") }
 ];
+
+// --- Difficulty ---
+
+export type Difficulty = GameState['difficulty'];
+
+export interface DifficultyProfile {
+  label: string;
+  summary: string; // Shown in the lobby
+  evidenceBonus: number; // Added to the scenario's required evidence
+  monsterHealth: number; // Multiplier on the health of every monster that appears
+  searchDifficulty: number; // Successes needed on generated Search tokens
+  puzzleChance: number; // Chance (0-1) that a search becomes a puzzle
+  puzzleComplexity: 1 | 2 | 3; // Scramble, pairs and attempts of the puzzles
+  extraStartingItems: number; // Starting items beyond one per investigator
+  threatBonus: number; // Added to the Mythos threat level
+  doomScale: number; // Multiplier on the scenario's doom limit
+}
+
+export const DIFFICULTY_PROFILES: Record<Difficulty, DifficultyProfile> = {
+  Easy: {
+    label: '★ Easy',
+    summary: 'Fewer clues to find, frail monsters, simple locks and a generous doom clock.',
+    evidenceBonus: -1,
+    monsterHealth: 0.75,
+    searchDifficulty: 1,
+    puzzleChance: 0.2,
+    puzzleComplexity: 1,
+    extraStartingItems: 2,
+    threatBonus: -1,
+    doomScale: 1.25
+  },
+  Normal: {
+    label: '★★ Normal',
+    summary: 'The investigation as intended.',
+    evidenceBonus: 0,
+    monsterHealth: 1,
+    searchDifficulty: 2,
+    puzzleChance: 0.3,
+    puzzleComplexity: 2,
+    extraStartingItems: 1,
+    threatBonus: 0,
+    doomScale: 1
+  },
+  Hard: {
+    label: '★★★ Hard',
+    summary: 'More evidence hidden deeper, tougher monsters, devious puzzles and little time.',
+    evidenceBonus: 1,
+    monsterHealth: 1.5,
+    searchDifficulty: 3,
+    puzzleChance: 0.4,
+    puzzleComplexity: 3,
+    extraStartingItems: 0,
+    threatBonus: 2,
+    doomScale: 0.75
+  }
+};
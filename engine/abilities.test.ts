@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { Attribute, DiceFace, GamePhase, GameState, PuzzleType, TokenType } from '../types';
+import { getHandSize } from './abilities';
+import { checkTrade } from './trade';
+import { projectState } from './projection';
+import { getTopCard } from './state';
+import { createPlayer, play, startGame, withRoll } from './testing';
+
+const HARVEY = 'inv_3';
+const AGATHA = 'inv_5';
+const PRESTON = 'inv_6';
+const AKACHI = 'inv_8';
+
+describe('the item deck', () => {
+  const withDeck = (seed = 1): GameState => ({
+    ...startGame([createPlayer('akachi', AKACHI), createPlayer('b', 'inv_2')], seed),
+    itemDeck: ['Bottom', 'Middle', 'Top']
+  });
+
+  it('shows only Akachi the card that will be drawn next', () => {
+    const state = withDeck();
+    expect(getTopCard(projectState(state, 'akachi').itemDeck)).toBe('Top');
+    expect(projectState(state, 'akachi').itemDeck.filter(card => card !== '?')).toEqual(['Top']);
+    expect(projectState(state, 'b').itemDeck).toEqual(['?', '?', '?']);
+  });
+
+  it('puts a buried card under the deck, where it is drawn last', () => {
+    const buried = play(withDeck(), { type: 'USE_ABILITY', playerId: 'akachi', use: { ability: 'BURY_ITEM' } });
+    expect(buried.itemDeck).toEqual(['Top', 'Bottom', 'Middle']);
+    expect(getTopCard(projectState(buried, 'akachi').itemDeck)).toBe('Middle');
+  });
+
+  it('draws searched items from the top', () => {
+    // Whether a search turns up an item is random; every one that does must draw the top card
+    const drawn = Array.from({ length: 30 }, (_, seed) => {
+      const state = { ...withDeck(seed), tokens: [{ id: 's1', type: TokenType.Search, x: 0, y: 0, description: 'A desk', resolved: false }] };
+      const searched = play(withRoll(state, 'akachi', { type: 'SEARCH', tokenId: 's1' }, [DiceFace.ElderSign]), { type: 'CONFIRM_ROLL' });
+      return searched.players[0].items;
+    }).filter(items => items.length > 0);
+
+    expect(drawn.length).toBeGreaterThan(0);
+    drawn.forEach(items => expect(items).toEqual(['Top']));
+  });
+});
+
+describe('Agatha Crane', () => {
+  const withPuzzle = (investigatorId: string): GameState => {
+    const state = startGame([createPlayer('a', investigatorId)]);
+    const token = { id: 's1', type: TokenType.Search, x: 0, y: 0, description: 'A locked box', resolved: false };
+    return { ...state, phase: GamePhase.Puzzle, activePuzzle: { type: PuzzleType.Code, token, context: { type: 'SEARCH', tokenId: 's1' }, seed: 1, complexity: 2 } };
+  };
+
+  it('adds 1 to a Lore check that solves a puzzle', () => {
+    const studied = play(withPuzzle(AGATHA), { type: 'STUDY_PUZZLE' });
+    expect(studied.phase).toBe(GamePhase.DiceRoll);
+    expect(studied.activePuzzle).toBeUndefined();
+    expect(studied.activeDiceRoll).toMatchObject({ attribute: Attribute.Lore, target: 2, bonusSuccesses: 1, context: { type: 'SEARCH', tokenId: 's1' } });
+    expect(play(withPuzzle('inv_1'), { type: 'STUDY_PUZZLE' }).activeDiceRoll?.bonusSuccesses).toBe(0);
+  });
+
+  it('gets no bonus on Lore searches without a puzzle', () => {
+    const state = { ...withPuzzle(AGATHA), phase: GamePhase.Playing, activePuzzle: undefined, tokens: [{ id: 's1', type: TokenType.Search, x: 0, y: 0, description: 'Books', resolved: false, requiredAttribute: Attribute.Lore }] };
+    // The search may turn into a puzzle; a plain roll must carry no bonus
+    const rolls = Array.from({ length: 10 }, (_, seed) => play({ ...state, rngState: seed }, { type: 'INTERACT_TOKEN', tokenId: 's1' }).activeDiceRoll).filter(Boolean);
+    expect(rolls.length).toBeGreaterThan(0);
+    rolls.forEach(roll => expect(roll!.bonusSuccesses || 0).toBe(0));
+  });
+});
+
+describe('Harvey Walters', () => {
+  const FULL = ['Crowbar', 'Rusty Knife', 'Shotgun', 'Old Revolver'];
+
+  it('holds two more items than anyone else', () => {
+    expect(getHandSize(createPlayer('h', HARVEY))).toBe(getHandSize(createPlayer('a', 'inv_1')) + 2);
+  });
+
+  it('keeps others from taking more than their hand can hold', () => {
+    const state = startGame([createPlayer('a', 'inv_1', { items: FULL }), createPlayer('h', HARVEY, { items: ['Holy Water'] })]);
+    expect(checkTrade(state, { fromId: 'a', toId: 'h', giveItems: [], takeItems: ['Holy Water'], giveClues: 0, takeClues: 0 })).toMatch(/cannot carry/);
+    expect(checkTrade(state, { fromId: 'a', toId: 'h', giveItems: FULL, takeItems: [], giveClues: 0, takeClues: 0 })).toBeNull();
+  });
+
+  it('finds no items with a full hand', () => {
+    const found = Array.from({ length: 30 }, (_, seed) => {
+      const state = { ...startGame([createPlayer('a', 'inv_1', { items: FULL })], seed), itemDeck: ['Top'], tokens: [{ id: 's1', type: TokenType.Search, x: 0, y: 0, description: 'A desk', resolved: false }] };
+      return play(withRoll(state, 'a', { type: 'SEARCH', tokenId: 's1' }, [DiceFace.ElderSign]), { type: 'CONFIRM_ROLL' }).players[0].items;
+    });
+    found.forEach(items => expect(items).toEqual(FULL));
+  });
+});
+
+describe('Preston Fairmont', () => {
+  it('spends Resources to turn dice into successes', () => {
+    let state = startGame([createPlayer('p', PRESTON)]);
+    expect(state.players[0].resources).toBe(3);
+
+    state = withRoll(state, 'p', { type: 'SEARCH', tokenId: 'none' }, [DiceFace.Blank, DiceFace.Blank, DiceFace.Blank, DiceFace.Blank]);
+    state = play(state, ...[0, 1, 2, 3].map(dieIndex => ({ type: 'USE_ABILITY' as const, playerId: 'p', use: { ability: 'CONVERT_DIE' as const, dieIndex } })));
+    expect(state.activeDiceRoll!.faces).toEqual([DiceFace.ElderSign, DiceFace.ElderSign, DiceFace.ElderSign, DiceFace.Blank]);
+    expect(state.players[0].resources).toBe(0);
+    expect(state.players[0].clues).toBe(1);
+  });
+});
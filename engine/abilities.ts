@@ -0,0 +1,128 @@
+import { AbilityId, AbilityUse, Attribute, DiceFace, GamePhase, GameState, Player } from '../types';
+import { INVESTIGATOR_TEMPLATES } from '../constants';
+import { EngineResult, done, log } from './events';
+import { rollDice } from './dice';
+import { discardItem, getCurrentPlayer, getMaxSanity, getTopCard, updatePlayer } from './state';
+import { Rng } from './rng';
+
+// Abilities limited to one use per round (tracked by usedAbilityRound)
+const ONCE_PER_ROUND: AbilityId[] = ['REROLL', 'GRANT_ACTION', 'BURY_ITEM'];
+
+// Preston Fairmont's fortune at the start of the game
+export const STARTING_RESOURCES = 3;
+
+// Items an investigator can carry
+const HAND_SIZE = 4;
+
+export const getAbility = (player: Player): AbilityId | undefined =>
+  INVESTIGATOR_TEMPLATES.find(t => t.id === player.investigatorId)?.abilityId;
+
+export const hasAbility = (player: Player | undefined, ability: AbilityId) =>
+  !!player && getAbility(player) === ability;
+
+// Why the investigator cannot use the ability this way right now, or null
+// when they can. Shared by the reducer, the host's validation and the UI.
+export const checkAbilityUse = (state: GameState, playerId: string, use: AbilityUse): string | null => {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player || getAbility(player) !== use.ability) return "That is not your ability.";
+  if (ONCE_PER_ROUND.includes(use.ability) && player.usedAbilityRound) return "Your ability has already been used this round.";
+
+  const roll = state.activeDiceRoll;
+  const ownRoll = state.phase === GamePhase.DiceRoll && roll?.playerId === playerId && roll.faces ? roll : undefined;
+  const current = getCurrentPlayer(state);
+
+  switch (use.ability) {
+    case 'REROLL':
+      if (!ownRoll || ownRoll.attribute !== Attribute.Will) return "Only your own Will checks can be re-rolled.";
+      if (use.dieIndexes.length === 0 || use.dieIndexes.some(i => ownRoll.faces![i] === undefined)) return "Choose the dice to re-roll.";
+      return null;
+    case 'CONVERT_DIE':
+      if (!ownRoll) return "Roll the dice first.";
+      if ((player.resources || 0) <= 0) return "You have no Resources left to spend.";
+      if (ownRoll.faces![use.dieIndex] === undefined || ownRoll.faces![use.dieIndex] === DiceFace.ElderSign) return "Choose a die that is not a success.";
+      return null;
+    case 'GRANT_ACTION': {
+      if (state.phase !== GamePhase.Playing) return "Actions can only be granted during the investigators' turns.";
+      if (!current || current.id !== use.targetId || current.id === playerId) return "Only the investigator taking their turn can be helped.";
+      if (current.x !== player.x || current.y !== player.y) return `${current.name} must be in your space.`;
+      return null;
+    }
+    case 'GIVE_ACTION': {
+      const target = state.players.find(p => p.id === use.targetId);
+      if (state.phase !== GamePhase.Playing || current?.id !== playerId) return "You can only do this on your turn.";
+      if (player.actionsRemaining <= 0) return "No actions remaining.";
+      if (!target || target.id === playerId) return "Choose another investigator.";
+      return null;
+    }
+    case 'BURY_ITEM':
+      if (state.phase !== GamePhase.Playing) return "The spirits only answer between turns.";
+      return state.itemDeck.length > 1 ? null : "There is nothing left to bury.";
+    case 'NEGATE_HORROR':
+      if (!player.negatableHorror) return "There is no horror to negate.";
+      return player.items.includes(use.item) ? null : `You do not carry ${use.item}.`;
+  }
+};
+
+export const useAbility = (state: GameState, playerId: string, use: AbilityUse, rng: Rng): EngineResult => {
+  if (checkAbilityUse(state, playerId, use)) return done(state);
+
+  const player = state.players.find(p => p.id === playerId)!;
+  const next = ONCE_PER_ROUND.includes(use.ability) ? updatePlayer(state, playerId, { usedAbilityRound: true }) : state;
+
+  switch (use.ability) {
+    case 'REROLL': {
+      const roll = next.activeDiceRoll!;
+      const fresh = rollDice(rng, use.dieIndexes.length);
+      const faces = roll.faces!.map((f, i) => use.dieIndexes.includes(i) ? fresh[use.dieIndexes.indexOf(i)] : f);
+      return log(done({ ...next, activeDiceRoll: { ...roll, faces } }), `${player.name} prays and re-rolls ${use.dieIndexes.length} ${use.dieIndexes.length === 1 ? 'die' : 'dice'}.`, false);
+    }
+    case 'CONVERT_DIE': {
+      const roll = next.activeDiceRoll!;
+      const faces = roll.faces!.map((f, i) => i === use.dieIndex ? DiceFace.ElderSign : f);
+      const paid = updatePlayer({ ...next, activeDiceRoll: { ...roll, faces } }, playerId, p => ({ resources: (p.resources || 0) - 1 }));
+      return log(done(paid), `${player.name} pays handsomely for a better outcome.`, false);
+    }
+    case 'GRANT_ACTION': {
+      const target = next.players.find(p => p.id === use.targetId)!;
+      return log(done(updatePlayer(next, target.id, p => ({ actionsRemaining: p.actionsRemaining + 1 }))), `${player.name} rallies ${target.name} (+1 Action).`);
+    }
+    case 'GIVE_ACTION': {
+      const target = next.players.find(p => p.id === use.targetId)!;
+      const given = updatePlayer(next, playerId, p => ({ actionsRemaining: p.actionsRemaining - 1 }));
+      return log(done(updatePlayer(given, target.id, p => ({ bonusActions: (p.bonusActions || 0) + 1 }))), `${player.name} attends to ${target.name}'s needs (+1 Action next turn).`);
+    }
+    case 'BURY_ITEM': {
+      // The top card goes to the bottom, under everything else
+      const top = getTopCard(next.itemDeck)!;
+      return log(done({ ...next, itemDeck: [top, ...next.itemDeck.slice(0, -1)] }), `${player.name} consults the spirits and buries what lies ahead.`, false);
+    }
+    case 'NEGATE_HORROR': {
+      const spent = discardItem(next, playerId, use.item);
+      const negated = updatePlayer(spent, playerId, p => ({
+        sanity: Math.min(getMaxSanity(p), p.sanity + 1),
+        negatableHorror: (p.negatableHorror || 0) - 1
+      }));
+      return log(done(negated), `${player.name} casts away ${use.item} and steels her mind (-1 Horror).`);
+    }
+  }
+};
+
+// --- Passive Abilities ---
+
+// Harvey Walters holds two more items than anyone else
+export const getHandSize = (player: Player) => HAND_SIZE + (hasAbility(player, 'EXTRA_CLUE') ? 2 : 0);
+
+export const hasRoomInHand = (player: Player, count = 1) => player.items.length + count <= getHandSize(player);
+
+// William Yorick takes back the most recently discarded item after a kill
+export const scavenge = (result: EngineResult, playerId: string): EngineResult => {
+  const state = result.state;
+  const player = state.players.find(p => p.id === playerId);
+  if (!hasAbility(player, 'SCAVENGE') || state.discardPile.length === 0 || !hasRoomInHand(player!)) return result;
+
+  const item = state.discardPile[state.discardPile.length - 1];
+  return log(done({
+    ...updatePlayer(state, playerId, p => ({ items: [...p.items, item] })),
+    discardPile: state.discardPile.slice(0, -1)
+  }, result.events), `${player!.name} digs ${item} out of the refuse.`);
+};
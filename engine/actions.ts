@@ -0,0 +1,43 @@
+import { AbilityUse, GameState, InteractionResult, IntroResult, MythosResult, PlayerRegistration, RoomResult, SecretObjective, TradeOffer } from '../types';
+import { SearchOutcome } from './events';
+
+// Every state change the rules allow. The host (or an offline game) feeds these
+// through reduce(); clients only ever send them to the host.
+export type GameAction =
+  // Lobby
+  | { type: 'REGISTER_PLAYER'; player: PlayerRegistration }
+  | { type: 'SET_READY'; playerId: string; isReady: boolean }
+  | { type: 'SET_SEED'; seed: number }
+  | { type: 'SET_DIFFICULTY'; difficulty: GameState['difficulty'] }
+  | { type: 'SET_SCENARIO'; scenarioId: string }
+  | { type: 'BEGIN_ITEM_DISTRIBUTION' }
+  | { type: 'ASSIGN_ITEM'; itemIndex: number; playerId: string }
+  | { type: 'START_GAME'; intro: IntroResult }
+  // Investigator turn
+  | { type: 'MOVE'; tileId: string }
+  | { type: 'INTERACT_TOKEN'; tokenId: string }
+  | { type: 'ATTACK'; monsterId: string }
+  | { type: 'EVADE'; monsterId: string }
+  | { type: 'USE_ITEM'; item: string }
+  | { type: 'CHOOSE_DIALOGUE'; choiceIndex: number | null } // null walks away
+  | { type: 'USE_ABILITY'; playerId: string; use: AbilityUse }
+  | { type: 'COMPLETE_PUZZLE'; success: boolean }
+  | { type: 'STUDY_PUZZLE' } // A Lore check in place of the puzzle
+  | { type: 'PROPOSE_TRADE'; offer: TradeOffer }
+  | { type: 'RESPOND_TRADE'; playerId: string; accept: boolean }
+  | { type: 'END_TURN' }
+  | { type: 'END_MYTHOS' }
+  // Dice roll (the host rolls, the roller only asks)
+  | { type: 'ROLL_DICE' }
+  | { type: 'SPEND_CLUE'; dieIndex: number }
+  | { type: 'USE_DICE_ITEM'; item: string }
+  | { type: 'CONFIRM_ROLL' }
+  // Narrative results (host only, answers to the REQUEST_* events)
+  | { type: 'ROOM_GENERATED'; tokenId: string; room: RoomResult }
+  | { type: 'INVESTIGATION_NARRATED'; outcome: SearchOutcome; narrative: string }
+  | { type: 'INTERACTION_GENERATED'; tokenId: string; interaction: InteractionResult }
+  | { type: 'MYTHOS_GENERATED'; event: MythosResult }
+  | { type: 'SET_CONNECTED'; playerId: string; connected: boolean }
+  | { type: 'SECRET_OBJECTIVE_GENERATED'; playerId: string; objective: SecretObjective };
+
+export type GameActionType = GameAction['type'];
@@ -0,0 +1,128 @@
+import { Attribute, GamePhase, GameState } from '../types';
+import { EngineResult, andThen, done, log } from './events';
+import { getCurrentPlayer, updatePlayer } from './state';
+import { hasAbility, scavenge } from './abilities';
+import { applyDamage } from './damage';
+import { getItemEffect, getWeapon } from './effects';
+
+export const attackMonster = (state: GameState, monsterId: string): EngineResult => {
+  if (state.phase !== GamePhase.Playing) return done(state);
+
+  const monster = state.monsters.find(m => m.id === monsterId);
+  const player = getCurrentPlayer(state);
+  if (!monster || !player) return done(state);
+
+  if (player.actionsRemaining <= 0) {
+    return log(done(state), "No actions remaining.", false);
+  }
+
+  // Only a weapon with enough range reaches a monster in another space
+  const distance = Math.abs(player.x - monster.x) + Math.abs(player.y - monster.y);
+  const weapon = getWeapon(player.items, distance);
+  if (distance > 0 && !weapon) {
+    return log(done(state), "Too far to attack! (Need a ranged weapon)", false);
+  }
+
+  const effect = weapon ? getItemEffect(weapon)! : undefined;
+  const baseDmg = 1;
+  const weaponDmg = effect?.damage || 0;
+  // Some weapons destroy certain horrors with any hit
+  const banishes = !!effect?.banishes?.includes(monster.templateId);
+
+  const next = updatePlayer(state, player.id, p => ({ actionsRemaining: p.actionsRemaining - 1 }));
+
+  return done({
+    ...next,
+    phase: GamePhase.DiceRoll,
+    activeDiceRoll: {
+      playerId: player.id,
+      attribute: Attribute.Strength,
+      count: player.attributes[Attribute.Strength],
+      target: 2,
+      description: `Attacking ${monster.name}`,
+      context: { type: 'COMBAT', monsterId: monster.id, damage: banishes ? monster.health : baseDmg + weaponDmg },
+      bonusDice: 0
+    }
+  });
+};
+
+export const resolveCombat = (state: GameState, monsterId: string, hit: boolean, damage: number): EngineResult => {
+  const target = state.monsters.find(m => m.id === monsterId);
+  const attackerId = state.activeDiceRoll?.playerId;
+  let monsters = state.monsters;
+  let msg = "Attack missed!";
+  let defeated = false;
+
+  if (target && hit) {
+    const health = target.health - damage;
+    if (health <= 0) {
+      msg = `You defeated the ${target.name}!`;
+      monsters = monsters.filter(m => m.id !== monsterId);
+      defeated = true;
+    } else {
+      msg = `You hit the ${target.name} for ${damage} damage.`;
+      monsters = monsters.map(m => m.id === monsterId ? { ...m, health } : m);
+    }
+  }
+
+  const result = log(done({
+    ...state,
+    monsters,
+    phase: GamePhase.Playing,
+    activeDiceRoll: undefined
+  }), msg, false);
+  return defeated && attackerId ? scavenge(result, attackerId) : result;
+};
+
+// --- Evasion ---
+
+// Slipping past a monster in your space costs an action and an Observation
+// test (Agility for Wendy Adams) against the monster's tier.
+export const evadeMonster = (state: GameState, monsterId: string): EngineResult => {
+  if (state.phase !== GamePhase.Playing) return done(state);
+
+  const monster = state.monsters.find(m => m.id === monsterId);
+  const player = getCurrentPlayer(state);
+  if (!monster || !player) return done(state);
+
+  if (player.actionsRemaining <= 0) {
+    return log(done(state), "No actions remaining.", false);
+  }
+  if (monster.x !== player.x || monster.y !== player.y) {
+    return log(done(state), `The ${monster.name} is not in your space.`, false);
+  }
+
+  const attribute = hasAbility(player, 'AGILITY_EVADE') ? Attribute.Agility : Attribute.Observation;
+  const next = updatePlayer(state, player.id, p => ({ actionsRemaining: p.actionsRemaining - 1 }));
+
+  return done({
+    ...next,
+    phase: GamePhase.DiceRoll,
+    activeDiceRoll: {
+      playerId: player.id,
+      attribute,
+      count: player.attributes[attribute],
+      target: monster.tier,
+      description: `Evading ${monster.name}`,
+      context: { type: 'EVADE', monsterId: monster.id },
+      bonusDice: 0
+    }
+  });
+};
+
+// A clean escape frees the investigator to move on; a failed one gets them hurt
+export const resolveEvade = (state: GameState, monsterId: string, success: boolean): EngineResult => {
+  const playerId = state.activeDiceRoll?.playerId;
+  const monster = state.monsters.find(m => m.id === monsterId);
+  const cleared: GameState = { ...state, phase: GamePhase.Playing, activeDiceRoll: undefined };
+  if (!playerId || !monster) return done(cleared);
+
+  const player = state.players.find(p => p.id === playerId)!;
+  if (success) {
+    const evaded = updatePlayer(cleared, playerId, p => ({ evadedMonsters: [...(p.evadedMonsters || []), monsterId] }));
+    return log(done(evaded), `${player.name} slips past the ${monster.name}!`);
+  }
+
+  const caught = log(done(cleared), `${player.name} fails to evade the ${monster.name} and is struck!`);
+  return andThen(caught, s => applyDamage(s, playerId, monster.damage, monster.horror));
+};
@@ -0,0 +1,73 @@
+import { GameState } from '../types';
+import { EngineResult, appendLog, done, emit, log } from './events';
+import { getMaxHealth } from './state';
+import { hasAbility } from './abilities';
+import { buildContext } from './memory';
+
+// Deals physical damage and horror to an investigator. A second lethal blow
+// eliminates a Wounded investigator; hitting 0 sanity drives them Insane and
+// asks the narrative service for a secret objective.
+export const applyDamage = (state: GameState, playerId: string, damage: number, horror: number): EngineResult => {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) return done(state);
+
+  let newHealth = player.health - damage;
+  let newSanity = player.sanity - horror;
+  let newIsWounded = player.isWounded;
+  let newIsInsane = player.isInsane;
+  let logMsg = "";
+
+  if (newHealth <= 0) {
+    if (player.isWounded) {
+      const elimMsg = `${player.name} has succumbed to their wounds!`;
+      const remaining = state.players.filter(p => p.id !== playerId);
+      // Whoever is taking their turn keeps it; if it was this investigator,
+      // the index now points at the next in line (see passEliminatedTurn)
+      const index = state.players.indexOf(player);
+      const currentPlayerIndex = index < state.currentPlayerIndex ? state.currentPlayerIndex - 1 : state.currentPlayerIndex;
+      return done(appendLog({ ...state, players: remaining, currentPlayerIndex, eliminated: [...(state.eliminated || []), player] }, elimMsg));
+    }
+    newIsWounded = true;
+    newHealth = getMaxHealth(player);
+    logMsg += `${player.name} is broken and Wounded! Health restored, but mobility is limited. `;
+  }
+
+  let becameInsane = false;
+  if (newSanity <= 0) {
+    newSanity = 0;
+    if (!player.isInsane) {
+      newIsInsane = true;
+      becameInsane = true;
+      logMsg += `${player.name} has gone INSANE! `;
+    }
+  }
+
+  // Diana Stanley may still discard items to negate the horror she just took
+  const horrorTaken = player.sanity - newSanity;
+  const negatableHorror = hasAbility(player, 'NEGATE_HORROR') && horrorTaken > 0
+    ? (player.negatableHorror || 0) + horrorTaken
+    : player.negatableHorror;
+
+  const justWounded = newIsWounded && !player.isWounded;
+  const updatedPlayer = {
+    ...player,
+    negatableHorror,
+    health: newHealth,
+    sanity: newSanity,
+    isWounded: newIsWounded,
+    isInsane: newIsInsane,
+    actionsRemaining: justWounded ? Math.min(player.actionsRemaining, 1) : player.actionsRemaining,
+    movesRemaining: justWounded ? Math.min(player.movesRemaining, 1) : player.movesRemaining
+  };
+
+  let result = done({
+    ...state,
+    players: state.players.map(p => p.id === playerId ? updatedPlayer : p)
+  });
+  if (logMsg) result = log(result, logMsg);
+  if (becameInsane) {
+    result = emit(result, { type: 'REQUEST_INSANITY', playerId, context: buildContext(state.story, 'INSANITY') });
+  }
+  return result;
+};
+
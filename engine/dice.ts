@@ -0,0 +1,82 @@
+import { DiceFace, GamePhase, GameState, Player } from '../types';
+import { DICE_FACES } from '../constants';
+import { EngineResult, done, log } from './events';
+import { discardItem, updatePlayer } from './state';
+import { applyDiceItem, canUseDiceItem, describeDiceItem, getItemEffect, getPassiveDice } from './effects';
+import { Rng } from './rng';
+
+type DiceRoll = NonNullable<GameState['activeDiceRoll']>;
+
+export const rollDice = (rng: Rng, count: number): DiceFace[] =>
+  Array.from({ length: Math.max(0, count) }, () => rng.pick(DICE_FACES) as DiceFace);
+
+export const countSuccesses = (faces: DiceFace[]) => faces.filter(f => f === DiceFace.ElderSign).length;
+
+// Rolled successes plus any an ability adds to the result
+export const getRollSuccesses = (roll: DiceRoll) => countSuccesses(roll.faces || []) + (roll.bonusSuccesses || 0);
+
+export const getDicePool = (roll: DiceRoll, player: Player) =>
+  roll.count + roll.bonusDice + getPassiveDice(roll.attribute, player.items);
+
+type DiceRequest =
+  | { type: 'ROLL_DICE' }
+  | { type: 'SPEND_CLUE'; dieIndex: number }
+  | { type: 'USE_DICE_ITEM'; item: string }
+  | { type: 'CONFIRM_ROLL' };
+
+// Why the pending roll cannot take this request, or null when it can. The
+// host uses it to answer clients; the reducer to ignore invalid requests.
+export const checkDiceRequest = (state: GameState, request: DiceRequest): string | null => {
+  const roll = state.activeDiceRoll;
+  const player = roll && state.players.find(p => p.id === roll.playerId);
+  if (state.phase !== GamePhase.DiceRoll || !roll || !player) return "There is no roll in progress.";
+
+  switch (request.type) {
+    case 'ROLL_DICE':
+      return roll.faces ? "The dice have already been rolled." : null;
+    case 'SPEND_CLUE':
+      if (!roll.faces) return "Roll the dice first.";
+      if (player.clues <= 0) return "You have no clues to spend.";
+      return roll.faces[request.dieIndex] === DiceFace.Clue ? null : "Only clue faces can be converted.";
+    case 'USE_DICE_ITEM':
+      return canUseDiceItem(roll, player, request.item) ? null : `${request.item} cannot be used on this roll.`;
+    case 'CONFIRM_ROLL':
+      return roll.faces ? null : "Roll the dice first.";
+  }
+};
+
+// --- Roll Steps ---
+
+const withRoll = (state: GameState, updates: Partial<DiceRoll>): GameState => ({
+  ...state,
+  activeDiceRoll: { ...state.activeDiceRoll!, ...updates }
+});
+
+export const rollActiveDice = (state: GameState, rng: Rng): EngineResult => {
+  if (checkDiceRequest(state, { type: 'ROLL_DICE' })) return done(state);
+  const roll = state.activeDiceRoll!;
+  const player = state.players.find(p => p.id === roll.playerId)!;
+
+  return done(withRoll(state, { faces: rollDice(rng, getDicePool(roll, player)) }));
+};
+
+export const spendClue = (state: GameState, dieIndex: number): EngineResult => {
+  if (checkDiceRequest(state, { type: 'SPEND_CLUE', dieIndex })) return done(state);
+  const roll = state.activeDiceRoll!;
+
+  const faces = roll.faces!.map((f, i) => i === dieIndex ? DiceFace.ElderSign : f);
+  const next = updatePlayer(withRoll(state, { faces }), roll.playerId, p => ({ clues: p.clues - 1 }));
+  return done(next);
+};
+
+export const useDiceItem = (state: GameState, item: string): EngineResult => {
+  if (checkDiceRequest(state, { type: 'USE_DICE_ITEM', item })) return done(state);
+  const roll = state.activeDiceRoll!;
+  const player = state.players.find(p => p.id === roll.playerId)!;
+  const effect = getItemEffect(item)!;
+
+  let next: GameState = { ...state, activeDiceRoll: applyDiceItem(roll, effect) };
+  if (effect.consumable) next = discardItem(next, player.id, item);
+  if (effect.oncePerRound) next = updatePlayer(next, player.id, { usedItemAbilityRound: true });
+  return log(done(next), `${player.name} used ${item} (${describeDiceItem(effect)}).`, false);
+};
@@ -0,0 +1,57 @@
+import { Attribute, DiceFace, GameState, Player } from '../types';
+import { ITEMS, ItemEffect } from '../constants';
+
+type DiceRoll = NonNullable<GameState['activeDiceRoll']>;
+
+// Everything an item does is described by its ItemDef.effect; these helpers
+// are the only place the engine reads them.
+export const getItemEffect = (item: string): ItemEffect | undefined => ITEMS[item]?.effect;
+
+const appliesTo = (effect: ItemEffect, attribute: Attribute) => !effect.attribute || effect.attribute === attribute;
+
+// Dice added to a check by the items an investigator simply carries
+export const getPassiveDice = (attribute: Attribute, items: string[]) =>
+  items.reduce((sum, item) => {
+    const effect = getItemEffect(item);
+    return effect?.trigger === 'Passive' && effect.dice && appliesTo(effect, attribute) ? sum + effect.dice : sum;
+  }, 0);
+
+// The hardest-hitting weapon that reaches a target `distance` spaces away
+export const getWeapon = (items: string[], distance: number): string | undefined =>
+  items
+    .filter(item => {
+      const effect = getItemEffect(item);
+      return effect?.trigger === 'Passive' && !!effect.damage && (effect.range || 0) >= distance;
+    })
+    .sort((a, b) => getItemEffect(b)!.damage! - getItemEffect(a)!.damage!)[0];
+
+export const isUsableFromInventory = (item: string) => getItemEffect(item)?.trigger === 'Action';
+
+// Whether the item can be used on the pending roll right now
+export const canUseDiceItem = (roll: DiceRoll, player: Player, item: string) => {
+  const effect = getItemEffect(item);
+  if (!effect || !player.items.includes(item)) return false;
+  if (effect.oncePerRound && player.usedItemAbilityRound) return false;
+
+  if (effect.trigger === 'BeforeRoll') return !roll.faces && !!effect.dice && appliesTo(effect, roll.attribute);
+  if (effect.trigger === 'AfterRoll') return !!roll.faces?.includes(DiceFace.Clue) && !!effect.convertClues;
+  return false;
+};
+
+// The pending roll once the item's effect is applied to it
+export const applyDiceItem = (roll: DiceRoll, effect: ItemEffect): DiceRoll => {
+  if (effect.trigger === 'BeforeRoll') return { ...roll, bonusDice: roll.bonusDice + (effect.dice || 0) };
+
+  let remaining = effect.convertClues === 'all' ? Infinity : effect.convertClues || 0;
+  const faces = roll.faces!.map(f => {
+    if (f !== DiceFace.Clue || remaining <= 0) return f;
+    remaining--;
+    return DiceFace.ElderSign;
+  });
+  return { ...roll, faces };
+};
+
+export const describeDiceItem = (effect: ItemEffect) => {
+  if (effect.trigger === 'BeforeRoll') return `+${effect.dice} Dice`;
+  return effect.convertClues === 'all' ? 'Convert ALL' : `Convert ${effect.convertClues}`;
+};
@@ -0,0 +1,60 @@
+import { GameState, MythosBoard } from '../types';
+
+export interface SearchOutcome {
+  tokenId: string;
+  tokenDescription: string;
+  success: boolean;
+  rewardType: 'None' | 'Evidence' | 'Item' | 'Clue';
+  rewardMessage: string;
+  foundObject?: string;
+  closeToTruth: boolean;
+}
+
+// Every REQUEST_* is answered by dispatching the matching *_GENERATED action.
+// reduce() stamps each with a seed from the game's generator, so narrators
+// that draw from tables stay deterministic.
+export type NarrativeRequestEvent = (
+  | { type: 'REQUEST_ROOM'; tokenId: string; direction: string; context: string; fromType: string; existingTypes: string[] }
+  | { type: 'REQUEST_INVESTIGATION'; outcome: SearchOutcome; context: string }
+  | { type: 'REQUEST_INTERACTION'; tokenId: string; description: string; context: string }
+  | { type: 'REQUEST_MYTHOS'; context: string; threat: number; board: MythosBoard }
+  | { type: 'REQUEST_INSANITY'; playerId: string; context: string }
+) & { seed?: number };
+
+// Side effects the engine asks its host to perform. NARRATE is fire-and-forget.
+export type GameEvent =
+  | { type: 'NARRATE'; text: string }
+  | NarrativeRequestEvent;
+
+export interface EngineResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+// --- Result Builders ---
+
+export const done = (state: GameState, events: GameEvent[] = []): EngineResult => ({ state, events });
+
+export const emit = (result: EngineResult, ...events: GameEvent[]): EngineResult => ({
+  state: result.state,
+  events: [...result.events, ...events]
+});
+
+// Runs the next rules step on the state so far, keeping the events of both
+export const andThen = (result: EngineResult, step: (state: GameState) => EngineResult): EngineResult => {
+  const next = step(result.state);
+  return { state: next.state, events: [...result.events, ...next.events] };
+};
+
+export const LOG_LIMIT = 50;
+
+export const appendLog = (state: GameState, msg: string): GameState => ({
+  ...state,
+  log: [...state.log, msg].slice(-LOG_LIMIT) // Keep log size manageable for network sync
+});
+
+// Append to the log and, unless narrate is false, have the host read it aloud
+export const log = (result: EngineResult, msg: string, narrate = true): EngineResult => ({
+  state: appendLog(result.state, msg),
+  events: narrate ? [...result.events, { type: 'NARRATE', text: msg }] : result.events
+});
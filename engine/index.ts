@@ -0,0 +1,16 @@
+export { reduce } from './reducer';
+export { replay } from './replay';
+export { createInitialState, getCurrentPlayer, getTopCard } from './state';
+export { applyDamage } from './damage';
+export { createRng, randomSeed } from './rng';
+export { checkDiceRequest, countSuccesses, getDicePool, getRollSuccesses } from './dice';
+export { canUseDiceItem, describeDiceItem, getItemEffect, getPassiveDice, isUsableFromInventory } from './effects';
+export { checkAbilityUse, getAbility, getHandSize, STARTING_RESOURCES } from './abilities';
+export { checkTrade, checkTradeResponse } from './trade';
+export { getDoomLimit } from './scenario';
+export { describeObjective, isObjectiveMet } from './objectives';
+export { countEvidencePoints, projectReplica, projectState, takeOver } from './projection';
+export { createStory } from './memory';
+export type { Rng } from './rng';
+export type { GameAction, GameActionType } from './actions';
+export type { GameEvent, EngineResult, SearchOutcome } from './events';
@@ -0,0 +1,92 @@
+import { Attribute, DialogueChoice, GamePhase, GameState, InteractionResult, Token } from '../types';
+import { EngineResult, done, emit, log } from './events';
+import { getCurrentPlayer, updatePlayer } from './state';
+import { buildContext, remember } from './memory';
+
+const ATTRIBUTES = Object.values(Attribute) as string[];
+
+// Approaching a character or object asks the narrative service for the
+// encounter; nothing is spent until the investigator picks a choice.
+export const beginInteraction = (state: GameState, token: Token): EngineResult =>
+  emit(done(state), {
+    type: 'REQUEST_INTERACTION',
+    tokenId: token.id,
+    description: token.description,
+    context: buildContext(state.story, 'INTERACTION')
+  });
+
+// Keeps what the service wrote playable: at most three choices, each testing
+// a real attribute at a difficulty the dice can reach
+const toChoices = (result: InteractionResult, token: Token): DialogueChoice[] =>
+  (result.choices || []).slice(0, 3).map(c => ({
+    text: c.text,
+    attribute: ATTRIBUTES.includes(c.attribute) ? c.attribute : (token.requiredAttribute || Attribute.Influence),
+    difficulty: Math.min(3, Math.max(1, Math.round(Number(c.difficulty)) || token.difficulty || 2)),
+    success: c.success,
+    failure: c.failure
+  }));
+
+export const openInteraction = (state: GameState, tokenId: string, result: InteractionResult): EngineResult => {
+  const token = state.tokens.find(t => t.id === tokenId);
+  const player = getCurrentPlayer(state);
+  if (state.phase !== GamePhase.Playing || !token || token.resolved || !player) return done(state);
+  if (player.x !== token.x || player.y !== token.y) return done(state);
+
+  const choices = toChoices(result, token);
+  if (choices.length === 0) return log(done(state), `${token.description} has nothing to offer.`, false);
+
+  const met = remember(state, { kind: 'NPC', subject: token.description, detail: result.narrative });
+  return log(
+    done({ ...met, activeInteraction: { tokenId, playerId: player.id, narrative: result.narrative, choices } }),
+    result.narrative
+  );
+};
+
+// A null choice walks away without spending anything
+export const chooseDialogue = (state: GameState, choiceIndex: number | null): EngineResult => {
+  const interaction = state.activeInteraction;
+  const player = getCurrentPlayer(state);
+  if (state.phase !== GamePhase.Playing || !interaction || player?.id !== interaction.playerId) return done(state);
+
+  if (choiceIndex === null) {
+    return log(done({ ...state, activeInteraction: undefined }), `${player.name} steps away.`, false);
+  }
+
+  const choice = interaction.choices[choiceIndex];
+  if (!choice) return done(state);
+  if (player.actionsRemaining <= 0) return log(done(state), "No actions remaining.", false);
+
+  const attribute = choice.attribute as Attribute;
+  const next = updatePlayer(state, player.id, p => ({ actionsRemaining: p.actionsRemaining - 1 }));
+  return done({
+    ...next,
+    phase: GamePhase.DiceRoll,
+    activeDiceRoll: {
+      playerId: player.id,
+      attribute,
+      count: player.attributes[attribute],
+      target: choice.difficulty,
+      description: choice.text,
+      context: { type: 'INTERACT', tokenId: interaction.tokenId, choiceIndex },
+      bonusDice: 0
+    }
+  });
+};
+
+// A won exchange yields a clue and settles the token; a lost one leaves it
+// for another attempt
+export const resolveInteraction = (state: GameState, tokenId: string, choiceIndex: number, success: boolean): EngineResult => {
+  const choice = state.activeInteraction?.choices[choiceIndex];
+  const player = getCurrentPlayer(state);
+  const cleared: GameState = { ...state, phase: GamePhase.Playing, activeDiceRoll: undefined, activeInteraction: undefined };
+  if (!choice || !player) return done(cleared);
+
+  if (!success) return log(done(cleared), `FAILURE: ${choice.failure}`);
+
+  const rewarded = updatePlayer(cleared, player.id, p => ({ clues: p.clues + 1 }));
+  const token = state.tokens.find(t => t.id === tokenId);
+  return log(done({
+    ...remember(rewarded, { kind: 'LORE', subject: token?.description || choice.text, detail: choice.success }),
+    tokens: rewarded.tokens.map(t => t.id === tokenId ? { ...t, resolved: true } : t)
+  }), `SUCCESS: ${choice.success} ${player.name} gains a clue.`);
+};
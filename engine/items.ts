@@ -0,0 +1,59 @@
+import { GamePhase, GameState } from '../types';
+import { EngineResult, done, log } from './events';
+import { discardItem, getCurrentPlayer, getMaxHealth, getMaxSanity, updatePlayer } from './state';
+import { getItemEffect } from './effects';
+import { scavenge } from './abilities';
+
+// Items used from the inventory on the current investigator's turn. Whatever
+// the item's effect lists is applied here; weapons and dice items are resolved
+// by combat and the dice roll instead.
+export const useItem = (state: GameState, item: string): EngineResult => {
+  if (state.phase !== GamePhase.Playing) return done(state);
+
+  const player = getCurrentPlayer(state);
+  const effect = getItemEffect(item);
+  if (!player || !effect || effect.trigger !== 'Action' || !player.items.includes(item)) return done(state);
+  if (effect.oncePerRound && player.usedItemAbilityRound) return log(done(state), `${item} has already been used this round.`, false);
+
+  const health = Math.min(player.health + (effect.heal || 0), getMaxHealth(player));
+  const sanity = Math.max(0, Math.min(player.sanity + (effect.sanity || 0), getMaxSanity(player)));
+
+  const range = effect.range || 0;
+  const target = effect.damage
+    ? state.monsters.find(m => Math.abs(m.x - player.x) + Math.abs(m.y - player.y) <= range)
+    : undefined;
+
+  // Refuse to waste an item that would do nothing
+  const helps = health > player.health || (effect.sanity > 0 && sanity > player.sanity) || !!effect.actions || !!target;
+  if (!helps) {
+    if (effect.damage) return log(done(state), range === 0 ? "No monsters here." : "No monsters in range.", false);
+    if (effect.heal) return log(done(state), "Health is already full.", false);
+    return log(done(state), "Sanity is already full.", false);
+  }
+
+  let next = effect.consumable ? discardItem(state, player.id, item) : state;
+  next = updatePlayer(next, player.id, p => ({
+    health,
+    sanity,
+    actionsRemaining: p.actionsRemaining + (effect.actions || 0),
+    usedItemAbilityRound: effect.oncePerRound ? true : p.usedItemAbilityRound
+  }));
+
+  const gains = [
+    health > player.health && `+${health - player.health} Health`,
+    sanity !== player.sanity && `${sanity > player.sanity ? '+' : ''}${sanity - player.sanity} Sanity`,
+    effect.actions && `+${effect.actions} Actions`
+  ].filter(Boolean);
+  let msg = `${player.name} uses ${item}${gains.length > 0 ? ` (${gains.join(', ')})` : ''}.`;
+
+  if (!target) return log(done(next), msg);
+
+  const monsterHealth = target.health - effect.damage!;
+  if (monsterHealth > 0) {
+    msg += ` ${target.name} takes ${effect.damage} Damage.`;
+    return log(done({ ...next, monsters: next.monsters.map(m => m.id === target.id ? { ...m, health: monsterHealth } : m) }), msg);
+  }
+
+  msg += ` ${target.name} is destroyed!`;
+  return scavenge(log(done({ ...next, monsters: next.monsters.filter(m => m.id !== target.id) }), msg), player.id);
+};
@@ -0,0 +1,89 @@
+import { GameState, StoryFact, StoryFactKind, StoryMemory } from '../types';
+
+// The story so far, as the narrator is reminded of it. Facts are recorded as
+// the investigators explore; only the most recent are kept word for word, the
+// older ones fold into a list of names. Each request then gets a context
+// built for it, so neither the state nor the prompts grow with the game.
+
+const FACT_LIMIT = 24; // Recent facts kept whole
+const SUMMARY_LIMIT = 12; // Names kept per kind once folded
+const PREMISE_LIMIT = 160;
+
+const emptySummary = (): Record<StoryFactKind, string[]> => ({ ROOM: [], NPC: [], ITEM: [], LORE: [], EVENT: [] });
+
+export const createStory = (premise = ''): StoryMemory => ({ premise, facts: [], summary: emptySummary() });
+
+// --- Recording ---
+
+const fold = (summary: Record<StoryFactKind, string[]>, fact: StoryFact) => ({
+  ...summary,
+  [fact.kind]: [...(summary[fact.kind] || []).filter(s => s !== fact.subject), fact.subject].slice(-SUMMARY_LIMIT)
+});
+
+export const remember = (state: GameState, fact: Omit<StoryFact, 'round'>): GameState => {
+  if (!fact.subject && !fact.detail) return state;
+  const story = state.story || createStory();
+  const facts = [...story.facts, { ...fact, round: state.round }];
+  const folded = facts.slice(0, Math.max(0, facts.length - FACT_LIMIT));
+  return {
+    ...state,
+    story: {
+      ...story,
+      facts: facts.slice(folded.length),
+      summary: folded.reduce(fold, story.summary || emptySummary())
+    }
+  };
+};
+
+// A short name for a fact that has none, such as a Mythos event
+export const firstSentence = (text: string, limit = 80) => {
+  const sentence = (text || '').trim().match(/^.*?[.!?](?=\s|$)/)?.[0] || (text || '').trim();
+  return sentence.length > limit ? `${sentence.slice(0, limit - 1).trimEnd()}…` : sentence;
+};
+
+// --- Contexts ---
+
+// What each request needs to hear about first, and how long its context may be
+export type ContextFocus = 'ROOM' | 'INVESTIGATION' | 'INTERACTION' | 'MYTHOS' | 'INSANITY';
+
+const FOCUS: Record<ContextFocus, { kinds: StoryFactKind[]; budget: number }> = {
+  ROOM: { kinds: ['ROOM', 'LORE'], budget: 500 },
+  INVESTIGATION: { kinds: ['ROOM', 'ITEM', 'LORE'], budget: 500 },
+  INTERACTION: { kinds: ['NPC', 'LORE', 'ROOM'], budget: 500 },
+  MYTHOS: { kinds: ['EVENT', 'ROOM', 'LORE'], budget: 500 },
+  INSANITY: { kinds: ['EVENT', 'NPC', 'ITEM'], budget: 300 }
+};
+
+const SUMMARY_LABELS: Record<StoryFactKind, string> = {
+  ROOM: 'Places', NPC: 'People', ITEM: 'Found', LORE: 'Learned', EVENT: 'Happenings'
+};
+
+// The premise, what is known of the focus from earlier, then as many recent
+// facts as fit, newest first in priority but told in order
+export const buildContext = (story: StoryMemory | undefined, focus: ContextFocus): string => {
+  if (!story) return '';
+  const { kinds, budget } = FOCUS[focus];
+
+  const lines: string[] = [];
+  if (story.premise) lines.push(`Premise: ${firstSentence(story.premise, PREMISE_LIMIT)}`);
+
+  const earlier = kinds
+    .filter(kind => story.summary?.[kind]?.length)
+    .map(kind => `${SUMMARY_LABELS[kind]}: ${story.summary[kind].join(', ')}`);
+  if (earlier.length > 0) lines.push(`Earlier: ${earlier.join('; ')}.`);
+
+  const RECENT = 'Recently: ';
+  let remaining = budget - lines.join('\n').length - RECENT.length - 1;
+  const recent: StoryFact[] = [];
+  const ranked = [...story.facts].reverse().sort((a, b) => Number(!kinds.includes(a.kind)) - Number(!kinds.includes(b.kind)));
+  for (const fact of ranked) {
+    const cost = fact.subject.length + fact.detail.length + 3;
+    if (cost > remaining) continue;
+    recent.push(fact);
+    remaining -= cost;
+  }
+  const told = story.facts.filter(f => recent.includes(f)).map(f => `${f.subject}: ${f.detail}`);
+  if (told.length > 0) lines.push(RECENT + told.join(' '));
+
+  return lines.join('\n').slice(0, budget);
+};
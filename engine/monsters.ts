@@ -0,0 +1,99 @@
+import { GameState, Monster, MonsterBehavior, Player } from '../types';
+import { MONSTER_TEMPLATES } from '../constants';
+import { EngineResult, andThen, done, log } from './events';
+import { applyDamage } from './damage';
+import { Rng } from './rng';
+
+type Point = { x: number; y: number };
+
+const key = (p: Point) => `${p.x},${p.y}`;
+const distance = (a: Point, b: Point) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+
+export const getBehavior = (monster: Monster): MonsterBehavior =>
+  MONSTER_TEMPLATES.find(t => t.id === monster.templateId)?.behavior || { speed: 1 };
+
+// Shortest walk over the map from `from` to the closest investigator, as the
+// list of tiles to step through (empty when already sharing a space).
+const findPathToPrey = (state: GameState, from: Point): Point[] | null => {
+  const occupied = new Set(state.players.map(key));
+  const tiles = new Map(state.tiles.map(t => [key(t), { x: t.x, y: t.y }]));
+  const cameFrom = new Map<string, string | null>([[key(from), null]]);
+  const queue: Point[] = [from];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (occupied.has(key(current))) {
+      const path: Point[] = [];
+      for (let k: string | null = key(current); k && k !== key(from); k = cameFrom.get(k)!) {
+        path.unshift(tiles.get(k)!);
+      }
+      return path;
+    }
+
+    [{ x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 }].forEach(v => {
+      const next = { x: current.x + v.x, y: current.y + v.y };
+      if (!tiles.has(key(next)) || cameFrom.has(key(next))) return;
+      cameFrom.set(key(next), key(current));
+      queue.push(next);
+    });
+  }
+  return null;
+};
+
+const moveMonster = (state: GameState, monster: Monster, to: Point): GameState => ({
+  ...state,
+  monsters: state.monsters.map(m => m.id === monster.id ? { ...m, x: to.x, y: to.y } : m)
+});
+
+// --- Activation ---
+
+// One monster hunts: it closes in on the nearest investigator the way its
+// template dictates, then strikes whoever shares its space.
+const activateMonster = (state: GameState, monsterId: string, rng: Rng): EngineResult => {
+  const monster = state.monsters.find(m => m.id === monsterId);
+  if (!monster || state.players.length === 0) return done(state);
+
+  const behavior = getBehavior(monster);
+  if (behavior.restsEvery && state.round % behavior.restsEvery !== 0) {
+    return log(done(state), `The ${monster.name} stirs sluggishly.`, false);
+  }
+
+  let result = done(state);
+  let position: Point = monster;
+
+  if (behavior.teleports) {
+    const nearest = Math.min(...state.players.map(p => distance(p, monster)));
+    const prey = rng.pick(state.players.filter(p => distance(p, monster) === nearest));
+    if (nearest > 0) {
+      position = { x: prey.x, y: prey.y };
+      result = log(done(moveMonster(state, monster, position)), `The ${monster.name} pours out of the angles of the room beside ${prey.name}!`);
+    }
+  } else {
+    const path = findPathToPrey(state, monster);
+    const steps = path ? path.slice(0, behavior.speed) : [];
+    if (steps.length > 0) {
+      position = steps[steps.length - 1];
+      const verb = steps.length > 1 ? 'rushes' : 'creeps';
+      result = log(done(moveMonster(state, monster, position)), `The ${monster.name} ${verb} closer...`, false);
+    }
+  }
+
+  const inReach = result.state.players.filter(p => p.x === position.x && p.y === position.y);
+  if (inReach.length === 0) return result;
+
+  const victims: Player[] = behavior.crushing ? inReach : [rng.pick(inReach)];
+  victims.forEach(victim => {
+    result = log(result, behavior.crushing
+      ? `The ${monster.name} crushes ${victim.name}!`
+      : `The ${monster.name} attacks ${victim.name}!`);
+    result = andThen(result, s => applyDamage(s, victim.id, monster.damage, monster.horror));
+  });
+  return result;
+};
+
+// Every monster on the board activates in the order it appeared
+export const activateMonsters = (state: GameState, rng: Rng): EngineResult =>
+  state.monsters.reduce(
+    (result, monster) => andThen(result, s => activateMonster(s, monster.id, rng)),
+    done(state)
+  );
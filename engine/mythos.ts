@@ -0,0 +1,189 @@
+import { Attribute, GameState, Monster, MythosBoard, MythosEffect, RoomCondition, Tile, Token, TokenType } from '../types';
+import { MONSTER_TEMPLATES } from '../constants';
+import { EngineResult, andThen, done, log } from './events';
+import { applyDamage } from './damage';
+import { getMaxHealth, getMaxSanity, scaleMonsterHealth } from './state';
+import { Rng } from './rng';
+
+// Mythos effects: what an event does to the board beyond its story. The
+// narrator is shown the board (describeBoard) and names its targets; the
+// engine finds them, or picks at random when they are missing or unknown.
+
+const CONDITION_ROUNDS = 2; // Fire and darkness last this many rounds
+
+const normalize = (text?: string) => (text || '').toLowerCase().replace(/^the\s+/, '').replace(/[^a-z0-9]/g, '');
+
+// The narrative service names the attribute loosely ("Willpower", "lore")
+export const parseAttribute = (param?: string | null): Attribute => {
+  const name = (param || '').trim().toLowerCase();
+  return Object.values(Attribute).find(a => name.startsWith(a.toLowerCase()) || (name.length > 0 && a.toLowerCase().startsWith(name)))
+    || Attribute.Will;
+};
+
+// --- Board ---
+
+const tileAt = (state: GameState, x: number, y: number) => state.tiles.find(t => t.x === x && t.y === y);
+
+const roomIds = (state: GameState) => Array.from(new Set(state.tiles.map(t => t.roomId)));
+
+const roomName = (state: GameState, roomId: string) => state.tiles.find(t => t.roomId === roomId)?.name || 'the dark';
+
+const inRoom = (state: GameState, roomId: string, token: Token) => tileAt(state, token.x, token.y)?.roomId === roomId;
+
+const isClosedDoor = (token: Token) => token.type === TokenType.Explore && !token.resolved && !token.locked;
+
+export const getCondition = (state: GameState, x: number, y: number): RoomCondition | undefined =>
+  tileAt(state, x, y)?.condition?.type;
+
+export const describeBoard = (state: GameState): MythosBoard => ({
+  rooms: roomIds(state).map(id => ({
+    name: roomName(state, id),
+    condition: state.tiles.find(t => t.roomId === id)?.condition?.type,
+    closedDoors: state.tokens.filter(t => isClosedDoor(t) && inRoom(state, id, t)).length
+  })),
+  monsters: state.monsters.map(m => ({ id: m.id, name: m.name, room: tileAt(state, m.x, m.y)?.name || 'the dark', health: m.health })),
+  investigators: state.players.map(p => ({
+    name: p.name,
+    room: tileAt(state, p.x, p.y)?.name || 'the dark',
+    health: p.health,
+    maxHealth: getMaxHealth(p),
+    sanity: p.sanity,
+    maxSanity: getMaxSanity(p)
+  }))
+});
+
+// --- Targets ---
+
+// The named room among the candidates, or one of them at random
+const findRoom = (state: GameState, name: string | undefined, rng: Rng, candidates = roomIds(state)): string | undefined => {
+  const wanted = normalize(name);
+  const named = wanted ? candidates.find(id => normalize(roomName(state, id)) === wanted) : undefined;
+  return named || (candidates.length > 0 ? rng.pick(candidates) : undefined);
+};
+
+const findByName = <T extends { id: string; name: string },>(list: T[], name: string | undefined, rng: Rng): T | undefined => {
+  const wanted = normalize(name);
+  const named = wanted ? list.find(x => normalize(x.id) === wanted || normalize(x.name) === wanted) : undefined;
+  return named || (list.length > 0 ? rng.pick(list) : undefined);
+};
+
+// The named template, or one of the tier the threat calls for
+const findTemplate = (name: string | undefined, threat: number, rng: Rng) => {
+  const wanted = normalize(name);
+  const named = wanted ? MONSTER_TEMPLATES.find(t => normalize(t.id) === wanted || normalize(t.name) === wanted) : undefined;
+  if (named) return named;
+  const tierTemplates = MONSTER_TEMPLATES.filter(m => m.tier === (threat > 6 ? 2 : 1));
+  return tierTemplates.length > 0 ? rng.pick(tierTemplates) : MONSTER_TEMPLATES[0];
+};
+
+// --- Effects ---
+
+const spawnMonster = (state: GameState, template: typeof MONSTER_TEMPLATES[number], tile: Tile, rng: Rng): { state: GameState; monster: Monster } => {
+  const monster: Monster = {
+    id: `m_${rng.id()}`,
+    templateId: template.id,
+    name: template.name,
+    health: scaleMonsterHealth(state, template.health),
+    maxHealth: scaleMonsterHealth(state, template.health),
+    damage: template.damage,
+    horror: template.horror,
+    tier: template.tier as Monster['tier'],
+    x: tile.x,
+    y: tile.y,
+    image: template.image
+  };
+  return { state: { ...state, monsters: [...state.monsters, monster] }, monster };
+};
+
+export interface EffectsOutcome {
+  state: GameState;
+  text: string[]; // One sentence per effect that changed the board
+  test?: { attribute: Attribute; playerIds: string[] }; // At most one test per event
+}
+
+const applyEffect = (outcome: EffectsOutcome, effect: MythosEffect, threat: number, rng: Rng): EffectsOutcome => {
+  const { state } = outcome;
+  const tilesOf = (roomId: string) => state.tiles.filter(t => t.roomId === roomId);
+
+  switch (effect.type) {
+    case 'SPAWN': {
+      const roomId = findRoom(state, effect.room, rng);
+      if (!roomId) return outcome;
+      const spawned = spawnMonster(state, findTemplate(effect.monster, threat, rng), rng.pick(tilesOf(roomId)), rng);
+      return { ...outcome, state: spawned.state, text: [...outcome.text, `A ${spawned.monster.name} appears in ${roomName(state, roomId)}!`] };
+    }
+    case 'LOCK_DOOR': {
+      const withDoors = roomIds(state).filter(id => state.tokens.some(t => isClosedDoor(t) && inRoom(state, id, t)));
+      const roomId = findRoom(state, effect.room, rng, withDoors);
+      if (!roomId) return outcome;
+      return {
+        ...outcome,
+        state: { ...state, tokens: state.tokens.map(t => isClosedDoor(t) && inRoom(state, roomId, t) ? { ...t, locked: true } : t) },
+        text: [...outcome.text, `The doors of ${roomName(state, roomId)} slam shut and lock.`]
+      };
+    }
+    case 'MOVE_MONSTER': {
+      const monster = findByName(state.monsters, effect.monster, rng);
+      const roomId = findRoom(state, effect.room, rng);
+      if (!monster || !roomId) return outcome;
+      const tile = rng.pick(tilesOf(roomId));
+      return {
+        ...outcome,
+        state: { ...state, monsters: state.monsters.map(m => m.id === monster.id ? { ...m, x: tile.x, y: tile.y } : m) },
+        text: [...outcome.text, `The ${monster.name} moves to ${tile.name}.`]
+      };
+    }
+    case 'TEST': {
+      const player = findByName(state.players, effect.investigator, rng);
+      if (!player || outcome.test) return outcome;
+      const attribute = parseAttribute(effect.attribute);
+      return { ...outcome, test: { attribute, playerIds: [player.id] }, text: [...outcome.text, `${player.name} must test ${attribute}.`] };
+    }
+    case 'CONDITION': {
+      const condition = effect.condition;
+      const roomId = findRoom(state, effect.room, rng);
+      if ((condition !== 'FIRE' && condition !== 'DARKNESS') || !roomId) return outcome;
+      return {
+        ...outcome,
+        state: { ...state, tiles: state.tiles.map(t => t.roomId === roomId ? { ...t, condition: { type: condition, until: state.round + CONDITION_ROUNDS } } : t) },
+        text: [...outcome.text, condition === 'FIRE' ? `Fire breaks out in ${roomName(state, roomId)}!` : `Darkness falls over ${roomName(state, roomId)}.`]
+      };
+    }
+    default:
+      return outcome;
+  }
+};
+
+export const applyMythosEffects = (state: GameState, effects: MythosEffect[], threat: number, rng: Rng): EffectsOutcome =>
+  effects.reduce<EffectsOutcome>((outcome, effect) => applyEffect(outcome, effect, threat, rng), { state, text: [] });
+
+// --- Conditions ---
+
+// Whoever stands in a fire when the Mythos phase begins is burned; then any
+// condition that has run its course ends
+export const resolveConditions = (state: GameState): EngineResult => {
+  const burning = state.players.filter(p => getCondition(state, p.x, p.y) === 'FIRE');
+  let result = burning.reduce(
+    (r, p) => andThen(log(r, `${p.name} is burned by the fire in ${tileAt(state, p.x, p.y)?.name}.`), s => applyDamage(s, p.id, 1, 0)),
+    done(state)
+  );
+
+  const ending = roomIds(result.state).filter(id => {
+    const condition = result.state.tiles.find(t => t.roomId === id)?.condition;
+    return condition && state.round >= condition.until;
+  });
+  if (ending.length === 0) return result;
+
+  ending.forEach(id => {
+    const type = result.state.tiles.find(t => t.roomId === id)!.condition!.type;
+    result = log(result, type === 'FIRE' ? `The fire in ${roomName(result.state, id)} burns out.` : `The darkness lifts from ${roomName(result.state, id)}.`, false);
+  });
+  return done({
+    ...result.state,
+    tiles: result.state.tiles.map(t => {
+      if (!ending.includes(t.roomId)) return t;
+      const { condition, ...rest } = t;
+      return rest;
+    })
+  }, result.events);
+};
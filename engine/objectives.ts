@@ -0,0 +1,74 @@
+import { GamePhase, GameState, Player, ScoreEntry, SecretObjective } from '../types';
+import { getScenario } from '../scenarios';
+import { EngineResult, done } from './events';
+import { updatePlayer } from './state';
+
+const GOALS: SecretObjective['goal'][] = ['HOARD_ITEMS', 'NO_SURVIVORS_IN_ROOM', 'ESCAPE_ALONE'];
+
+// Keeps what the narrative service wrote checkable: a known goal, a hoard
+// within reach, and no escape in scenarios that have none
+const toSecretObjective = (state: GameState, objective: SecretObjective): SecretObjective => {
+  let goal = GOALS.includes(objective.goal) ? objective.goal : 'HOARD_ITEMS';
+  if (goal === 'ESCAPE_ALONE' && getScenario(state.scenarioId).victory !== 'ESCAPE') goal = 'NO_SURVIVORS_IN_ROOM';
+
+  const result: SecretObjective = { goal, text: objective.text || '' };
+  if (goal === 'HOARD_ITEMS') result.count = Math.min(5, Math.max(1, Math.round(Number(objective.count)) || 3));
+  if (!result.text) result.text = describeObjective(result);
+  return result;
+};
+
+export const setSecretObjective = (state: GameState, playerId: string, objective: SecretObjective): EngineResult =>
+  done(updatePlayer(state, playerId, { secretObjective: toSecretObjective(state, objective) }));
+
+// The rule behind the flavour text, as shown to the investigator
+export const describeObjective = (objective: SecretObjective): string => {
+  switch (objective.goal) {
+    case 'HOARD_ITEMS': return `End the game carrying at least ${objective.count || 1} items.`;
+    case 'NO_SURVIVORS_IN_ROOM': return "End the game with no other investigator in your space.";
+    case 'ESCAPE_ALONE': return "Be the one to escape, with no other investigator in your space.";
+  }
+};
+
+const sharesSpace = (state: GameState, player: Player) =>
+  state.players.some(p => p.id !== player.id && p.x === player.x && p.y === player.y);
+
+export const isObjectiveMet = (state: GameState, player: Player): boolean => {
+  const objective = player.secretObjective;
+  if (!objective) return false;
+  switch (objective.goal) {
+    case 'HOARD_ITEMS': return player.items.length >= (objective.count || 1);
+    case 'NO_SURVIVORS_IN_ROOM': return !sharesSpace(state, player);
+    case 'ESCAPE_ALONE': return state.escapedBy === player.id && !sharesSpace(state, player);
+  }
+};
+
+// --- Scoreboard ---
+
+// Sane investigators share the team's fate; an insane one with an objective
+// wins or loses by it alone, whatever became of the others
+const scoreInvestigator = (state: GameState, player: Player): ScoreEntry => {
+  const entry = { playerId: player.id, name: player.name, objective: player.secretObjective?.text };
+
+  if (player.isInsane && player.secretObjective) {
+    const met = isObjectiveMet(state, player);
+    return { ...entry, won: met, reason: met ? "Fulfilled their secret objective." : "Failed their secret objective." };
+  }
+  const won = state.phase === GamePhase.Victory;
+  return { ...entry, won, reason: won ? "Survived the investigation." : "Was lost with the investigation." };
+};
+
+// Settles every investigator's result once, as the game ends
+export const scoreGame = (result: EngineResult): EngineResult => {
+  const state = result.state;
+  if ((state.phase !== GamePhase.Victory && state.phase !== GamePhase.GameOver) || state.scoreboard) return result;
+
+  const fallen: ScoreEntry[] = (state.eliminated || []).map(p => ({
+    playerId: p.id,
+    name: p.name,
+    won: false,
+    reason: "Succumbed to their wounds.",
+    objective: p.secretObjective?.text
+  }));
+  const scoreboard = [...state.players.map(p => scoreInvestigator(state, p)), ...fallen];
+  return { ...result, state: { ...state, scoreboard } };
+};
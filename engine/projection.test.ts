@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { NetworkMode, Token, TokenType } from '../types';
+import { countEvidencePoints, projectReplica, projectState, takeOver } from './projection';
+import { createPlayer, play, startGame } from './testing';
+
+describe('client projections', () => {
+  const state = startGame([
+    createPlayer('a', 'inv_1', { secretObjective: { goal: 'ESCAPE_ALONE', text: 'Leave them.' } }),
+    createPlayer('b', 'inv_2', { secretObjective: { goal: 'HOARD_ITEMS', count: 2, text: 'Keep it all.' } })
+  ], 1234);
+
+  it('keeps the seed and the generator state on the host', () => {
+    const view = projectState(state, 'a');
+    expect(view.seed).toBe(0);
+    expect(view.rngState).toBe(0);
+    expect(view.networkMode).toBe(NetworkMode.Client);
+  });
+
+  it("shows an investigator their own secrets and nobody else's", () => {
+    const view = projectState(state, 'a');
+    expect(view.players[0].secretObjective?.goal).toBe('ESCAPE_ALONE');
+    expect(view.players[1].secretObjective).toBeUndefined();
+  });
+});
+
+describe('host migration', () => {
+  const search = (id: string, overrides: Partial<Token> = {}): Token =>
+    ({ id, type: TokenType.Search, x: 0, y: 0, description: 'Desk', resolved: false, ...overrides });
+  const started = startGame([
+    createPlayer('a', 'inv_1', { secretObjective: { goal: 'ESCAPE_ALONE', text: 'Leave them.' } }),
+    createPlayer('b', 'inv_2', { secretObjective: { goal: 'HOARD_ITEMS', count: 2, text: 'Keep it all.' } })
+  ], 1234);
+  const state = play(
+    { ...started, tokens: [search('s1', { evidence: true }), search('s2', { hidden: true }), search('s3', { evidence: true })] },
+    { type: 'END_TURN' },
+    { type: 'END_TURN' }
+  );
+
+  it("keeps the narrator's requests off client projections", () => {
+    expect(state.pendingRequests).toHaveLength(1);
+    expect(projectState(state, 'a').pendingRequests).toBeUndefined();
+  });
+
+  it('gives the heir neither the generator nor the deck order', () => {
+    const replica = projectReplica(state, 'a');
+    expect(replica.seed).toBe(0);
+    expect(replica.rngState).toBe(0);
+    expect(replica.itemDeck).toEqual([...state.itemDeck].sort());
+    expect(replica.pendingRequests?.[0].type).toBe('REQUEST_MYTHOS');
+    expect(replica.pendingRequests?.[0].seed).toBeUndefined();
+  });
+
+  it("keeps the others' objectives and the evidence from the heir", () => {
+    const replica = projectReplica(state, 'a');
+    expect(replica.players[0].secretObjective?.goal).toBe('ESCAPE_ALONE');
+    expect(replica.players[1].secretObjective).toBeUndefined();
+    expect(replica.tokens.some(t => t.evidence)).toBe(false);
+    expect(countEvidencePoints(state)).toBe(2);
+  });
+
+  it('reseeds, reshuffles and hides the evidence again for the new host', () => {
+    const hosted = takeOver(projectReplica(state, 'a'), countEvidencePoints(state), 99);
+    expect(hosted.seed).toBe(99);
+    expect(hosted.rngState).not.toBe(0);
+    expect(hosted.networkMode).toBe(NetworkMode.Host);
+    expect([...hosted.itemDeck].sort()).toEqual([...state.itemDeck].sort());
+    expect(hosted.tokens.map(t => t.id)).toEqual(['s1', 's2', 's3']);
+    expect(hosted.tokens.filter(t => t.evidence)).toHaveLength(2);
+  });
+});
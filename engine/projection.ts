@@ -0,0 +1,84 @@
+import { GameState, NetworkMode, Player, Token, TokenType } from '../types';
+import { hasAbility } from './abilities';
+import { createRng } from './rng';
+
+// Stands in for a card whose face the viewer may not see
+const HIDDEN_CARD = '?';
+
+// --- Hidden Information ---
+
+// What only the investigator themself may know
+const hidePrivate = (player: Player): Player => {
+  if (!player.secretObjective) return player;
+  const { secretObjective, ...rest } = player;
+  return rest;
+};
+
+// Hidden search points stay off the board and nobody knows which point holds
+// the evidence until it is searched
+const isVisible = (token: Token) => !token.hidden;
+const hideContents = (token: Token): Token => {
+  if (!token.evidence) return token;
+  const { evidence, ...rest } = token;
+  return rest;
+};
+
+// Keeps the size of the deck but not its order, except the top card for an
+// investigator whose ability lets them look at it
+const hideDeck = (deck: string[], viewer: Player | undefined) =>
+  deck.map((item, i) => i === deck.length - 1 && hasAbility(viewer, 'BURY_ITEM') ? item : HIDDEN_CARD);
+
+// --- Projection ---
+
+// The state as one client may see it. The host keeps the full state and sends
+// each connection its own projection, so secrets stay with the host. A new
+// kind of hidden information gets its rule here, and in projectReplica.
+export const projectState = (state: GameState, viewerId: string | undefined): GameState => {
+  const viewer = state.players.find(p => p.id === viewerId);
+  return {
+    ...state,
+    networkMode: NetworkMode.Client,
+    players: state.players.map(p => p.id === viewerId ? p : hidePrivate(p)),
+    eliminated: (state.eliminated || []).map(p => p.id === viewerId ? p : hidePrivate(p)),
+    tokens: state.tokens.filter(isVisible).map(hideContents),
+    activePuzzle: state.activePuzzle && { ...state.activePuzzle, token: hideContents(state.activePuzzle.token) },
+    itemDeck: hideDeck(state.itemDeck, viewer),
+    // The generator steps from the seed by a fixed constant, so either one
+    // would let a client predict every roll, draw and Mythos event
+    seed: 0,
+    rngState: 0,
+    pendingRequests: undefined // Only the host asks the narrator
+  };
+};
+
+// --- Host Migration ---
+
+// The state the heir keeps to carry the game on should the host vanish. It
+// holds no more secrets than the heir's own projection: whatever the new host
+// can make afresh is left out and made again on takeover (see takeOver), and
+// the other investigators' objectives come back as their clients resume.
+export const projectReplica = (state: GameState, heirId: string): GameState => ({
+  ...state,
+  players: state.players.map(p => p.id === heirId ? p : hidePrivate(p)),
+  eliminated: state.eliminated && state.eliminated.map(p => p.id === heirId ? p : hidePrivate(p)),
+  tokens: state.tokens.map(hideContents),
+  activePuzzle: state.activePuzzle && { ...state.activePuzzle, token: hideContents(state.activePuzzle.token) },
+  seed: 0,
+  rngState: 0,
+  itemDeck: [...state.itemDeck].sort(),
+  pendingRequests: state.pendingRequests?.map(({ seed, ...request }) => request)
+});
+
+// How many unsearched points hold evidence, for takeOver to hide again
+export const countEvidencePoints = (state: GameState): number =>
+  state.tokens.filter(t => t.evidence).length;
+
+// The replica as the new host plays it on, from a seed of its own: the deck
+// is reshuffled and the evidence hidden anew among the unsearched points
+export const takeOver = (replica: GameState, evidencePoints: number, seed: number): GameState => {
+  const rng = createRng(seed);
+  const itemDeck = rng.shuffle(replica.itemDeck);
+  const holders = rng.shuffle(replica.tokens.filter(t => t.type === TokenType.Search)).slice(0, evidencePoints).map(t => t.id);
+  const tokens = replica.tokens.map(t => holders.includes(t.id) ? { ...t, evidence: true } : t);
+  return { ...replica, seed, rngState: rng.state, itemDeck, tokens, networkMode: NetworkMode.Host };
+};
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { DiceFace, GamePhase, GameState, TokenType } from '../types';
+import { GameAction } from './actions';
+import { reduce } from './reducer';
+import { replay } from './replay';
+import { createInitialState, getCurrentPlayer } from './state';
+import { createMonster, createPlayer, play, startGame, withRoll } from './testing';
+
+describe('registration', () => {
+  it('builds the investigator from its template, whatever else the client sends', () => {
+    const forged = createPlayer('a', 'inv_1', { items: ['Tommy Gun'], clues: 9, resources: 9, health: NaN, attributes: { ...createPlayer('x').attributes, Strength: 9 } });
+    const [player] = play(createInitialState(1), { type: 'REGISTER_PLAYER', player: forged }).players;
+    expect(player).toMatchObject({ ...createPlayer('a'), isReady: false });
+    expect(player.resources).toBeUndefined();
+  });
+
+  it('turns away investigators that do not exist', () => {
+    const state = createInitialState(1);
+    expect(reduce(state, { type: 'REGISTER_PLAYER', player: { id: 'a', name: 'a', investigatorId: 'inv_99', color: '' } }).state).toBe(state);
+  });
+});
+
+describe('turn order', () => {
+  it('passes the turn along and begins the Mythos phase after the last investigator', () => {
+    let state = startGame([createPlayer('a'), createPlayer('b')]);
+    const round = state.round;
+    expect(state.phase).toBe(GamePhase.Playing);
+    expect(state.currentPlayerIndex).toBe(0);
+
+    state = play(state, { type: 'END_TURN' });
+    expect(state.currentPlayerIndex).toBe(1);
+
+    state = play(state, { type: 'END_TURN' });
+    expect(state.phase).toBe(GamePhase.Mythos);
+    expect(state.round).toBe(round + 1);
+  });
+
+  it('passes over investigators who are away', () => {
+    const state = startGame([createPlayer('a'), createPlayer('b', 'inv_2', { disconnected: true }), createPlayer('c', 'inv_3')]);
+    expect(play(state, { type: 'END_TURN' }).currentPlayerIndex).toBe(2);
+  });
+
+  it('only lets the current investigator act', () => {
+    const state = startGame([createPlayer('a'), createPlayer('b', 'inv_2')]);
+    expect(reduce(state, { type: 'END_MYTHOS' }).state).toBe(state);
+  });
+
+  it('keeps items for the investigators\' turns', () => {
+    const wounded = { health: 1, items: ['Bandages'] };
+    let state = startGame([createPlayer('a', 'inv_1', wounded)]);
+    state = play(state, { type: 'END_TURN' });
+    expect(state.phase).toBe(GamePhase.Mythos);
+    expect(reduce(state, { type: 'USE_ITEM', item: 'Bandages' }).state).toBe(state);
+
+    state = play(state, { type: 'END_MYTHOS' }, { type: 'USE_ITEM', item: 'Bandages' });
+    expect(state.players[0].items).not.toContain('Bandages');
+  });
+});
+
+describe('Mythos tests', () => {
+  const TEST = { type: 'MYTHOS_GENERATED' as const, event: { narrative: 'The walls whisper.', type: 'TEST' as const, param: 'Will' } };
+
+  it('spares investigators who are away', () => {
+    let state = startGame([createPlayer('a'), createPlayer('b', 'inv_2'), createPlayer('c', 'inv_3')]);
+    state = play(state, { type: 'END_TURN' }, { type: 'END_TURN' }, { type: 'END_TURN' }, { type: 'SET_CONNECTED', playerId: 'b', connected: false }, TEST);
+    expect(state.activeDiceRoll?.playerId).toBe('a');
+
+    state = play(state, { type: 'ROLL_DICE' }, { type: 'CONFIRM_ROLL' });
+    expect(state.activeDiceRoll?.playerId).toBe('c');
+  });
+
+  it('ends the test once everyone left to roll is away', () => {
+    let state = startGame([createPlayer('a'), createPlayer('b', 'inv_2')]);
+    state = play(state, { type: 'END_TURN' }, { type: 'END_TURN' }, { type: 'SET_CONNECTED', playerId: 'b', connected: false }, TEST);
+    state = play(state, { type: 'ROLL_DICE' }, { type: 'CONFIRM_ROLL' });
+    expect(state.phase).toBe(GamePhase.Mythos);
+    expect(state.activeDiceRoll).toBeUndefined();
+  });
+});
+
+describe('elimination', () => {
+  const FAILED = [DiceFace.Blank, DiceFace.Blank];
+
+  // The named investigator, already Wounded and on their last health, fails
+  // to evade a monster on their own turn
+  const failEvade = (playerIds: string[], victimId: string) => {
+    const players = playerIds.map((id, i) => createPlayer(id, `inv_${i + 1}`, id === victimId ? { isWounded: true, health: 1 } : {}));
+    let state = startGame(players);
+    while (getCurrentPlayer(state)!.id !== victimId) state = play(state, { type: 'END_TURN' });
+    state = { ...state, monsters: [createMonster('m1', { damage: 2 })] };
+    return play(withRoll(state, victimId, { type: 'EVADE', monsterId: 'm1' }, FAILED), { type: 'CONFIRM_ROLL' });
+  };
+
+  it('begins the Mythos phase when the last investigator in turn order is eliminated', () => {
+    const state = failEvade(['a', 'b'], 'b');
+    expect(state.players.map(p => p.id)).toEqual(['a']);
+    expect(state.eliminated.map(p => p.id)).toEqual(['b']);
+    expect(state.phase).toBe(GamePhase.Mythos);
+  });
+
+  it('passes the turn to the next investigator when the current one is eliminated', () => {
+    const state = failEvade(['a', 'b', 'c'], 'a');
+    expect(state.phase).toBe(GamePhase.Playing);
+    expect(getCurrentPlayer(state)?.id).toBe('b');
+    expect(getCurrentPlayer(state)?.actionsRemaining).toBeGreaterThan(0);
+    expect(play(state, { type: 'END_TURN' }).currentPlayerIndex).toBe(1);
+  });
+
+  it('ends the game when the only investigator is eliminated', () => {
+    const state = failEvade(['a'], 'a');
+    expect(state.players).toEqual([]);
+    expect(state.phase).toBe(GamePhase.GameOver);
+  });
+});
+
+describe('narrative requests', () => {
+  it('remembers what the narrator was asked until it answers', () => {
+    let state = play(startGame([createPlayer('a')]), { type: 'END_TURN' });
+    expect(state.phase).toBe(GamePhase.Mythos);
+    expect(state.pendingRequests?.map(r => r.type)).toEqual(['REQUEST_MYTHOS']);
+
+    state = play(state, { type: 'END_MYTHOS' });
+    expect(state.pendingRequests).toBeUndefined();
+  });
+});
+
+describe('rooms', () => {
+  const ROOM = { name: 'Parlour', description: 'Dust sheets over everything.', visualType: 'hallway', searchPoints: [] };
+
+  it('places one room when a door and the Sight token looking through it are both answered', () => {
+    const started = startGame([createPlayer('a')]);
+    const { x, y } = getCurrentPlayer(started)!;
+    // Somewhere off the starting rooms
+    const far = { x: x + 10, y };
+    const state: GameState = {
+      ...started,
+      players: started.players.map(p => ({ ...p, ...far })),
+      tokens: [
+        { id: 'door', type: TokenType.Explore, ...far, description: 'Door', resolved: false, direction: 'East' },
+        { id: 'sight', type: TokenType.Sight, ...far, description: 'Keyhole', resolved: false, direction: 'East' }
+      ]
+    };
+
+    const after = play(state, { type: 'ROOM_GENERATED', tokenId: 'door', room: ROOM }, { type: 'ROOM_GENERATED', tokenId: 'sight', room: ROOM });
+    expect(after.tiles.filter(t => t.x === far.x + 1 && t.y === far.y)).toHaveLength(1);
+    expect(after.tiles).toHaveLength(state.tiles.length + 1);
+    expect(after.tokens.find(t => t.id === 'sight')?.resolved).toBe(true);
+  });
+});
+
+describe('replay', () => {
+  it('rebuilds the same game from the seed and the actions', () => {
+    const actions: GameAction[] = [
+      { type: 'REGISTER_PLAYER', player: createPlayer('a') },
+      { type: 'REGISTER_PLAYER', player: createPlayer('b', 'inv_2') },
+      { type: 'BEGIN_ITEM_DISTRIBUTION' },
+      { type: 'START_GAME', intro: { title: 'Test', introText: 'A test begins.', startingRoomDescription: '' } },
+      { type: 'END_TURN' },
+      { type: 'END_TURN' }
+    ];
+    const once = replay(5, actions);
+    expect(once.state.phase).toBe(GamePhase.Mythos);
+    expect(replay(5, actions)).toEqual(once);
+  });
+});
@@ -0,0 +1,153 @@
+import { ActionContext, GamePhase, GameState } from '../types';
+import { GameAction } from './actions';
+import { EngineResult, NarrativeRequestEvent, done } from './events';
+import { scoreGame, setSecretObjective } from './objectives';
+import { assignItem, beginItemDistribution, registerPlayer, setReady, startGame } from './setup';
+import { interactToken, narrateInvestigation, placeRoom, resolveForceDoor, resolveSearch, resolveSight, studyPuzzle } from './tokens';
+import { chooseDialogue, openInteraction, resolveInteraction } from './interactions';
+import { attackMonster, evadeMonster, resolveCombat, resolveEvade } from './combat';
+import { useItem } from './items';
+import { getRollSuccesses, rollActiveDice, spendClue, useDiceItem } from './dice';
+import { useAbility } from './abilities';
+import { proposeTrade, respondToTrade } from './trade';
+import { applyMythosEvent, endMythos, endTurn, movePlayer, passEliminatedTurn, resolveMythosTest, setConnected } from './turns';
+import { checkBossBanished } from './scenario';
+import { Rng, createRng } from './rng';
+import { SCENARIOS } from '../scenarios';
+
+// The single entry point of the rules. Pure: it never touches React, the
+// network or the narrative service, it only returns the next state and the
+// side effects the caller should perform. All randomness comes from the
+// seeded generator stored in the state.
+export const reduce = (state: GameState, action: GameAction): EngineResult => {
+  const rng = createRng(state.rngState);
+  const result = trackRequests(action, seedRequests(scoreGame(checkBossBanished(passEliminatedTurn(state, applyAction(state, action, rng), rng))), rng));
+  if (result.state.rngState === rng.state) return result;
+  return { state: { ...result.state, rngState: rng.state }, events: result.events };
+};
+
+const seedRequests = (result: EngineResult, rng: Rng): EngineResult => ({
+  state: result.state,
+  events: result.events.map(e => e.type === 'NARRATE' ? e : { ...e, seed: rng.int(0x7fffffff) })
+});
+
+// --- Narrative Requests ---
+
+// Whether the action is the narrator's answer to the request (or, for the
+// Mythos phase, the host giving up on one)
+const answers = (action: GameAction, request: NarrativeRequestEvent): boolean => {
+  switch (request.type) {
+    case 'REQUEST_ROOM': return action.type === 'ROOM_GENERATED' && action.tokenId === request.tokenId;
+    case 'REQUEST_INVESTIGATION': return action.type === 'INVESTIGATION_NARRATED' && action.outcome.tokenId === request.outcome.tokenId;
+    case 'REQUEST_INTERACTION': return action.type === 'INTERACTION_GENERATED' && action.tokenId === request.tokenId;
+    case 'REQUEST_MYTHOS': return action.type === 'MYTHOS_GENERATED' || action.type === 'END_MYTHOS';
+    case 'REQUEST_INSANITY': return action.type === 'SECRET_OBJECTIVE_GENERATED' && action.playerId === request.playerId;
+  }
+};
+
+// Requests stay on record until they are answered, so that a host taking over
+// the game or a restored save can ask again
+const trackRequests = (action: GameAction, result: EngineResult): EngineResult => {
+  const pending = result.state.pendingRequests || [];
+  const asked = result.events.filter((e): e is NarrativeRequestEvent => e.type !== 'NARRATE');
+  const open = [...pending.filter(r => !answers(action, r)), ...asked];
+  if (asked.length === 0 && open.length === pending.length) return result;
+  return { state: { ...result.state, pendingRequests: open.length > 0 ? open : undefined }, events: result.events };
+};
+
+const applyAction = (state: GameState, action: GameAction, rng: Rng): EngineResult => {
+  switch (action.type) {
+    case 'REGISTER_PLAYER':
+      if (state.phase !== GamePhase.Lobby) return done(state);
+      return registerPlayer(state, action.player);
+    case 'SET_READY':
+      return setReady(state, action.playerId, action.isReady);
+    case 'SET_SEED':
+      if (state.phase !== GamePhase.Lobby) return done(state);
+      return done({ ...state, seed: action.seed >>> 0, rngState: action.seed >>> 0 });
+    case 'SET_CONNECTED':
+      return setConnected(state, action.playerId, action.connected);
+    case 'SET_DIFFICULTY':
+      if (state.phase !== GamePhase.Lobby) return done(state);
+      return done({ ...state, difficulty: action.difficulty });
+    case 'SET_SCENARIO':
+      if (state.phase !== GamePhase.Lobby || !SCENARIOS.some(s => s.id === action.scenarioId)) return done(state);
+      return done({ ...state, scenarioId: action.scenarioId });
+    case 'BEGIN_ITEM_DISTRIBUTION':
+      if (state.phase !== GamePhase.Lobby || state.players.length === 0) return done(state);
+      return beginItemDistribution(state, rng);
+    case 'ASSIGN_ITEM':
+      if (state.phase !== GamePhase.ItemDistribution) return done(state);
+      return assignItem(state, action.itemIndex, action.playerId);
+    case 'START_GAME':
+      if (state.phase !== GamePhase.ItemDistribution) return done(state);
+      return startGame(state, action.intro, rng);
+
+    case 'MOVE':
+      return movePlayer(state, action.tileId);
+    case 'INTERACT_TOKEN':
+      return interactToken(state, action.tokenId, rng);
+    case 'ATTACK':
+      return attackMonster(state, action.monsterId);
+    case 'EVADE':
+      return evadeMonster(state, action.monsterId);
+    case 'USE_ITEM':
+      return useItem(state, action.item);
+    case 'CHOOSE_DIALOGUE':
+      return chooseDialogue(state, action.choiceIndex);
+    case 'USE_ABILITY':
+      return useAbility(state, action.playerId, action.use, rng);
+    case 'COMPLETE_PUZZLE':
+      if (state.phase !== GamePhase.Puzzle || !state.activePuzzle) return done(state);
+      return resolveTask(state, state.activePuzzle.context, action.success, rng);
+    case 'STUDY_PUZZLE':
+      return studyPuzzle(state);
+    case 'PROPOSE_TRADE':
+      return proposeTrade(state, action.offer);
+    case 'RESPOND_TRADE':
+      return respondToTrade(state, action.playerId, action.accept);
+    case 'END_TURN':
+      return endTurn(state, rng);
+    case 'END_MYTHOS':
+      return endMythos(state);
+
+    case 'ROLL_DICE':
+      return rollActiveDice(state, rng);
+    case 'SPEND_CLUE':
+      return spendClue(state, action.dieIndex);
+    case 'USE_DICE_ITEM':
+      return useDiceItem(state, action.item);
+    case 'CONFIRM_ROLL': {
+      const roll = state.activeDiceRoll;
+      if (state.phase !== GamePhase.DiceRoll || !roll?.faces) return done(state);
+      return resolveTask(state, roll.context, getRollSuccesses(roll) >= roll.target, rng);
+    }
+
+    case 'ROOM_GENERATED':
+      return placeRoom(state, action.tokenId, action.room, rng);
+    case 'INVESTIGATION_NARRATED':
+      return narrateInvestigation(state, action.outcome, action.narrative);
+    case 'INTERACTION_GENERATED':
+      return openInteraction(state, action.tokenId, action.interaction);
+    case 'MYTHOS_GENERATED':
+      return applyMythosEvent(state, action.event, rng);
+    case 'SECRET_OBJECTIVE_GENERATED':
+      return setSecretObjective(state, action.playerId, action.objective);
+
+    default:
+      return done(state);
+  }
+};
+
+// Applies the outcome of a finished dice roll or puzzle. Success is always
+// decided here from the state, never taken from the roller's machine.
+const resolveTask = (state: GameState, context: ActionContext, success: boolean, rng: Rng): EngineResult => {
+  if (context.type === 'SEARCH') return resolveSearch(state, context.tokenId, success, rng);
+  if (context.type === 'COMBAT') return resolveCombat(state, context.monsterId, success, context.damage);
+  if (context.type === 'EVADE') return resolveEvade(state, context.monsterId, success);
+  if (context.type === 'INTERACT') return resolveInteraction(state, context.tokenId, context.choiceIndex, success);
+  if (context.type === 'SIGHT') return resolveSight(state, context.tokenId, success, rng);
+  if (context.type === 'MYTHOS_TEST') return resolveMythosTest(state, context.playerIds, success);
+  if (context.type === 'FORCE_DOOR') return resolveForceDoor(state, context.tokenId, success);
+  return done(state);
+};
@@ -0,0 +1,16 @@
+import { GameState } from '../types';
+import { GameAction } from './actions';
+import { GameEvent } from './events';
+import { reduce } from './reducer';
+import { createInitialState } from './state';
+
+// Rebuilds a game from its seed and the exact actions the host reduced,
+// narrative results included. Used for bug reports and balance runs.
+export const replay = (seed: number, actions: GameAction[]): { state: GameState; events: GameEvent[] } =>
+  actions.reduce<{ state: GameState; events: GameEvent[] }>(
+    (acc, action) => {
+      const next = reduce(acc.state, action);
+      return { state: next.state, events: [...acc.events, ...next.events] };
+    },
+    { state: createInitialState(seed), events: [] }
+  );
@@ -0,0 +1,45 @@
+// Seedable PRNG (mulberry32). The whole generator state is a single uint32
+// kept in GameState.rngState, so a game can be replayed exactly from its seed
+// and the list of actions fed to reduce().
+
+export interface Rng {
+  next: () => number; // [0, 1)
+  int: (max: number) => number; // [0, max)
+  pick: <T>(list: T[]) => T;
+  shuffle: <T>(list: T[]) => T[];
+  id: () => string; // Short deterministic id fragment
+  readonly state: number;
+}
+
+export const createRng = (seed: number): Rng => {
+  let s = seed >>> 0;
+
+  const next = () => {
+    s = (s + 0x6D2B79F5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (max: number) => Math.floor(next() * max);
+
+  return {
+    next,
+    int,
+    pick: <T,>(list: T[]) => list[int(list.length)],
+    shuffle: <T,>(list: T[]) => {
+      const out = [...list];
+      for (let i = out.length - 1; i > 0; i--) {
+        const j = int(i + 1);
+        [out[i], out[j]] = [out[j], out[i]];
+      }
+      return out;
+    },
+    id: () => int(0x7fffffff).toString(36),
+    get state() { return s; }
+  };
+};
+
+// Fresh seed for a new game. Only hosts call this; everything downstream is derived.
+export const randomSeed = () => Math.floor(Math.random() * 0x100000000) >>> 0;
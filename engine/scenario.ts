@@ -0,0 +1,69 @@
+import { GamePhase, GameState, Monster, MythosResult, Scenario, Tile } from '../types';
+import { MONSTER_TEMPLATES } from '../constants';
+import { getScenario } from '../scenarios';
+import { EngineResult, done, emit, log } from './events';
+import { formatRoomName, getDifficulty, scaleMonsterHealth } from './state';
+import { Rng } from './rng';
+
+const isBoss = (m: Monster) => m.id.startsWith('boss_');
+
+// The scenario's boss, on its authored room when that has been explored
+export const createBoss = (state: GameState, rng: Rng): Monster => {
+  const { boss } = getScenario(state.scenarioId);
+  const template = MONSTER_TEMPLATES.find(m => m.id === boss.templateId)
+    || MONSTER_TEMPLATES.find(m => m.tier === 3)
+    || MONSTER_TEMPLATES[MONSTER_TEMPLATES.length - 1];
+
+  const lair = boss.spawnRoom ? state.tiles.filter(t => t.name === formatRoomName(boss.spawnRoom!)) : [];
+  const tile: Tile = rng.pick(lair.length > 0 ? lair : state.tiles);
+  const health = scaleMonsterHealth(state, template.health + state.players.length * boss.healthPerInvestigator);
+
+  return {
+    id: `boss_${rng.id()}`,
+    templateId: template.id,
+    name: boss.name || template.name,
+    tier: 3,
+    health,
+    maxHealth: health,
+    damage: template.damage + (boss.damageBonus || 0),
+    horror: template.horror + (boss.horrorBonus || 0),
+    x: tile.x,
+    y: tile.y,
+    image: template.image
+  };
+};
+
+// Scenarios won by destroying the boss end as soon as the finale's boss is
+// gone, whichever rule removed it
+export const checkBossBanished = (result: EngineResult): EngineResult => {
+  const state = result.state;
+  const scenario = getScenario(state.scenarioId);
+  if (scenario.victory !== 'BANISH_BOSS' || !state.isEscapeOpen) return result;
+  if (state.phase === GamePhase.Victory || state.phase === GamePhase.GameOver || state.monsters.some(isBoss)) return result;
+
+  return emit(done({ ...state, phase: GamePhase.Victory }, result.events), { type: 'NARRATE', text: scenario.victoryText });
+};
+
+// --- Doom ---
+
+export const getDoomLimit = (scenario: Scenario, state: GameState) =>
+  Math.max(1, Math.round(scenario.doomLimit * getDifficulty(state).doomScale));
+
+// Moves the doom clock on; the investigation is lost once it fills
+export const advanceDoom = (state: GameState, amount: number): EngineResult => {
+  if (amount <= 0) return done(state);
+  const doom = Math.min(state.doomLimit, state.doom + amount);
+  if (doom < state.doomLimit) return done({ ...state, doom });
+
+  const { defeatText } = getScenario(state.scenarioId);
+  return log(done({ ...state, doom, phase: GamePhase.GameOver }), `THE DOOM CLOCK STRIKES: ${defeatText}`);
+};
+
+// The scenario's event for this round, if it authors one: a scripted event
+// first, then a draw from its deck
+export const drawMythos = (state: GameState, round: number, rng: Rng): MythosResult | undefined => {
+  const { mythos } = getScenario(state.scenarioId);
+  if (!mythos) return undefined;
+  if (mythos.scripted?.[round]) return mythos.scripted[round];
+  return mythos.deck && mythos.deck.length > 0 ? rng.pick(mythos.deck) : undefined;
+};
@@ -0,0 +1,222 @@
+import { Attribute, GamePhase, GameState, IntroResult, Player, PlayerRegistration, Tile, Token, TokenType } from '../types';
+import { INVESTIGATOR_TEMPLATES, ITEMS, STARTING_ITEMS, generateRoomImage } from '../constants';
+import { EngineResult, done, log } from './events';
+import { formatRoomName, getDifficulty } from './state';
+import { STARTING_RESOURCES, hasAbility, hasRoomInHand } from './abilities';
+import { getScenario } from '../scenarios';
+import { getDoomLimit } from './scenario';
+import { Rng } from './rng';
+import { createStory } from './memory';
+
+type Direction = NonNullable<Token['direction']>;
+
+const DIRECTIONS: Direction[] = ['North', 'South', 'East', 'West'];
+
+export const getVector = (d: string) => {
+  if (d === 'North') return { x: 0, y: -1 };
+  if (d === 'South') return { x: 0, y: 1 };
+  if (d === 'East') return { x: 1, y: 0 };
+  if (d === 'West') return { x: -1, y: 0 };
+  return { x: 0, y: 0 };
+};
+
+export const inverseDirection = (d: string): Direction =>
+  d === 'North' ? 'South' : d === 'South' ? 'North' : d === 'East' ? 'West' : 'East';
+
+// --- Lobby ---
+
+// Only the choices are taken from the joining player; the investigator starts
+// as their template says, whatever else a client might send along
+export const registerPlayer = (state: GameState, registration: PlayerRegistration): EngineResult => {
+  const template = INVESTIGATOR_TEMPLATES.find(t => t.id === registration.investigatorId);
+  if (!template) return done(state);
+
+  const { id, name, investigatorId, color } = registration;
+  const existing = state.players.find(p => p.id === id);
+  const player: Player = {
+    id,
+    name,
+    investigatorId,
+    color,
+    clues: 1,
+    items: [],
+    health: template.health,
+    sanity: template.sanity,
+    attributes: { ...template.attributes },
+    image: template.image,
+    x: 0,
+    y: 0,
+    movesRemaining: 2,
+    actionsRemaining: 2,
+    isWounded: false,
+    isInsane: false,
+    usedItemAbilityRound: false,
+    isReady: existing ? existing.isReady : false
+  };
+
+  const existsIndex = state.players.findIndex(p => p.id === player.id);
+  const players = existsIndex !== -1
+    ? state.players.map((p, i) => i === existsIndex ? player : p)
+    : [...state.players, player];
+
+  return log(done({ ...state, players }), `${player.name} has joined the roster.`);
+};
+
+export const setReady = (state: GameState, playerId: string, isReady: boolean): EngineResult =>
+  done({
+    ...state,
+    players: state.players.map(p => p.id === playerId ? { ...p, isReady } : p)
+  });
+
+// --- Item Distribution ---
+
+export const beginItemDistribution = (state: GameState, rng: Rng): EngineResult => {
+  const numItemsToGenerate = state.players.length + getDifficulty(state).extraStartingItems;
+
+  const allItemKeys = Object.keys(ITEMS);
+  const weapons = allItemKeys.filter(k => ITEMS[k].type === 'Weapon');
+  const others = allItemKeys.filter(k => ITEMS[k].type !== 'Weapon');
+
+  const draw = (pool: string[]) => pool.splice(rng.int(pool.length), 1)[0];
+
+  const selected: string[] = [];
+  const maxWeapons = Math.ceil(numItemsToGenerate * 0.3);
+
+  for (let i = 0; i < maxWeapons && weapons.length > 0; i++) {
+    selected.push(draw(weapons));
+  }
+
+  while (selected.length < numItemsToGenerate) {
+    if (others.length > 0) selected.push(draw(others));
+    else if (weapons.length > 0) selected.push(draw(weapons));
+    else break;
+  }
+
+  return done({
+    ...state,
+    phase: GamePhase.ItemDistribution,
+    distributionItems: rng.shuffle(selected)
+  });
+};
+
+export const assignItem = (state: GameState, itemIndex: number, playerId: string): EngineResult => {
+  const item = state.distributionItems[itemIndex];
+  const player = state.players.find(p => p.id === playerId);
+  if (!item || !player) return done(state);
+  if (!hasRoomInHand(player)) return log(done(state), `${player.name} cannot carry any more.`, false);
+
+  return done({
+    ...state,
+    distributionItems: state.distributionItems.filter((_, i) => i !== itemIndex),
+    players: state.players.map(p => p.id === playerId ? { ...p, items: [...p.items, item] } : p)
+  });
+};
+
+// --- Starting Map ---
+
+const buildStartingMap = (startingRoomDescription: string, searchDifficulty: number, rng: Rng) => {
+  const hallDir = rng.pick(DIRECTIONS);
+  let parlorDir = rng.pick(DIRECTIONS);
+  while (parlorDir === hallDir || parlorDir === inverseDirection(hallDir)) {
+    parlorDir = rng.pick(DIRECTIONS);
+  }
+
+  const hV = getVector(hallDir);
+  const pV = getVector(parlorDir);
+
+  const h1x = hV.x, h1y = hV.y;
+  const h2x = hV.x * 2, h2y = hV.y * 2;
+  const hallMinX = Math.min(h1x, h2x);
+  const hallMinY = Math.min(h1y, h2y);
+
+  const p1x = pV.x, p1y = pV.y;
+  const p2x = pV.x * 2, p2y = pV.y * 2;
+  const parlorMinX = Math.min(p1x, p2x);
+  const parlorMinY = Math.min(p1y, p2y);
+
+  const foyerImg = generateRoomImage(`Foyer, ${startingRoomDescription}, doors on the ${hallDir} and ${parlorDir} walls, square room`, 1, 1, rng.int(100000));
+  const hallImg = generateRoomImage(`Grand Hall, A long rectangular corridor lined with portraits, containing a Strange Painting, door on the ${inverseDirection(hallDir)} wall, detailed floor plan`, 2, 1, rng.int(100000)); // Approx
+  const parlorImg = generateRoomImage(`The Parlor, cozy with a fireplace and armchairs, rug on floor, tea table, door on the ${inverseDirection(parlorDir)} wall, detailed floor plan`, 2, 1, rng.int(100000)); // Approx
+
+  const foyer: Tile = {
+    id: 'tile_start', roomId: 'room_start_mansion', name: formatRoomName('Foyer'), description: startingRoomDescription,
+    x: 0, y: 0, imageType: 'hallway', roomImage: foyerImg, roomX: 0, roomY: 0, roomWidth: 1, roomHeight: 1
+  };
+
+  const hallRoomId = 'room_start_hall';
+  const hallTile1: Tile = { id: 'tile_hall_1', roomId: hallRoomId, name: formatRoomName('Grand Hall'), description: "A long corridor lined with portraits.", x: h1x, y: h1y, imageType: 'hallway', roomImage: hallImg, roomX: hallMinX, roomY: hallMinY, roomWidth: 2, roomHeight: 2 };
+  const hallTile2: Tile = { id: 'tile_hall_2', roomId: hallRoomId, name: formatRoomName('Grand Hall'), description: "A long corridor lined with portraits.", x: h2x, y: h2y, imageType: 'hallway', roomImage: hallImg, roomX: hallMinX, roomY: hallMinY, roomWidth: 2, roomHeight: 2 };
+
+  const parlorRoomId = 'room_start_parlor';
+  const parlorTile1: Tile = { id: 'tile_parlor_1', roomId: parlorRoomId, name: formatRoomName('Parlor'), description: "A quiet sitting room.", x: p1x, y: p1y, imageType: 'study', roomImage: parlorImg, roomX: parlorMinX, roomY: parlorMinY, roomWidth: 2, roomHeight: 2 };
+  const parlorTile2: Tile = { id: 'tile_parlor_2', roomId: parlorRoomId, name: formatRoomName('Parlor'), description: "A quiet sitting room.", x: p2x, y: p2y, imageType: 'study', roomImage: parlorImg, roomX: parlorMinX, roomY: parlorMinY, roomWidth: 2, roomHeight: 2 };
+
+  const tiles = [foyer, hallTile1, hallTile2, parlorTile1, parlorTile2];
+  const tokens: Token[] = [];
+
+  tokens.push({ id: 't_search_foyer', type: TokenType.Search, x: 0, y: 0, description: 'Coat Rack', resolved: false, requiredAttribute: Attribute.Observation, difficulty: searchDifficulty });
+  tokens.push({ id: 't_search_hall_1', type: TokenType.Search, x: h1x, y: h1y, description: 'Bust of Ancestor', resolved: false, requiredAttribute: Attribute.Lore, difficulty: searchDifficulty });
+  tokens.push({ id: 't_search_hall_2', type: TokenType.Search, x: h2x, y: h2y, description: 'Strange Painting', resolved: false, requiredAttribute: Attribute.Observation, difficulty: Math.min(3, searchDifficulty + 1) });
+  tokens.push({ id: 't_search_parlor_1', type: TokenType.Search, x: p1x, y: p1y, description: 'Coffee Table', resolved: false, requiredAttribute: Attribute.Observation, difficulty: searchDifficulty });
+  tokens.push({ id: 't_search_parlor_2', type: TokenType.Search, x: p2x, y: p2y, description: 'Bookshelf', resolved: false, requiredAttribute: Attribute.Lore, difficulty: searchDifficulty });
+
+  tokens.push({ id: 't_door_foyer_hall', type: TokenType.Explore, x: 0, y: 0, description: 'Archway', resolved: true, direction: hallDir });
+  tokens.push({ id: 't_door_foyer_parlor', type: TokenType.Explore, x: 0, y: 0, description: 'Double Doors', resolved: true, direction: parlorDir });
+
+  const checkOccupied = (tx: number, ty: number) => tiles.some(t => t.x === tx && t.y === ty);
+
+  tiles.forEach(tile => {
+    DIRECTIONS.forEach((dir, i) => {
+      const v = getVector(dir);
+      if (!checkOccupied(tile.x + v.x, tile.y + v.y) && rng.next() > 0.55) {
+        tokens.push({
+          id: `t_door_${tile.id}_${i}`,
+          type: TokenType.Explore,
+          x: tile.x, y: tile.y,
+          description: 'Heavy Door',
+          resolved: false,
+          direction: dir
+        });
+      }
+    });
+  });
+
+  return { tiles, tokens };
+};
+
+export const startGame = (state: GameState, intro: IntroResult, rng: Rng): EngineResult => {
+  const distributed = state.players.flatMap(p => p.items);
+  const remainingItems = rng.shuffle(STARTING_ITEMS.filter(i => !distributed.includes(i)));
+  const { tiles, tokens } = buildStartingMap(intro.startingRoomDescription, getDifficulty(state).searchDifficulty, rng);
+
+  const safeIntroText = intro.introText || "The game begins.";
+  const scenario = getScenario(state.scenarioId);
+
+  return {
+    state: {
+      ...state,
+      phase: GamePhase.Playing,
+      round: 1,
+      currentPlayerIndex: 0,
+      // Harvey Walters starts with an extra Clue, Preston Fairmont with his fortune
+      players: state.players.map(p => {
+        if (hasAbility(p, 'EXTRA_CLUE')) return { ...p, clues: p.clues + 1 };
+        if (hasAbility(p, 'CONVERT_DIE')) return { ...p, resources: STARTING_RESOURCES };
+        return p;
+      }),
+      tiles,
+      tokens,
+      itemDeck: remainingItems,
+      distributionItems: [],
+      story: createStory(safeIntroText),
+      log: [safeIntroText],
+      evidenceCollected: 0,
+      evidenceRequired: Math.max(1, scenario.evidence.required + getDifficulty(state).evidenceBonus + Math.floor(state.players.length / 2)),
+      doom: 0,
+      doomLimit: getDoomLimit(scenario, state),
+      isEscapeOpen: false,
+      scenarioRoomIndex: 0
+    },
+    events: [{ type: 'NARRATE', text: safeIntroText }]
+  };
+};
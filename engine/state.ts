@@ -0,0 +1,87 @@
+import { GamePhase, GameState, NetworkMode, Player } from '../types';
+import { DIFFICULTY_PROFILES, INVESTIGATOR_TEMPLATES } from '../constants';
+import { DEFAULT_SCENARIO_ID } from '../scenarios';
+import { createStory } from './memory';
+
+export const createInitialState = (seed = 0): GameState => ({
+  roomCode: '',
+  phase: GamePhase.Lobby,
+  difficulty: 'Normal',
+  round: 0,
+  players: [],
+  monsters: [],
+  currentPlayerIndex: 0,
+  tiles: [],
+  tokens: [],
+  itemDeck: [],
+  discardPile: [],
+  distributionItems: [],
+  log: [],
+  story: createStory(),
+  evidenceCollected: 0,
+  evidenceRequired: 5,
+  doom: 0,
+  doomLimit: 15,
+  isEscapeOpen: false,
+  eliminated: [],
+  networkMode: NetworkMode.Offline,
+  scenarioId: DEFAULT_SCENARIO_ID,
+  scenarioRoomIndex: 0,
+  seed,
+  rngState: seed
+});
+
+// --- Player Helpers ---
+
+export const getCurrentPlayer = (state: GameState): Player | undefined =>
+  state.players[state.currentPlayerIndex];
+
+export const updatePlayer = (
+  state: GameState,
+  playerId: string,
+  updates: Partial<Player> | ((p: Player) => Partial<Player>)
+): GameState => ({
+  ...state,
+  players: state.players.map(p =>
+    p.id === playerId ? { ...p, ...(typeof updates === 'function' ? updates(p) : updates) } : p
+  )
+});
+
+export const getMaxHealth = (player: Player) =>
+  INVESTIGATOR_TEMPLATES.find(t => t.id === player.investigatorId)?.health || 7;
+
+export const getMaxSanity = (player: Player) =>
+  INVESTIGATOR_TEMPLATES.find(t => t.id === player.investigatorId)?.sanity || 7;
+
+// Wounded investigators only get one move and one action per turn
+export const getTurnAllowance = (player: Player) => (player.isWounded ? 1 : 2);
+
+export const removeItem = (items: string[], item: string) => {
+  const idx = items.indexOf(item);
+  return idx === -1 ? items : items.filter((_, i) => i !== idx);
+};
+
+// Takes a spent item from the investigator and puts it on the discard pile
+export const discardItem = (state: GameState, playerId: string, item: string): GameState => ({
+  ...updatePlayer(state, playerId, p => ({ items: removeItem(p.items, item) })),
+  discardPile: [...state.discardPile, item]
+});
+
+// The item deck is drawn from its end: the last card is the top one
+export const getTopCard = (deck: string[]): string | undefined => deck[deck.length - 1];
+
+// --- Difficulty ---
+
+export const getDifficulty = (state: GameState) =>
+  DIFFICULTY_PROFILES[state.difficulty] || DIFFICULTY_PROFILES.Normal;
+
+// Health of a monster appearing at the game's difficulty
+export const scaleMonsterHealth = (state: GameState, health: number) =>
+  Math.max(1, Math.round(health * getDifficulty(state).monsterHealth));
+
+// --- Misc ---
+
+export const formatRoomName = (name: string) => {
+  if (name.toLowerCase().startsWith('the ')) return name;
+  return `The ${name}`;
+};
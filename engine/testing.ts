@@ -0,0 +1,63 @@
+import { ActionContext, Attribute, DiceFace, GamePhase, GameState, Monster, Player } from '../types';
+import { INVESTIGATOR_TEMPLATES } from '../constants';
+import { GameAction } from './actions';
+import { reduce } from './reducer';
+import { createInitialState } from './state';
+
+// Fixtures for the engine's tests: investigators as the lobby creates them and
+// a game already under way.
+
+export const createPlayer = (id: string, investigatorId = 'inv_1', overrides: Partial<Player> = {}): Player => {
+  const template = INVESTIGATOR_TEMPLATES.find(t => t.id === investigatorId)!;
+  return {
+    id,
+    name: id,
+    investigatorId,
+    color: '',
+    clues: 1,
+    items: [],
+    health: template.health,
+    sanity: template.sanity,
+    attributes: { ...template.attributes },
+    x: 0,
+    y: 0,
+    movesRemaining: 2,
+    actionsRemaining: 2,
+    isWounded: false,
+    isInsane: false,
+    isReady: true,
+    ...overrides
+  };
+};
+
+// Reduces the actions in order and returns the final state
+export const play = (state: GameState, ...actions: GameAction[]): GameState =>
+  actions.reduce((s, action) => reduce(s, action).state, state);
+
+// A game in its first round, on the first investigator's turn
+export const startGame = (players: Player[], seed = 1): GameState =>
+  play(
+    { ...createInitialState(seed), players, phase: GamePhase.ItemDistribution },
+    { type: 'START_GAME', intro: { title: 'Test', introText: 'A test begins.', startingRoomDescription: '' } }
+  );
+
+export const createMonster = (id: string, overrides: Partial<Monster> = {}): Monster => ({
+  id,
+  templateId: 'm_cultist',
+  name: 'Cultist',
+  health: 2,
+  maxHealth: 2,
+  damage: 1,
+  horror: 0,
+  x: 0,
+  y: 0,
+  tier: 1,
+  ...overrides
+});
+
+// A roll already made for the investigator, waiting to be confirmed
+export const withRoll = (state: GameState, playerId: string, context: ActionContext, faces: DiceFace[], attribute = Attribute.Observation): GameState => ({
+  ...state,
+  phase: GamePhase.DiceRoll,
+  activeDiceRoll: { playerId, attribute, count: faces.length, target: 1, description: 'Test roll', context, bonusDice: 0, faces }
+});
@@ -0,0 +1,535 @@
+import { Attribute, GamePhase, GameState, PuzzleType, RoomResult, Tile, Token, TokenType } from '../types';
+import { generateRoomImage } from '../constants';
+import { getScenario } from '../scenarios';
+import { EngineResult, SearchOutcome, andThen, appendLog, done, emit, log } from './events';
+import { formatRoomName, getCurrentPlayer, getDifficulty, getTopCard, updatePlayer } from './state';
+import { getVector, inverseDirection } from './setup';
+import { hasAbility, hasRoomInHand } from './abilities';
+import { beginInteraction } from './interactions';
+import { createBoss } from './scenario';
+import { Rng } from './rng';
+import { buildContext, remember } from './memory';
+import { getCondition } from './mythos';
+
+// --- Token Interaction ---
+
+export const interactToken = (state: GameState, tokenId: string, rng: Rng): EngineResult => {
+  if (state.phase !== GamePhase.Playing) return done(state);
+
+  const token = state.tokens.find(t => t.id === tokenId);
+  const player = getCurrentPlayer(state);
+  if (!token || token.hidden || !player || state.activeInteraction) return done(state);
+
+  if (player.x !== token.x || player.y !== token.y) {
+    return log(done(state), "You must be in the same area to interact.", false);
+  }
+
+  if (token.type === TokenType.Escape) {
+    return emit(done({ ...state, phase: GamePhase.Victory, escapedBy: player.id }), {
+      type: 'NARRATE',
+      text: "You burst through the heavy doors into the cool night air. You have survived the night."
+    });
+  }
+
+  if (player.actionsRemaining <= 0) {
+    return log(done(state), "No actions remaining.", false);
+  }
+
+  if (token.type === TokenType.Explore) return token.locked ? beginForceDoor(state, token) : beginExplore(state, token, rng);
+  if (token.type === TokenType.Search) return beginSearch(state, token, rng);
+  if (token.type === TokenType.Interact) return beginInteraction(state, token);
+  if (token.type === TokenType.Sight) return beginSight(state, token);
+
+  return done(state);
+};
+
+// --- Explore ---
+
+const beginExplore = (state: GameState, token: Token, rng: Rng): EngineResult => {
+  const player = getCurrentPlayer(state)!;
+  const dir = token.direction || 'North';
+  const v = getVector(dir);
+  const entryX = token.x + v.x;
+  const entryY = token.y + v.y;
+
+  if (state.tiles.some(t => t.x === entryX && t.y === entryY)) {
+    const next = updatePlayer(state, player.id, p => ({ actionsRemaining: p.actionsRemaining - 1 }));
+    return log(done({
+      ...next,
+      tokens: next.tokens.map(t => t.id === token.id ? { ...t, resolved: true } : t)
+    }), `${player.name} opens the door, but it leads to a known room.`);
+  }
+
+  return requestRoom(state, token, rng);
+};
+
+// A door locked by the Mythos has to be forced before it will open
+const FORCE_DOOR_DIFFICULTY = 2;
+
+const beginForceDoor = (state: GameState, token: Token): EngineResult => {
+  const player = getCurrentPlayer(state)!;
+  const next = updatePlayer(state, player.id, p => ({ actionsRemaining: p.actionsRemaining - 1 }));
+
+  return done({
+    ...next,
+    phase: GamePhase.DiceRoll,
+    activeDiceRoll: {
+      playerId: player.id,
+      attribute: Attribute.Strength,
+      count: player.attributes[Attribute.Strength],
+      target: FORCE_DOOR_DIFFICULTY,
+      description: `Forcing ${token.description || 'the locked door'}`,
+      context: { type: 'FORCE_DOOR', tokenId: token.id },
+      bonusDice: 0
+    }
+  });
+};
+
+export const resolveForceDoor = (state: GameState, tokenId: string, success: boolean): EngineResult => {
+  const cleared: GameState = { ...state, phase: GamePhase.Playing, activeDiceRoll: undefined };
+  const player = getCurrentPlayer(state);
+  if (!player) return done(cleared);
+
+  if (!success) return log(done(cleared), `${player.name} throws their weight against the door, but it holds.`);
+  return log(done({
+    ...cleared,
+    tokens: cleared.tokens.map(t => t.id === tokenId ? { ...t, locked: false } : t)
+  }), `${player.name} forces the lock. The door can be opened.`);
+};
+
+// The scenario's fixed rooms are revealed first, in order; after them the
+// narrative service is asked for a new one
+const requestRoom = (state: GameState, token: Token, rng: Rng): EngineResult => {
+  const fixed = getScenario(state.scenarioId).rooms || [];
+  if (state.scenarioRoomIndex < fixed.length) {
+    return placeRoom({ ...state, scenarioRoomIndex: state.scenarioRoomIndex + 1 }, token.id, fixed[state.scenarioRoomIndex], rng);
+  }
+
+  const sourceTile = state.tiles.find(t => t.x === token.x && t.y === token.y);
+  return emit(done(state), {
+    type: 'REQUEST_ROOM',
+    tokenId: token.id,
+    direction: token.direction || 'North',
+    context: buildContext(state.story, 'ROOM'),
+    fromType: sourceTile?.imageType || 'hallway',
+    existingTypes: Array.from(new Set(state.tiles.map(t => t.imageType.toLowerCase())))
+  });
+};
+
+// Lays out the tiles, search points and exits of a freshly generated room
+// behind the door the current investigator just opened, or beyond the Sight
+// token they looked through (in which case they stay where they are).
+export const placeRoom = (state: GameState, tokenId: string, roomData: RoomResult, rng: Rng): EngineResult => {
+  const token = state.tokens.find(t => t.id === tokenId);
+  const player = getCurrentPlayer(state);
+  if (!token || !player || token.resolved) return done(state);
+  const isPeek = token.type === TokenType.Sight;
+
+  const dir = token.direction || 'North';
+  const v = getVector(dir);
+  const entryX = token.x + v.x;
+  const entryY = token.y + v.y;
+
+  // Another answer may have filled the space since this one was asked for, as
+  // when a door and the Sight token looking through it both wait on a room
+  if (state.tiles.some(t => t.x === entryX && t.y === entryY)) {
+    const next = isPeek ? state : updatePlayer(state, player.id, p => ({ actionsRemaining: p.actionsRemaining - 1 }));
+    return log(done({
+      ...next,
+      tokens: next.tokens.map(t => t.id === token.id ? { ...t, resolved: true } : t)
+    }), isPeek
+      ? `Through ${token.description.toLowerCase()}, ${player.name} sees only a known room.`
+      : `${player.name} opens the door, but it leads to a known room.`);
+  }
+
+  const roomName = formatRoomName(roomData.name);
+  const visualType = roomData.visualType.toLowerCase() as Tile['imageType'];
+  const stamp = rng.id();
+
+  const newTiles: Tile[] = [];
+  const newTokens: Token[] = [];
+  const newRoomId = `room_${stamp}`;
+  const isHallway = visualType === 'hallway';
+  const isCloset = visualType === 'closet';
+
+  const makeTile = (id: string, x: number, y: number, description: string): Tile => ({
+    id, roomId: newRoomId, name: roomName, description, x, y, imageType: visualType
+  });
+
+  newTiles.push(makeTile(`tile_${stamp}_entry`, entryX, entryY, roomData.description));
+
+  if (!isHallway && !isCloset) {
+    const checkOccupied = (x: number, y: number) =>
+      state.tiles.some(t => t.x === x && t.y === y) || newTiles.some(t => t.x === x && t.y === y);
+
+    // Rooms grow forward (away from the door) and to one side
+    const ortho = dir === 'North' || dir === 'South' ? { x: 1, y: 0 } : { x: 0, y: 1 };
+
+    const p1 = { x: entryX + v.x, y: entryY + v.y };
+    const p2 = { x: entryX + ortho.x, y: entryY + ortho.y };
+    const p3 = { x: entryX + v.x + ortho.x, y: entryY + v.y + ortho.y };
+
+    const can2x2 = !checkOccupied(p1.x, p1.y) && !checkOccupied(p2.x, p2.y) && !checkOccupied(p3.x, p3.y);
+
+    if (can2x2 && rng.next() > 0.5) {
+      [p1, p2, p3].forEach((p, i) => newTiles.push(makeTile(`tile_${stamp}_${i}`, p.x, p.y, "")));
+    } else if (!checkOccupied(p1.x, p1.y) && rng.next() > 0.2) {
+      newTiles.push(makeTile(`tile_${stamp}_fwd`, p1.x, p1.y, ""));
+    } else if (!checkOccupied(p2.x, p2.y) && rng.next() > 0.2) {
+      newTiles.push(makeTile(`tile_${stamp}_side`, p2.x, p2.y, ""));
+    }
+  }
+
+  const xs = newTiles.map(t => t.x);
+  const ys = newTiles.map(t => t.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const maxX = Math.max(...xs);
+  const maxY = Math.max(...ys);
+  const width = maxX - minX + 1;
+  const height = maxY - minY + 1;
+
+  const entryDirection = inverseDirection(dir);
+
+  const exitCount = isHallway ? 2 : (rng.next() > 0.6 ? 2 : 1);
+  const possibleDirs = (['North', 'South', 'East', 'West'] as const).filter(d => d !== entryDirection);
+
+  const selectedExits: NonNullable<Token['direction']>[] = [];
+  for (let i = 0; i < exitCount && possibleDirs.length > 0; i++) {
+    selectedExits.push(possibleDirs.splice(rng.int(possibleDirs.length), 1)[0]);
+  }
+
+  const doors = [entryDirection, ...selectedExits];
+  const doorString = `doors on the ${doors.join(' and ')} walls`;
+
+  const roomImgPrompt = `${roomName}, ${roomData.description}, ${doorString}, ${roomData.visualType} style`;
+  const roomImgUrl = generateRoomImage(roomImgPrompt, width, height, rng.int(100000));
+
+  const placedTiles = newTiles.map(t => ({
+    ...t,
+    roomImage: roomImgUrl,
+    roomX: minX,
+    roomY: minY,
+    roomWidth: width,
+    roomHeight: height
+  }));
+
+  const searchPoints = roomData.searchPoints || [{ description: 'Unknown', attribute: 'Observation' }];
+  const shuffledTiles = rng.shuffle(placedTiles);
+
+  searchPoints.forEach((point, index) => {
+    const targetTile = shuffledTiles[index % shuffledTiles.length];
+    newTokens.push({
+      id: `tok_${stamp}_search_${index}`,
+      type: TokenType.Search,
+      x: targetTile.x,
+      y: targetTile.y,
+      description: point.description,
+      resolved: false,
+      requiredAttribute: (point.attribute as Attribute) || Attribute.Observation,
+      difficulty: getDifficulty(state).searchDifficulty,
+      // Hidden points need something to be seen through
+      hidden: !!point.hidden && !!roomData.sightPoint,
+      evidence: point.evidence
+    });
+  });
+
+  (roomData.interactPoints || []).forEach((point, index) => {
+    const targetTile = shuffledTiles[(searchPoints.length + index) % shuffledTiles.length];
+    newTokens.push({
+      id: `tok_${stamp}_interact_${index}`,
+      type: TokenType.Interact,
+      x: targetTile.x,
+      y: targetTile.y,
+      description: point.description,
+      resolved: false,
+      requiredAttribute: (point.attribute as Attribute) || Attribute.Influence,
+      difficulty: 2
+    });
+  });
+
+  selectedExits.forEach((exDir, i) => {
+    const candidates = placedTiles.filter(t => {
+      if (exDir === 'North') return t.y === minY;
+      if (exDir === 'South') return t.y === maxY;
+      if (exDir === 'West') return t.x === minX;
+      return t.x === maxX;
+    });
+
+    const doorTile = candidates.length > 0
+      ? rng.pick(candidates)
+      : rng.pick(placedTiles);
+
+    newTokens.push({
+      id: `tok_${stamp}_door_${i}`,
+      type: TokenType.Explore,
+      x: doorTile.x,
+      y: doorTile.y,
+      description: isHallway ? 'Heavy Door' : 'Side Door',
+      resolved: false,
+      direction: exDir
+    });
+  });
+
+  // The Sight point looks out through the first exit, or around the room
+  if (roomData.sightPoint) {
+    const door = newTokens.find(t => t.type === TokenType.Explore);
+    const spot = door || rng.pick(placedTiles);
+    newTokens.push({
+      id: `tok_${stamp}_sight`,
+      type: TokenType.Sight,
+      x: spot.x,
+      y: spot.y,
+      description: roomData.sightPoint,
+      resolved: false,
+      requiredAttribute: Attribute.Observation,
+      difficulty: 1,
+      direction: door?.direction
+    });
+  }
+
+  // A peek leaves the investigator in place (the action was paid for the
+  // roll) and settles any door that now leads into the seen room
+  const leadsIn = (t: Token) => t.id === token.id || (isPeek && t.type === TokenType.Explore && t.x === token.x && t.y === token.y && t.direction === dir);
+  const next = isPeek ? state : updatePlayer(state, player.id, p => ({ x: entryX, y: entryY, actionsRemaining: p.actionsRemaining - 1 }));
+  const text = isPeek
+    ? `Through ${token.description.toLowerCase()}, ${player.name} glimpses ${roomName}. ${roomData.description}`
+    : `${player.name} explores ${roomName}. ${roomData.description}`;
+
+  return {
+    state: appendLog({
+      ...remember(next, { kind: 'ROOM', subject: roomName, detail: `${isPeek ? 'Glimpsed' : 'Entered'}. ${roomData.description}` }),
+      tiles: [...next.tiles, ...placedTiles],
+      tokens: [...next.tokens.map(t => leadsIn(t) ? { ...t, resolved: true } : t), ...newTokens]
+    }, text),
+    events: [{ type: 'NARRATE', text: isPeek ? text : `${player.name} opens the door to ${roomName}. ${roomData.description}` }]
+  };
+};
+
+// --- Sight ---
+
+// Searching or looking is harder in a room the Mythos has plunged into darkness
+const darknessPenalty = (state: GameState, token: Token) => getCondition(state, token.x, token.y) === 'DARKNESS' ? 1 : 0;
+
+const beginSight = (state: GameState, token: Token): EngineResult => {
+  const player = getCurrentPlayer(state)!;
+  const next = updatePlayer(state, player.id, p => ({ actionsRemaining: p.actionsRemaining - 1 }));
+
+  return done({
+    ...next,
+    phase: GamePhase.DiceRoll,
+    activeDiceRoll: {
+      playerId: player.id,
+      attribute: Attribute.Observation,
+      count: player.attributes[Attribute.Observation],
+      target: (token.difficulty || 1) + darknessPenalty(state, token),
+      description: `Looking through ${token.description}`,
+      context: { type: 'SIGHT', tokenId: token.id },
+      bonusDice: 0
+    }
+  });
+};
+
+// A good look reveals what is hidden in the room and, when the Sight point
+// faces out of it, has the narrative service describe the room beyond
+export const resolveSight = (state: GameState, tokenId: string, success: boolean, rng: Rng): EngineResult => {
+  const cleared: GameState = { ...state, phase: GamePhase.Playing, activeDiceRoll: undefined };
+  const token = state.tokens.find(t => t.id === tokenId);
+  const player = getCurrentPlayer(state);
+  if (!token || !player) return done(cleared);
+
+  if (!success) return log(done(cleared), `${player.name} strains to see through ${token.description.toLowerCase()}, but the gloom gives nothing away.`);
+
+  const roomId = state.tiles.find(t => t.x === token.x && t.y === token.y)?.roomId;
+  const inRoom = (t: Token) => state.tiles.some(tile => tile.roomId === roomId && tile.x === t.x && tile.y === t.y);
+  const revealed = state.tokens.filter(t => t.hidden && inRoom(t));
+
+  const v = getVector(token.direction || 'North');
+  const looksOut = !!token.direction && !state.tiles.some(t => t.x === token.x + v.x && t.y === token.y + v.y);
+
+  let result = done({
+    ...cleared,
+    tokens: cleared.tokens.map(t => {
+      if (revealed.includes(t)) return { ...t, hidden: false };
+      // A Sight point looking out stays open until the room beyond is placed
+      if (t.id === token.id && !looksOut) return { ...t, resolved: true };
+      return t;
+    })
+  });
+
+  if (revealed.length > 0) {
+    result = log(result, `${player.name} spots ${revealed.map(t => t.description.toLowerCase()).join(' and ')}.`);
+  } else if (!looksOut) {
+    result = log(result, `${player.name} looks through ${token.description.toLowerCase()} and sees nothing new.`, false);
+  }
+
+  if (!looksOut) return result;
+  return andThen(result, s => requestRoom(s, s.tokens.find(t => t.id === tokenId)!, rng));
+};
+
+// --- Search ---
+
+const beginSearch = (state: GameState, token: Token, rng: Rng): EngineResult => {
+  const player = getCurrentPlayer(state)!;
+  const context = { type: 'SEARCH' as const, tokenId: token.id };
+
+  const { puzzleChance, puzzleComplexity } = getDifficulty(state);
+  if (rng.next() < puzzleChance) {
+    const rand = rng.next();
+    const puzzleType = rand < 0.33 ? PuzzleType.Sliding : rand < 0.66 ? PuzzleType.Rune : PuzzleType.Code;
+
+    return done({
+      ...state,
+      phase: GamePhase.Puzzle,
+      activePuzzle: { type: puzzleType, token, context, seed: rng.int(0x7fffffff), complexity: puzzleComplexity }
+    });
+  }
+
+  const attr = token.requiredAttribute || Attribute.Observation;
+  return done({
+    ...state,
+    phase: GamePhase.DiceRoll,
+    activeDiceRoll: {
+      playerId: player.id,
+      attribute: attr,
+      count: player.attributes[attr],
+      target: (token.difficulty || 1) + darknessPenalty(state, token),
+      description: token.description,
+      context,
+      bonusDice: 0
+    }
+  });
+};
+
+// Instead of playing a puzzle out, the investigator may work it out with a
+// Lore check as hard as the puzzle is complex
+export const studyPuzzle = (state: GameState): EngineResult => {
+  const puzzle = state.activePuzzle;
+  const player = getCurrentPlayer(state);
+  if (state.phase !== GamePhase.Puzzle || !puzzle || !player) return done(state);
+
+  return done({
+    ...state,
+    phase: GamePhase.DiceRoll,
+    activePuzzle: undefined,
+    activeDiceRoll: {
+      playerId: player.id,
+      attribute: Attribute.Lore,
+      count: player.attributes[Attribute.Lore],
+      target: puzzle.complexity,
+      description: `Studying ${puzzle.token.description}`,
+      context: puzzle.context,
+      bonusDice: 0,
+      // Agatha Crane's insight into the mansion's puzzles
+      bonusSuccesses: hasAbility(player, 'PUZZLE_LORE') ? 1 : 0
+    }
+  });
+};
+
+// Applies the reward of a finished search straight away, then asks the
+// narrative service to describe it (see narrateInvestigation).
+export const resolveSearch = (state: GameState, tokenId: string, success: boolean, rng: Rng): EngineResult => {
+  const cleared: GameState = { ...state, phase: GamePhase.Playing, activeDiceRoll: undefined, activePuzzle: undefined };
+  const token = state.tokens.find(t => t.id === tokenId);
+  const player = getCurrentPlayer(state);
+  if (!token || !player) return done(cleared);
+
+  const { evidence } = getScenario(state.scenarioId);
+  let rewardType: SearchOutcome['rewardType'] = 'None';
+  let foundObject: string | undefined;
+  let rewardMessage = "Found nothing";
+  let next = cleared;
+
+  if (success) {
+    const roll = rng.next();
+    if (!state.isEscapeOpen && (token.evidence || roll < evidence.searchChance)) {
+      rewardType = 'Evidence';
+      foundObject = evidence.name;
+      rewardMessage = `Found: ${evidence.name.toUpperCase()}`;
+      next = { ...next, evidenceCollected: next.evidenceCollected + 1 };
+    } else if (roll < 0.65 && state.itemDeck.length > 0 && hasRoomInHand(player)) {
+      const item = getTopCard(state.itemDeck)!;
+      rewardType = 'Item';
+      foundObject = item;
+      rewardMessage = `Found: ${item}`;
+      next = updatePlayer({ ...next, itemDeck: next.itemDeck.slice(0, -1) }, player.id, p => ({ items: [...p.items, item] }));
+    } else {
+      rewardType = 'Clue';
+      foundObject = 'a hidden Clue';
+      rewardMessage = "Found: 1 Clue";
+      next = updatePlayer(next, player.id, p => ({ clues: p.clues + 1 }));
+    }
+    next = { ...next, tokens: next.tokens.filter(t => t.id !== token.id) };
+  }
+
+  next = updatePlayer(next, player.id, p => ({ actionsRemaining: p.actionsRemaining - 1 }));
+
+  const outcome: SearchOutcome = {
+    tokenId: token.id,
+    tokenDescription: token.description,
+    success,
+    rewardType,
+    rewardMessage,
+    foundObject,
+    closeToTruth: state.evidenceCollected + 1 >= state.evidenceRequired
+  };
+
+  return checkFinale(emit(done(next), { type: 'REQUEST_INVESTIGATION', outcome, context: buildContext(state.story, 'INVESTIGATION') }), rng);
+};
+
+// Only what was found is worth remembering: items by name, anything else as lore
+const rememberSearch = (state: GameState, outcome: SearchOutcome, narrative: string): GameState => {
+  if (!outcome.success) return state;
+  return outcome.rewardType === 'Item' && outcome.foundObject
+    ? remember(state, { kind: 'ITEM', subject: outcome.foundObject, detail: narrative })
+    : remember(state, { kind: 'LORE', subject: outcome.tokenDescription, detail: narrative });
+};
+
+export const narrateInvestigation = (state: GameState, outcome: SearchOutcome, narrative: string): EngineResult => {
+  const logMsg = `${outcome.success ? 'SUCCESS' : 'FAILURE'}: ${outcome.rewardMessage}. ${narrative}`;
+
+  let spokenText = narrative.trim();
+  if (spokenText && !/[.!?]$/.test(spokenText)) {
+    spokenText += ".";
+  }
+
+  if (outcome.success) {
+    if (outcome.rewardType === 'Item') spokenText += ` ${outcome.foundObject} added to inventory.`;
+    else if (outcome.rewardType === 'Clue') spokenText += ` Clue added to inventory.`;
+    else if (outcome.rewardType === 'Evidence') spokenText += ` Evidence collected.`;
+    if (outcome.closeToTruth) spokenText += " You feel you are close to the truth.";
+  }
+
+  return {
+    state: appendLog(rememberSearch(state, outcome, narrative), logMsg),
+    events: [{ type: 'NARRATE', text: spokenText }]
+  };
+};
+
+// --- Finale ---
+
+// Once enough evidence is in hand the scenario's boss awakens and, unless it
+// has to be destroyed, the way out of the mansion opens in the Foyer.
+const checkFinale = (result: EngineResult, rng: Rng): EngineResult => {
+  const current = result.state;
+  if (current.evidenceCollected < current.evidenceRequired || current.isEscapeOpen) return result;
+
+  const scenario = getScenario(current.scenarioId);
+  const boss = createBoss(current, rng);
+
+  const escapeToken: Token = {
+    id: 'tok_escape',
+    type: TokenType.Escape,
+    x: 0,
+    y: 0,
+    description: "Exit the Mansion",
+    resolved: false
+  };
+
+  return emit(done(appendLog({
+    ...current,
+    isEscapeOpen: true,
+    monsters: [...current.monsters, boss],
+    tokens: scenario.victory === 'ESCAPE' ? [...current.tokens, escapeToken] : current.tokens
+  }, `FINALE: ${scenario.finaleText}`), result.events), { type: 'NARRATE', text: scenario.finaleText });
+};
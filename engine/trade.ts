@@ -0,0 +1,85 @@
+import { GamePhase, GameState, Player, TradeOffer } from '../types';
+import { EngineResult, done, log } from './events';
+import { getCurrentPlayer, removeItem, updatePlayer } from './state';
+import { hasRoomInHand } from './abilities';
+
+// True when the investigator carries every listed item (duplicates included)
+const carriesAll = (player: Player, items: string[]) => {
+  let remaining = player.items;
+  for (const item of items) {
+    if (!remaining.includes(item)) return false;
+    remaining = removeItem(remaining, item);
+  }
+  return true;
+};
+
+const describeSide = (items: string[], clues: number) => {
+  const parts = [...items];
+  if (clues > 0) parts.push(`${clues} ${clues === 1 ? 'clue' : 'clues'}`);
+  return parts.length > 0 ? parts.join(', ') : 'nothing';
+};
+
+// Why the trade cannot happen as offered, or null when it can. Checked when
+// it is proposed and again when it is accepted, since either side may have
+// moved or spent something in between.
+export const checkTrade = (state: GameState, offer: TradeOffer): string | null => {
+  const from = state.players.find(p => p.id === offer.fromId);
+  const to = state.players.find(p => p.id === offer.toId);
+  if (state.phase !== GamePhase.Playing || getCurrentPlayer(state)?.id !== offer.fromId) return "You can only trade on your turn.";
+  if (!from || !to || from.id === to.id) return "Choose another investigator to trade with.";
+  if (from.x !== to.x || from.y !== to.y) return `${to.name} must be in your space.`;
+  if (offer.giveItems.length + offer.takeItems.length + offer.giveClues + offer.takeClues === 0) return "The trade is empty.";
+  if (!carriesAll(from, offer.giveItems)) return `${from.name} does not carry everything offered.`;
+  if (!carriesAll(to, offer.takeItems)) return `${to.name} does not carry everything asked for.`;
+  if (offer.giveClues > from.clues) return `${from.name} does not have ${offer.giveClues} clues.`;
+  if (offer.takeClues > to.clues) return `${to.name} does not have ${offer.takeClues} clues.`;
+  if (!hasRoomInHand(from, offer.takeItems.length - offer.giveItems.length)) return `${from.name} cannot carry that much.`;
+  if (!hasRoomInHand(to, offer.giveItems.length - offer.takeItems.length)) return `${to.name} cannot carry that much.`;
+  return null;
+};
+
+// Only the partner may accept; either investigator may call it off
+export const checkTradeResponse = (state: GameState, playerId: string, accept: boolean): string | null => {
+  const offer = state.pendingTrade;
+  if (!offer) return "There is no trade on the table.";
+  if (accept) return offer.toId === playerId ? checkTrade(state, offer) : "Only the other investigator can accept.";
+  return offer.toId === playerId || offer.fromId === playerId ? null : "This trade does not concern you.";
+};
+
+export const proposeTrade = (state: GameState, offer: TradeOffer): EngineResult => {
+  if (checkTrade(state, offer)) return done(state);
+  const from = state.players.find(p => p.id === offer.fromId)!;
+  const to = state.players.find(p => p.id === offer.toId)!;
+
+  return log(
+    done({ ...state, pendingTrade: offer }),
+    `${from.name} offers ${to.name} ${describeSide(offer.giveItems, offer.giveClues)} for ${describeSide(offer.takeItems, offer.takeClues)}.`,
+    false
+  );
+};
+
+export const respondToTrade = (state: GameState, playerId: string, accept: boolean): EngineResult => {
+  if (checkTradeResponse(state, playerId, accept)) return done(state);
+  const offer = state.pendingTrade!;
+  const from = state.players.find(p => p.id === offer.fromId)!;
+  const to = state.players.find(p => p.id === offer.toId)!;
+  const cleared: GameState = { ...state, pendingTrade: undefined };
+
+  if (!accept) {
+    const who = playerId === from.id ? from : to;
+    return log(done(cleared), `${who.name} calls off the trade.`, false);
+  }
+
+  const traded = updatePlayer(
+    updatePlayer(cleared, from.id, p => ({
+      items: [...offer.giveItems.reduce(removeItem, p.items), ...offer.takeItems],
+      clues: p.clues - offer.giveClues + offer.takeClues
+    })),
+    to.id,
+    p => ({
+      items: [...offer.takeItems.reduce(removeItem, p.items), ...offer.giveItems],
+      clues: p.clues - offer.takeClues + offer.giveClues
+    })
+  );
+  return log(done(traded), `${from.name} hands ${to.name} ${describeSide(offer.giveItems, offer.giveClues)} and receives ${describeSide(offer.takeItems, offer.takeClues)}.`);
+};
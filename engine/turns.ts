@@ -0,0 +1,239 @@
+import { Attribute, GamePhase, GameState, MythosEffect, MythosResult } from '../types';
+import { EngineResult, andThen, done, emit, log } from './events';
+import { activateMonsters } from './monsters';
+import { applyDamage } from './damage';
+import { advanceDoom, drawMythos } from './scenario';
+import { getCurrentPlayer, getDifficulty, getTurnAllowance, updatePlayer } from './state';
+import { Rng } from './rng';
+import { buildContext, firstSentence, remember } from './memory';
+import { applyMythosEffects, describeBoard, parseAttribute, resolveConditions } from './mythos';
+
+// --- Movement ---
+
+export const movePlayer = (state: GameState, tileId: string): EngineResult => {
+  if (state.phase !== GamePhase.Playing) return done(state);
+
+  const tile = state.tiles.find(t => t.id === tileId);
+  const player = getCurrentPlayer(state);
+  if (!tile || !player) return done(state);
+
+  if (player.movesRemaining <= 0) {
+    return log(done(state), "No moves remaining.", false);
+  }
+
+  // MONSTER CHECK: Movement Restriction (unless every monster here was evaded)
+  const engagedBy = state.monsters.filter(m => m.x === player.x && m.y === player.y && !player.evadedMonsters?.includes(m.id));
+  if (engagedBy.length > 0 && (tile.x !== player.x || tile.y !== player.y)) {
+    return log(done(state), `${player.name} is engaged by ${engagedBy[0].name} and cannot move! Defeat or evade the monster first.`);
+  }
+
+  const dist = Math.abs(player.x - tile.x) + Math.abs(player.y - tile.y);
+  if (dist !== 1) return done(state);
+
+  return done(updatePlayer(state, player.id, p => ({ x: tile.x, y: tile.y, movesRemaining: p.movesRemaining - 1, evadedMonsters: [] })));
+};
+
+// --- Turn Order ---
+
+// Refreshes an investigator's moves and actions, including any actions
+// another investigator handed them since their last turn
+const startTurn = (state: GameState, playerId: string): GameState =>
+  updatePlayer(state, playerId, p => ({
+    actionsRemaining: getTurnAllowance(p) + (p.bonusActions || 0),
+    movesRemaining: getTurnAllowance(p),
+    bonusActions: 0,
+    evadedMonsters: []
+  }));
+
+// The first investigator from index on whose player is still connected
+const nextConnectedIndex = (state: GameState, from: number) => {
+  let index = from;
+  while (index < state.players.length && state.players[index].disconnected) index++;
+  return index;
+};
+
+// Dropped investigators keep their place in the game. A turn already under way
+// waits for them (or for the host to end it); later turns pass them over.
+export const setConnected = (state: GameState, playerId: string, connected: boolean): EngineResult => {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player || !player.disconnected === connected) return done(state);
+
+  const next = updatePlayer(state, playerId, { disconnected: !connected });
+  return log(done(next), connected ? `${player.name} has reconnected.` : `${player.name} has lost their connection.`, false);
+};
+
+// Play passes to the next investigator; once everyone has acted the Mythos
+// phase begins.
+export const endTurn = (state: GameState, rng: Rng): EngineResult => {
+  if (state.phase !== GamePhase.Playing) return done(state);
+
+  const player = getCurrentPlayer(state);
+  if (!player) return done(state);
+
+  // The window to negate horror closes at the end of one's own turn, and an
+  // unanswered trade offer or an abandoned conversation lapses with it
+  const ended = {
+    ...(player.negatableHorror ? updatePlayer(state, player.id, { negatableHorror: 0 }) : state),
+    pendingTrade: undefined,
+    activeInteraction: undefined
+  };
+
+  return passTurn(ended, state.currentPlayerIndex + 1, rng);
+};
+
+// The turn goes to the first connected investigator from index on; if there
+// is none left this round the Mythos phase begins
+const passTurn = (state: GameState, from: number, rng: Rng): EngineResult => {
+  const nextIndex = nextConnectedIndex(state, from);
+  const skipped = state.players.slice(from, nextIndex);
+  const result = skipped.reduce((r, p) => log(r, `${p.name} is away; their turn is skipped.`, false), done(state));
+  if (nextIndex >= state.players.length) {
+    return andThen(result, s => beginMythos(s, rng));
+  }
+
+  const nextPlayer = state.players[nextIndex];
+  return andThen(result, s => emit(done(startTurn({ ...s, currentPlayerIndex: nextIndex }, nextPlayer.id)), { type: 'NARRATE', text: `It is ${nextPlayer.name}'s turn.` }));
+};
+
+// An investigator eliminated on their own turn cannot end it, so play moves on
+// without them; with nobody left the game is over
+export const passEliminatedTurn = (before: GameState, result: EngineResult, rng: Rng): EngineResult => {
+  const { state } = result;
+  const current = getCurrentPlayer(before);
+  if (state.phase !== GamePhase.Playing || !current || state.players.some(p => p.id === current.id)) return result;
+
+  if (state.players.length === 0) {
+    return log(done({ ...state, phase: GamePhase.GameOver }, result.events), "ALL INVESTIGATORS ELIMINATED");
+  }
+  const ended = { ...state, pendingTrade: undefined, activeInteraction: undefined };
+  return andThen(done(ended, result.events), s => passTurn(s, s.currentPlayerIndex, rng));
+};
+
+// --- Mythos Phase ---
+
+const getThreat = (state: GameState, round: number) =>
+  Math.max(1, Math.min(10, round + getDifficulty(state).threatBonus));
+
+// The doom clock ticks, the monsters hunt and fires burn first, then the
+// scenario's own event is played or the narrative service is asked for one
+const beginMythos = (state: GameState, rng: Rng): EngineResult => {
+  const nextRound = state.round + 1;
+  const ticked = advanceDoom({ ...state, phase: GamePhase.Mythos, round: nextRound }, 1);
+  if (ticked.state.phase === GamePhase.GameOver) return ticked;
+
+  const result = andThen(andThen(ticked, s => activateMonsters(s, rng)), resolveConditions);
+  const authored = drawMythos(result.state, nextRound, rng);
+  if (authored) return andThen(result, s => applyMythosEvent(s, authored, rng));
+
+  return emit(result, {
+    type: 'REQUEST_MYTHOS',
+    context: buildContext(result.state.story, 'MYTHOS'),
+    threat: getThreat(state, nextRound),
+    board: describeBoard(result.state)
+  });
+};
+
+// An event with effects plays exactly those (see mythos.ts); one without
+// falls back to what its type does
+export const applyMythosEvent = (state: GameState, event: MythosResult, rng: Rng): EngineResult => {
+  if (state.phase !== GamePhase.Mythos) return done(state);
+
+  const threat = getThreat(state, state.round);
+  const hasEffects = !!event.effects && event.effects.length > 0;
+  const effects: MythosEffect[] = hasEffects ? event.effects! : event.type === 'SPAWN' ? [{ type: 'SPAWN' }] : [];
+  const outcome = applyMythosEffects(state, effects, threat, rng);
+
+  let logMsg = [event.narrative, ...outcome.text].join(' ');
+  let test = outcome.test;
+  if (!hasEffects && event.type === 'TEST') {
+    test = { attribute: parseAttribute(event.param), playerIds: state.players.map(p => p.id) };
+    logMsg += ` Each investigator must test ${test.attribute}.`;
+  }
+
+  const doom = Math.max(0, Math.floor(Number(event.doom) || 0));
+  if (doom > 0) logMsg += ` Doom advances by ${doom}.`;
+
+  const result = log(done({
+    ...remember(outcome.state, { kind: 'EVENT', subject: firstSentence(event.narrative), detail: logMsg }),
+    mythosEvent: { text: logMsg, type: event.type }
+  }), logMsg);
+  const advanced = andThen(result, s => advanceDoom(s, doom));
+  if (!test || advanced.state.phase === GamePhase.GameOver) return advanced;
+
+  return andThen(advanced, s => beginMythosTest(s, test!.attribute, test!.playerIds));
+};
+
+// --- Mythos Tests ---
+
+// Physical tests wound on failure; the rest cost sanity
+const PHYSICAL_ATTRIBUTES = [Attribute.Strength, Attribute.Agility];
+
+// Asks the next investigator in turn order to roll; once everyone has been
+// tested the Mythos phase carries on. Nobody could roll for an investigator
+// who is away, so they are spared, as their turns are skipped.
+const beginMythosTest = (state: GameState, attribute: Attribute, playerIds: string[]): EngineResult => {
+  const remaining = playerIds.filter(id => state.players.some(p => p.id === id));
+  if (remaining.length === 0) return done({ ...state, phase: GamePhase.Mythos, activeDiceRoll: undefined });
+
+  const player = state.players.find(p => p.id === remaining[0])!;
+  if (player.disconnected) {
+    const spared = log(done(state), `${player.name} is away and escapes the ${attribute} test.`, false);
+    return andThen(spared, s => beginMythosTest(s, attribute, remaining.slice(1)));
+  }
+  const result = done({
+    ...state,
+    phase: GamePhase.DiceRoll,
+    activeDiceRoll: {
+      playerId: player.id,
+      attribute,
+      count: player.attributes[attribute],
+      target: getThreat(state, state.round) > 6 ? 2 : 1,
+      description: `Mythos: ${player.name} tests ${attribute}`,
+      context: { type: 'MYTHOS_TEST', playerIds: remaining.slice(1) },
+      bonusDice: 0
+    }
+  });
+  return emit(result, { type: 'NARRATE', text: `${player.name} must test ${attribute}.` });
+};
+
+export const resolveMythosTest = (state: GameState, playerIds: string[], success: boolean): EngineResult => {
+  const roll = state.activeDiceRoll;
+  const player = roll && state.players.find(p => p.id === roll.playerId);
+  if (!roll || !player) return beginMythosTest(state, Attribute.Will, playerIds);
+
+  const cleared: GameState = { ...state, phase: GamePhase.Mythos, activeDiceRoll: undefined };
+  const physical = PHYSICAL_ATTRIBUTES.includes(roll.attribute);
+  const result = success
+    ? log(done(cleared), `${player.name} withstands the ${roll.attribute} test.`)
+    : andThen(
+        log(done(cleared), `${player.name} fails the ${roll.attribute} test and takes 1 ${physical ? 'Damage' : 'Horror'}.`),
+        s => applyDamage(s, player.id, physical ? 1 : 0, physical ? 0 : 1)
+      );
+  return andThen(result, s => beginMythosTest(s, roll.attribute, playerIds));
+};
+
+export const endMythos = (state: GameState): EngineResult => {
+  if (state.phase !== GamePhase.Mythos) return done(state);
+
+  if (state.players.length === 0) {
+    return log(done({ ...state, phase: GamePhase.GameOver }), "ALL INVESTIGATORS ELIMINATED");
+  }
+
+  // If everyone is away the round waits on the first investigator
+  const first = nextConnectedIndex(state, 0);
+  const currentPlayerIndex = first < state.players.length ? first : 0;
+  const next: GameState = {
+    ...state,
+    phase: GamePhase.Playing,
+    mythosEvent: undefined,
+    currentPlayerIndex,
+    players: state.players.map(p => ({
+      ...p,
+      actionsRemaining: getTurnAllowance(p),
+      movesRemaining: getTurnAllowance(p),
+      usedItemAbilityRound: false,
+      usedAbilityRound: false
+    }))
+  };
+  return log(done(startTurn(next, next.players[currentPlayerIndex].id)), "New Round.", false);
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { GamePhase } from '../types';
+import { createPlayer, play, startGame } from '../engine/testing';
+import { PROTOCOL_VERSION, authorizeAction, decodeClientMessage, encodeAction, encodeResume } from './protocol';
+
+describe('authorizing client actions', () => {
+  const mythos = play(startGame([createPlayer('a'), createPlayer('b', 'inv_2')]), { type: 'END_TURN' }, { type: 'END_TURN' });
+
+  it('leaves closing the Mythos phase to the investigator who ended the round', () => {
+    expect(mythos.phase).toBe(GamePhase.Mythos);
+    expect(authorizeAction(mythos, 'b', { type: 'END_MYTHOS' })).toBeNull();
+    expect(authorizeAction(mythos, 'a', { type: 'END_MYTHOS' })?.code).toBe('NOT_YOUR_TURN');
+  });
+
+  it('only takes a puzzle outcome from the current investigator', () => {
+    const state = startGame([createPlayer('a'), createPlayer('b', 'inv_2')]);
+    expect(authorizeAction(state, 'a', { type: 'COMPLETE_PUZZLE', success: true })).toBeNull();
+    expect(authorizeAction(state, 'b', { type: 'COMPLETE_PUZZLE', success: true })?.code).toBe('NOT_YOUR_TURN');
+  });
+
+  it('turns away connections without an investigator', () => {
+    expect(authorizeAction(mythos, undefined, { type: 'END_MYTHOS' })?.code).toBe('NOT_REGISTERED');
+  });
+});
+
+describe('resuming a session', () => {
+  const objective = { goal: 'HOARD_ITEMS' as const, count: 2, text: 'Keep it all.' };
+
+  it('brings the secret objective back to the host', () => {
+    const decoded = decodeClientMessage(encodeResume('a', 'token', objective));
+    expect(decoded.message).toMatchObject({ kind: 'RESUME', playerId: 'a', objective });
+  });
+
+  it('refuses an objective that is not one', () => {
+    const raw = JSON.stringify({ v: PROTOCOL_VERSION, kind: 'RESUME', playerId: 'a', token: 'token', objective: { goal: 'HOARD_ITEMS', count: -1 } });
+    expect(decodeClientMessage(raw).error?.code).toBe('MALFORMED');
+  });
+});
+
+describe('validating client actions', () => {
+  const register = (investigatorId: string) =>
+    decodeClientMessage(encodeAction({ type: 'REGISTER_PLAYER', player: { id: 'a', name: 'Ada', investigatorId, color: '#fff' } }));
+
+  it('takes a registration for an investigator that exists', () => {
+    expect(register('inv_1').error).toBeUndefined();
+  });
+
+  it('refuses a registration for one that does not', () => {
+    expect(register('inv_99').error?.code).toBe('MALFORMED');
+  });
+});
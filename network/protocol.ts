@@ -0,0 +1,323 @@
+import { GamePhase, GameState, SecretObjective } from '../types';
+import { INVESTIGATOR_TEMPLATES } from '../constants';
+import { GameAction, checkAbilityUse, checkDiceRequest, checkTrade, checkTradeResponse } from '../engine';
+import { Patch, SyncPayload } from './sync';
+
+// Bump whenever the shape of a message or of GameAction changes so that
+// mismatched builds refuse each other instead of misbehaving.
+export const PROTOCOL_VERSION = 16;
+
+// The subset of engine actions a client is allowed to ask the host for.
+// Narrative results and lobby management stay host-only.
+export type ClientAction = Extract<GameAction, {
+  type:
+    | 'REGISTER_PLAYER'
+    | 'SET_READY'
+    | 'MOVE'
+    | 'INTERACT_TOKEN'
+    | 'ATTACK'
+    | 'EVADE'
+    | 'USE_ITEM'
+    | 'CHOOSE_DIALOGUE'
+    | 'USE_ABILITY'
+    | 'COMPLETE_PUZZLE'
+    | 'STUDY_PUZZLE'
+    | 'PROPOSE_TRADE'
+    | 'RESPOND_TRADE'
+    | 'END_TURN'
+    | 'END_MYTHOS'
+    | 'ROLL_DICE'
+    | 'SPEND_CLUE'
+    | 'USE_DICE_ITEM'
+    | 'CONFIRM_ROLL';
+}>;
+
+export type ProtocolErrorCode =
+  | 'BAD_JSON'
+  | 'VERSION_MISMATCH'
+  | 'MALFORMED'
+  | 'UNKNOWN_ACTION'
+  | 'NOT_REGISTERED'
+  | 'NOT_YOUR_TURN'
+  | 'REJECTED'
+  | 'BAD_SESSION';
+
+export interface ProtocolError {
+  code: ProtocolErrorCode;
+  message: string;
+  actionType?: string;
+}
+
+// Client -> Host. RESUME rebinds a new connection to an investigator the
+// client registered before, proven by the token the host handed out. It
+// brings the investigator's secret objective along, which a host that took
+// over from the heir's replica does not have (see Replica).
+export type ClientMessage =
+  | { v: number; kind: 'ACTION'; action: ClientAction }
+  | { v: number; kind: 'RESUME'; playerId: string; token: string; objective?: SecretObjective }
+  | { v: number; kind: 'RESYNC' }; // A patch was missed, send a full snapshot
+
+// The game as the one client chosen to take over if the host vanishes keeps
+// it (see projectReplica). Secrets it may not read travel as digests, so the
+// new host can check them when their owners resume: never the session tokens
+// themselves, which would let the heir take any investigator over while the
+// host is still there, nor the other investigators' objectives.
+export interface Replica {
+  state: GameState;
+  evidencePoints: number; // Unsearched points holding evidence, hidden anew on takeover
+  sessions: Record<string, string>; // Session token digest by investigator id
+  objectives: Record<string, string>; // Secret objective digest by investigator id
+  heirId: string; // The investigator whose client takes over
+}
+
+// Host -> Client. SYNC is a full snapshot; each PATCH applies to the one
+// numbered just before it (see network/sync.ts).
+export type HostMessage =
+  | { v: number; kind: 'SYNC'; seq: number; payload: SyncPayload }
+  | { v: number; kind: 'PATCH'; seq: number; patch: Patch }
+  | { v: number; kind: 'SESSION'; playerId: string; token: string }
+  | { v: number; kind: 'ERROR'; error: ProtocolError };
+
+export type Decoded<T> = { message: T; error?: undefined } | { message?: undefined; error: ProtocolError };
+
+// --- Encoding ---
+
+// Explicit JSON stringify to avoid any serialization quirks in PeerJS
+export const encodeAction = (action: ClientAction): string =>
+  JSON.stringify({ v: PROTOCOL_VERSION, kind: 'ACTION', action } satisfies ClientMessage);
+
+export const encodeResume = (playerId: string, token: string, objective?: SecretObjective): string =>
+  JSON.stringify({ v: PROTOCOL_VERSION, kind: 'RESUME', playerId, token, objective } satisfies ClientMessage);
+
+export const encodeSession = (playerId: string, token: string): string =>
+  JSON.stringify({ v: PROTOCOL_VERSION, kind: 'SESSION', playerId, token } satisfies HostMessage);
+
+export const encodeResync = (): string =>
+  JSON.stringify({ v: PROTOCOL_VERSION, kind: 'RESYNC' } satisfies ClientMessage);
+
+export const encodeSync = (seq: number, payload: SyncPayload): string =>
+  JSON.stringify({ v: PROTOCOL_VERSION, kind: 'SYNC', seq, payload } satisfies HostMessage);
+
+export const encodePatch = (seq: number, patch: Patch): string =>
+  JSON.stringify({ v: PROTOCOL_VERSION, kind: 'PATCH', seq, patch } satisfies HostMessage);
+
+export const encodeError = (error: ProtocolError): string =>
+  JSON.stringify({ v: PROTOCOL_VERSION, kind: 'ERROR', error } satisfies HostMessage);
+
+// --- Decoding ---
+
+const fail = (code: ProtocolErrorCode, message: string, actionType?: string): { error: ProtocolError } =>
+  ({ error: { code, message, actionType } });
+
+const parseEnvelope = (raw: unknown): Decoded<Record<string, any>> => {
+  let data: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      data = JSON.parse(raw);
+    } catch (e) {
+      return fail('BAD_JSON', "Message is not valid JSON.");
+    }
+  }
+  if (!isObject(data)) return fail('MALFORMED', "Message must be an object.");
+  if (data.v !== PROTOCOL_VERSION) {
+    return fail('VERSION_MISMATCH', `Protocol version ${String(data.v)} is not supported (expected ${PROTOCOL_VERSION}). Please reload the game.`);
+  }
+  return { message: data };
+};
+
+export const decodeClientMessage = (raw: unknown): Decoded<ClientMessage> => {
+  const envelope = parseEnvelope(raw);
+  if (envelope.error) return { error: envelope.error };
+  const { kind, playerId, token, objective } = envelope.message;
+  if (kind === 'RESYNC') return { message: { v: PROTOCOL_VERSION, kind: 'RESYNC' } };
+  if (kind === 'RESUME') {
+    if (!isString(playerId) || !isString(token)) return fail('MALFORMED', "Invalid RESUME payload: playerId/token.");
+    if (objective !== undefined && !isObjective(objective)) return fail('MALFORMED', "Invalid RESUME payload: objective.");
+    return { message: { v: PROTOCOL_VERSION, kind: 'RESUME', playerId, token, objective } };
+  }
+  if (kind !== 'ACTION') return fail('MALFORMED', `Unexpected message kind "${kind}".`);
+
+  const action = envelope.message.action;
+  const problem = validateClientAction(action);
+  if (problem) return problem;
+  return { message: { v: PROTOCOL_VERSION, kind: 'ACTION', action } };
+};
+
+export const decodeHostMessage = (raw: unknown): Decoded<HostMessage> => {
+  const envelope = parseEnvelope(raw);
+  if (envelope.error) return { error: envelope.error };
+  const { kind } = envelope.message;
+  const { seq, payload, patch } = envelope.message;
+  if (kind === 'SYNC' && isCount(seq) && isObject(payload) && isObject(payload.state) && (payload.replica === undefined || isReplica(payload.replica))) {
+    return { message: envelope.message as HostMessage };
+  }
+  if (kind === 'PATCH' && isCount(seq) && isObject(patch)) {
+    return { message: envelope.message as HostMessage };
+  }
+  if (kind === 'SESSION' && isString(envelope.message.playerId) && isString(envelope.message.token)) {
+    return { message: envelope.message as HostMessage };
+  }
+  if (kind === 'ERROR' && isObject(envelope.message.error)) {
+    return { message: envelope.message as HostMessage };
+  }
+  return fail('MALFORMED', `Unexpected message kind "${kind}".`);
+};
+
+// --- Runtime Validation ---
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isString = (v: unknown): v is string => typeof v === 'string' && v.length > 0;
+const isCount = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v) && v >= 0;
+
+const isDigests = (v: unknown) => isObject(v) && Object.values(v).every(isString);
+
+const isReplica = (v: unknown) =>
+  isObject(v) &&
+  isObject(v.state) &&
+  isCount(v.evidencePoints) &&
+  isDigests(v.sessions) &&
+  isDigests(v.objectives) &&
+  isString(v.heirId);
+
+const isObjective = (v: unknown): v is SecretObjective =>
+  isObject(v) &&
+  isString(v.goal) &&
+  typeof v.text === 'string' &&
+  (v.count === undefined || isCount(v.count));
+
+const isAbilityUse = (v: unknown) => {
+  if (!isObject(v)) return false;
+  switch (v.ability) {
+    case 'REROLL': return Array.isArray(v.dieIndexes) && v.dieIndexes.every(isCount);
+    case 'CONVERT_DIE': return isCount(v.dieIndex);
+    case 'GRANT_ACTION':
+    case 'GIVE_ACTION': return isString(v.targetId);
+    case 'BURY_ITEM': return true;
+    case 'NEGATE_HORROR': return isString(v.item);
+    default: return false;
+  }
+};
+
+const isTradeOffer = (v: unknown) =>
+  isObject(v) &&
+  isString(v.fromId) &&
+  isString(v.toId) &&
+  Array.isArray(v.giveItems) && v.giveItems.every(isString) &&
+  Array.isArray(v.takeItems) && v.takeItems.every(isString) &&
+  isCount(v.giveClues) &&
+  isCount(v.takeClues);
+
+// Only the player's choices; the host builds the investigator from its template
+const isRegistration = (v: unknown) =>
+  isObject(v) &&
+  isString(v.id) &&
+  isString(v.name) &&
+  INVESTIGATOR_TEMPLATES.some(t => t.id === v.investigatorId) &&
+  typeof v.color === 'string';
+
+// Returns a failure when the payload does not match its action type
+const validateClientAction = (action: unknown): { error: ProtocolError } | null => {
+  if (!isObject(action) || typeof action.type !== 'string') return fail('MALFORMED', "Action is missing its type.");
+
+  const bad = (what: string) => fail('MALFORMED', `Invalid ${action.type} payload: ${what}.`, action.type);
+
+  switch (action.type) {
+    case 'REGISTER_PLAYER':
+      return isRegistration(action.player) ? null : bad('player');
+    case 'SET_READY':
+      return isString(action.playerId) && typeof action.isReady === 'boolean' ? null : bad('playerId/isReady');
+    case 'MOVE':
+      return isString(action.tileId) ? null : bad('tileId');
+    case 'INTERACT_TOKEN':
+      return isString(action.tokenId) ? null : bad('tokenId');
+    case 'ATTACK':
+    case 'EVADE':
+      return isString(action.monsterId) ? null : bad('monsterId');
+    case 'USE_ITEM':
+    case 'USE_DICE_ITEM':
+      return isString(action.item) ? null : bad('item');
+    case 'CHOOSE_DIALOGUE':
+      return action.choiceIndex === null || isCount(action.choiceIndex) ? null : bad('choiceIndex');
+    case 'USE_ABILITY':
+      return isString(action.playerId) && isAbilityUse(action.use) ? null : bad('playerId/use');
+    case 'COMPLETE_PUZZLE':
+      return typeof action.success === 'boolean' ? null : bad('success');
+    case 'PROPOSE_TRADE':
+      return isTradeOffer(action.offer) ? null : bad('offer');
+    case 'RESPOND_TRADE':
+      return isString(action.playerId) && typeof action.accept === 'boolean' ? null : bad('playerId/accept');
+    case 'SPEND_CLUE':
+      return isCount(action.dieIndex) ? null : bad('dieIndex');
+    case 'STUDY_PUZZLE':
+    case 'END_TURN':
+    case 'END_MYTHOS':
+    case 'ROLL_DICE':
+    case 'CONFIRM_ROLL':
+      return null;
+    default:
+      return fail('UNKNOWN_ACTION', `Unknown action "${action.type}".`, action.type);
+  }
+};
+
+// --- Authorization ---
+
+// Checks that the sender may perform the action right now. senderId is the
+// investigator bound to the connection, not a value the client claims.
+export const authorizeAction = (state: GameState, senderId: string | undefined, action: ClientAction): ProtocolError | null => {
+  const reject = (code: ProtocolErrorCode, message: string): ProtocolError => ({ code, message, actionType: action.type });
+
+  if (action.type === 'REGISTER_PLAYER') {
+    if (state.phase !== GamePhase.Lobby) return reject('NOT_YOUR_TURN', "The investigation has already begun.");
+    if (senderId && senderId !== action.player.id) return reject('MALFORMED', "This connection already controls another investigator.");
+    return null;
+  }
+
+  if (!senderId || !state.players.some(p => p.id === senderId)) {
+    return reject('NOT_REGISTERED', "Register an investigator first.");
+  }
+
+  if (action.type === 'SET_READY') {
+    return action.playerId === senderId ? null : reject('NOT_YOUR_TURN', "You can only ready up yourself.");
+  }
+
+  // Some abilities are used outside one's own turn, so they are checked
+  // against the ability's own rules rather than the turn order
+  if (action.type === 'USE_ABILITY') {
+    if (action.playerId !== senderId) return reject('NOT_YOUR_TURN', "You can only use your own ability.");
+    const problem = checkAbilityUse(state, senderId, action.use);
+    return problem ? reject('REJECTED', problem) : null;
+  }
+
+  // A trade is offered on one's own turn and answered by the partner
+  if (action.type === 'PROPOSE_TRADE') {
+    if (action.offer.fromId !== senderId) return reject('NOT_YOUR_TURN', "You can only offer your own belongings.");
+    const problem = checkTrade(state, action.offer);
+    return problem ? reject('REJECTED', problem) : null;
+  }
+  if (action.type === 'RESPOND_TRADE') {
+    if (action.playerId !== senderId) return reject('NOT_YOUR_TURN', "You can only answer for yourself.");
+    const problem = checkTradeResponse(state, senderId, action.accept);
+    return problem ? reject('REJECTED', problem) : null;
+  }
+
+  // Dice belong to whoever is rolling them, and the host checks every request
+  // against that investigator's clues and items before applying it
+  if (action.type === 'ROLL_DICE' || action.type === 'SPEND_CLUE' || action.type === 'USE_DICE_ITEM' || action.type === 'CONFIRM_ROLL') {
+    if (state.activeDiceRoll && state.activeDiceRoll.playerId !== senderId) {
+      return reject('NOT_YOUR_TURN', "This roll belongs to another investigator.");
+    }
+    const problem = checkDiceRequest(state, action);
+    return problem ? reject('REJECTED', problem) : null;
+  }
+
+  // Everything else is the current investigator's, including closing the
+  // Mythos phase (whoever ended the round keeps the turn until the next one
+  // begins) and the outcome of a puzzle. Puzzles are played out in the
+  // solver's browser, so the host takes their word for it: cheating only
+  // passes their own search, and STUDY_PUZZLE is a check the host rolls.
+  const current = state.players[state.currentPlayerIndex];
+  if (!current || current.id !== senderId) {
+    return reject('NOT_YOUR_TURN', `It is ${current ? current.name : 'nobody'}'s turn.`);
+  }
+  return null;
+};
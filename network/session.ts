@@ -0,0 +1,62 @@
+// Lets a client that reloads or drops its connection take its investigator
+// back. The host hands out one token per registered investigator; the client
+// keeps it for the room it joined.
+
+import { SecretObjective } from '../types';
+import { sha256 } from './digest';
+
+const SESSION_KEY = 'echoes-madness-session';
+
+export interface Session {
+  roomCode: string;
+  playerId: string;
+  token: string;
+}
+
+export const createSessionToken = (): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// What the heir holds of each token: enough to check one presented after a
+// takeover, not to present it
+export const digestSessionToken = (token: string): string => sha256(token);
+
+// Likewise for the secret objectives a resuming client brings back
+export const digestObjective = (objective: SecretObjective): string =>
+  sha256(JSON.stringify([objective.goal, objective.count ?? null, objective.text]));
+
+export const loadSession = (roomCode: string): Session | null => {
+  try {
+    const session = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+    return session && session.roomCode === roomCode.toUpperCase() ? session : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// The room code of the last session, to offer rejoining it after a reload
+export const lastSessionRoom = (): string => {
+  try {
+    return JSON.parse(localStorage.getItem(SESSION_KEY) || 'null')?.roomCode || '';
+  } catch (e) {
+    return '';
+  }
+};
+
+export const saveSession = (session: Session) => {
+  try {
+    localStorage.setItem(SESSION_KEY, JSON.stringify({ ...session, roomCode: session.roomCode.toUpperCase() }));
+  } catch (e) {
+    console.warn("Could not store the session:", e);
+  }
+};
+
+export const clearSession = () => {
+  try {
+    localStorage.removeItem(SESSION_KEY);
+  } catch (e) {
+    // Storage unavailable, nothing to clear
+  }
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, diffValue } from './sync';
+import { createInitialState } from '../engine';
+
+const roundTrip = (prev: unknown, next: unknown) => {
+  const patch = diffValue(prev, next);
+  // The patch travels as JSON
+  return patch ? applyPatch(JSON.parse(JSON.stringify(prev)), JSON.parse(JSON.stringify(patch))) : prev;
+};
+
+describe('state patches', () => {
+  it('turns the previous state into the next one', () => {
+    const prev = { ...createInitialState(1), log: ['a', 'b', 'c'], tiles: [{ id: 't1', x: 0, y: 0 }] } as any;
+    const next = {
+      ...prev,
+      round: 2,
+      log: ['b', 'c', 'd', 'e'],
+      tiles: [prev.tiles[0], { id: 't2', x: 1, y: 0 }],
+      activeDiceRoll: { playerId: 'a', faces: ['Blank'] },
+      isEscapeOpen: true
+    };
+    delete next.seed;
+    expect(roundTrip(prev, next)).toEqual(next);
+  });
+
+  it('sends nothing when nothing changed', () => {
+    const state = createInitialState(1);
+    expect(diffValue(state, { ...state })).toBeUndefined();
+  });
+
+  it('drops trimmed log lines from the front instead of resending the log', () => {
+    const prev = { log: ['a', 'b', 'c', 'd'] };
+    const next = { log: ['c', 'd', 'e'] };
+    expect(diffValue(prev, next)).toEqual({ $obj: { log: { $arr: { 2: { $set: 'e' } }, drop: 2, length: 3 } } });
+    expect(roundTrip(prev, next)).toEqual(next);
+  });
+
+  it('removes fields that were cleared', () => {
+    const prev = { activePuzzle: { seed: 1 }, round: 1 };
+    expect(roundTrip(prev, { round: 1 })).toEqual({ round: 1 });
+  });
+});
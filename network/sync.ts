@@ -0,0 +1,81 @@
+import { GameState } from '../types';
+import { Replica } from './protocol';
+
+// What the host keeps in step on each client: that client's view of the game
+// and, for the heir only, the replica.
+export interface SyncPayload {
+  state: GameState;
+  replica?: Replica;
+}
+
+// A full snapshot is sent after this many patches, whatever happened in between
+export const SNAPSHOT_INTERVAL = 50;
+
+// --- Patches ---
+
+// A change to one JSON value. Objects and arrays are patched member by
+// member, so unchanged tiles, log lines and players are never resent. An
+// array may first drop items from its front (the log is trimmed that way).
+export type Patch =
+  | { $set: unknown }
+  | { $obj: Record<string, Patch>; $del?: string[] }
+  | { $arr: Record<number, Patch>; drop: number; length: number };
+
+const isPlainObject = (v: unknown): v is Record<string, any> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// How many items were dropped from the front of prev to line it up with next
+const findShift = (prev: unknown[], next: unknown[]) => {
+  if (prev.length === 0 || next.length === 0 || prev[0] === next[0]) return 0;
+  for (let drop = 1; drop < prev.length; drop++) {
+    const overlap = Math.min(prev.length - drop, next.length);
+    let aligned = true;
+    for (let i = 0; i < overlap && aligned; i++) aligned = prev[drop + i] === next[i];
+    if (aligned) return drop;
+  }
+  return 0;
+};
+
+// The patch turning prev into next, or undefined when they are equal
+export const diffValue = (prev: unknown, next: unknown): Patch | undefined => {
+  if (prev === next) return undefined;
+
+  if (isPlainObject(prev) && isPlainObject(next)) {
+    const changes: Record<string, Patch> = {};
+    const deleted = Object.keys(prev).filter(k => prev[k] !== undefined && next[k] === undefined);
+    Object.keys(next).forEach(k => {
+      if (next[k] === undefined) return;
+      const change = prev[k] === undefined ? { $set: next[k] } : diffValue(prev[k], next[k]);
+      if (change) changes[k] = change;
+    });
+    if (Object.keys(changes).length === 0 && deleted.length === 0) return undefined;
+    return deleted.length > 0 ? { $obj: changes, $del: deleted } : { $obj: changes };
+  }
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    const drop = findShift(prev, next);
+    const changes: Record<number, Patch> = {};
+    next.forEach((item, i) => {
+      const change = drop + i < prev.length ? diffValue(prev[drop + i], item) : { $set: item };
+      if (change) changes[i] = change;
+    });
+    if (Object.keys(changes).length === 0 && drop === 0 && prev.length === next.length) return undefined;
+    return { $arr: changes, drop, length: next.length };
+  }
+
+  return { $set: next };
+};
+
+export const applyPatch = (value: any, patch: Patch): any => {
+  if ('$set' in patch) return patch.$set;
+
+  if ('$obj' in patch) {
+    const result: Record<string, any> = { ...(isPlainObject(value) ? value : {}) };
+    (patch.$del || []).forEach(k => { delete result[k]; });
+    Object.keys(patch.$obj).forEach(k => { result[k] = applyPatch(result[k], patch.$obj[k]); });
+    return result;
+  }
+
+  const base: any[] = Array.isArray(value) ? value.slice(patch.drop) : [];
+  return Array.from({ length: patch.length }, (_, i) => patch.$arr[i] ? applyPatch(base[i], patch.$arr[i]) : base[i]);
+};
@@ -0,0 +1,25 @@
+import { Scenario } from '../types';
+
+// The procedural default: every room, the intro and the Mythos events come
+// from the narrative service.
+export const BLACKWOOD_MANOR: Scenario = {
+  id: 'blackwood-manor',
+  title: 'The Silent Manor',
+  summary: 'An old friend summoned you to Blackwood Manor. Gather the evidence of what happened there and get out alive.',
+  evidence: {
+    name: 'Incriminating Evidence',
+    required: 4,
+    searchChance: 0.2
+  },
+  victory: 'ESCAPE',
+  doomLimit: 15,
+  finaleText: 'You found the final piece of evidence! The ancient ritual is exposed. The Master of the House has awoken! RETREAT TO THE FOYER!',
+  victoryText: 'You have escaped the manor with your lives and your sanity... mostly.',
+  defeatText: 'The manor claims another soul. Your investigation ends here.',
+  boss: {
+    templateId: 'm_shoggoth',
+    healthPerInvestigator: 3,
+    damageBonus: 1,
+    horrorBonus: 1
+  }
+};
@@ -0,0 +1,76 @@
+import { Scenario } from '../types';
+
+// A fully authored investigation: fixed rooms holding the evidence, a boss
+// that has to be destroyed rather than escaped, and a scripted Mythos deck.
+export const DROWNED_CHAPEL: Scenario = {
+  id: 'drowned-chapel',
+  title: 'The Drowned Chapel',
+  summary: 'The Marsh family chapel flooded on a night without rain. Find the parish records and put down what rose from the water before the tide returns.',
+  intro: {
+    title: 'The Drowned Chapel',
+    introText: 'Salt water still beads on the walls of the Marsh estate, though the sea is a mile away. The family is gone, the servants fled, and something below the chapel is singing.',
+    startingRoomDescription: 'A damp entrance hall. Seaweed is tangled in the chandelier and the tiles are slick underfoot.'
+  },
+  evidence: {
+    name: 'Parish Record',
+    required: 3,
+    searchChance: 0.1
+  },
+  victory: 'BANISH_BOSS',
+  doomLimit: 10,
+  finaleText: 'The last record names the thing the Marshes bargained with. The chapel floor splits and it rises from the flooded crypt. DESTROY IT!',
+  victoryText: 'The singing stops. The water drains from the chapel, leaving only silt and silence.',
+  defeatText: 'The tide returns, and the Marsh estate sinks beneath it with you inside.',
+  boss: {
+    templateId: 'm_starspawn',
+    name: 'Thing in the Crypt',
+    healthPerInvestigator: 2,
+    damageBonus: 1,
+    spawnRoom: 'The Flooded Nave'
+  },
+  rooms: [
+    {
+      name: 'Vestry',
+      description: 'Cassocks hang dripping from their hooks. A ledger lies open on the desk.',
+      visualType: 'study',
+      searchPoints: [
+        { description: 'The Open Ledger', attribute: 'Lore', evidence: true },
+        { description: 'Cassock Pockets', attribute: 'Observation' }
+      ],
+      interactPoints: [{ description: 'The Sexton', attribute: 'Influence' }]
+    },
+    {
+      name: 'Cloister',
+      description: 'A covered walk around a drowned garden. Something moves under the water.',
+      visualType: 'hallway',
+      searchPoints: [
+        { description: 'A Sunken Bench', attribute: 'Strength' },
+        { description: 'A Waterlogged Satchel', attribute: 'Observation', hidden: true, evidence: true }
+      ],
+      sightPoint: 'A Rose Window'
+    },
+    {
+      name: 'The Flooded Nave',
+      description: 'Pews float in knee-deep water. The altar is carved with fish-eyed saints.',
+      visualType: 'ritual',
+      searchPoints: [
+        { description: 'The Altar', attribute: 'Will', evidence: true },
+        { description: 'The Font', attribute: 'Lore' }
+      ]
+    }
+  ],
+  mythos: {
+    scripted: {
+      1: { narrative: 'Somewhere below, a bell tolls under water.', type: 'FLAVOR' },
+      4: { narrative: 'The water rises to your ankles and something swims against your legs.', type: 'SPAWN', param: 'Monster', doom: 1 },
+      8: { narrative: 'The singing swells until it drowns out your own thoughts. Test Willpower.', type: 'TEST', param: 'Will' }
+    },
+    deck: [
+      { narrative: 'Wet footprints lead past you and stop at a blank wall.', type: 'FLAVOR' },
+      { narrative: 'Far off, the tide turns. You hear it in the pipes.', type: 'FLAVOR', doom: 1 },
+      { narrative: 'A hymn you never learned is on your lips. Test Willpower.', type: 'TEST', param: 'Will' },
+      { narrative: 'Something climbs out of a flooded drain!', type: 'SPAWN', param: 'Monster' },
+      { narrative: 'The smell of brine is overwhelming for a moment, then gone.', type: 'FLAVOR' }
+    ]
+  }
+};
@@ -0,0 +1,13 @@
+import { Scenario } from '../types';
+import { BLACKWOOD_MANOR } from './blackwood-manor';
+import { DROWNED_CHAPEL } from './drowned-chapel';
+
+// Every scenario offered in the lobby. Add new ones here.
+export const SCENARIOS: Scenario[] = [BLACKWOOD_MANOR, DROWNED_CHAPEL];
+
+export const DEFAULT_SCENARIO_ID = BLACKWOOD_MANOR.id;
+
+// Unknown ids (e.g. from a save made with a scenario since removed) fall
+// back to the procedural default
+export const getScenario = (id: string | undefined): Scenario =>
+  SCENARIOS.find(s => s.id === id) || BLACKWOOD_MANOR;
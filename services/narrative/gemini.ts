@@ -0,0 +1,97 @@
+import { GoogleGenAI, Schema as GeminiSchema, Type } from "@google/genai";
+import { NarrativeProvider, Schema } from "./types";
+import { offlineProvider } from "./offline";
+import { createModelProvider } from "./model";
+
+// Safe API Key retrieval for Browser/ESM environments
+const getApiKey = () => {
+  try {
+    // Check for standard process.env (Node/Webpack/Vite with define)
+    if (typeof process !== 'undefined' && process.env && process.env.API_KEY) {
+      return process.env.API_KEY;
+    }
+    // Check for Vite's import.meta.env
+    // @ts-ignore
+    if (typeof import.meta !== 'undefined' && import.meta.env && import.meta.env.VITE_API_KEY) {
+      // @ts-ignore
+      return import.meta.env.VITE_API_KEY;
+    }
+  } catch (e) {
+    console.warn("Could not read API Key environment variables", e);
+  }
+  return undefined;
+};
+
+const MODEL = 'gemini-2.5-flash';
+
+const TYPES: Record<Schema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+const toGeminiSchema = (schema: Schema): GeminiSchema => ({
+  type: TYPES[schema.type],
+  ...(schema.enum && { enum: schema.enum }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)]))
+  })
+});
+
+const isQuotaError = (error: any) =>
+  error?.status === 429 ||
+  error?.code === 429 ||
+  error?.message?.includes('quota') ||
+  error?.message?.includes('429') ||
+  error?.message?.includes('EXHAUSTED');
+
+export const isGeminiConfigured = () => !!getApiKey();
+
+// Without an API key this is the offline provider
+export const createGeminiProvider = (): NarrativeProvider => {
+  const apiKey = getApiKey();
+  if (!apiKey) return offlineProvider;
+  const ai = new GoogleGenAI({ apiKey });
+
+  // Circuit breaker: if we hit a quota limit, stop trying to call the API for the session
+  let isOffline = false;
+
+  const generateWithRetry = async <T,>(fn: () => Promise<T>, retries = 1, delay = 1000): Promise<T> => {
+    if (isOffline) throw new Error("Offline Mode");
+
+    try {
+      return await fn();
+    } catch (error: any) {
+      if (isQuotaError(error)) {
+        console.log("Quota exceeded. Switching to offline fallback mode.");
+        isOffline = true; // Trip the circuit breaker
+        throw new Error("Quota Exceeded");
+      }
+
+      if (retries > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+        return generateWithRetry(fn, retries - 1, delay * 2);
+      }
+      throw error;
+    }
+  };
+
+  return createModelProvider('gemini', async (request) => {
+    const response = await generateWithRetry(() => ai.models.generateContent({
+      model: MODEL,
+      contents: request.prompt,
+      config: {
+        maxOutputTokens: request.maxTokens,
+        ...(request.schema && {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(request.schema)
+        })
+      }
+    }));
+    return response.text || "";
+  });
+};
@@ -0,0 +1,48 @@
+import { NarrativeProvider, NarrativeProviderId, NarrativeSettings } from "./types";
+import { createGeminiProvider, isGeminiConfigured } from "./gemini";
+import { createLocalProvider, DEFAULT_LOCAL_ENDPOINT, DEFAULT_LOCAL_MODEL } from "./local";
+import { offlineProvider } from "./offline";
+
+export type { NarrativeProvider, NarrativeProviderId, NarrativeSettings } from "./types";
+
+// Only the host narrates, so only the host's choice matters
+const SETTINGS_KEY = 'echoes-madness-narrator';
+
+// Offered in the lobby, in this order
+export const NARRATIVE_PROVIDERS: { id: NarrativeProviderId; label: string; summary: string }[] = [
+  { id: 'gemini', label: 'Gemini', summary: 'Google Gemini writes the story. Needs an API key.' },
+  { id: 'local', label: 'Local Model', summary: 'A model on your machine through an OpenAI-compatible API (llama.cpp, Ollama).' },
+  { id: 'offline', label: 'Offline', summary: 'Built-in text. No model needed.' }
+];
+
+const defaultSettings = (): NarrativeSettings => ({
+  providerId: isGeminiConfigured() ? 'gemini' : 'offline',
+  localEndpoint: DEFAULT_LOCAL_ENDPOINT,
+  localModel: DEFAULT_LOCAL_MODEL
+});
+
+export const loadNarrativeSettings = (): NarrativeSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    const settings = { ...defaultSettings(), ...saved };
+    return NARRATIVE_PROVIDERS.some(p => p.id === settings.providerId) ? settings : defaultSettings();
+  } catch (e) {
+    return defaultSettings();
+  }
+};
+
+export const saveNarrativeSettings = (settings: NarrativeSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not store the narrator settings:", e);
+  }
+};
+
+export const createNarrativeProvider = (settings: NarrativeSettings): NarrativeProvider => {
+  switch (settings.providerId) {
+    case 'gemini': return createGeminiProvider();
+    case 'local': return createLocalProvider(settings.localEndpoint || undefined, settings.localModel || undefined);
+    default: return offlineProvider;
+  }
+};
@@ -0,0 +1,39 @@
+import { NarrativeProvider } from "./types";
+import { createModelProvider } from "./model";
+
+// A model served on the player's own machine through an OpenAI-compatible
+// API, as llama.cpp's server and Ollama both offer.
+
+export const DEFAULT_LOCAL_ENDPOINT = 'http://localhost:11434/v1';
+export const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+// Small local models can be slow, but a turn should not hang forever
+const REQUEST_TIMEOUT_MS = 60000;
+
+export const createLocalProvider = (endpoint = DEFAULT_LOCAL_ENDPOINT, model = DEFAULT_LOCAL_MODEL): NarrativeProvider => {
+  const baseUrl = endpoint.replace(/\/+$/, '');
+
+  return createModelProvider('local', async (request) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal: controller.signal,
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: request.prompt }],
+          max_tokens: request.maxTokens,
+          // The prompt spells out the fields; servers only guarantee valid JSON
+          ...(request.schema && { response_format: { type: 'json_object' } })
+        })
+      });
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      const data = await response.json();
+      return data?.choices?.[0]?.message?.content || "";
+    } finally {
+      clearTimeout(timer);
+    }
+  });
+};
@@ -0,0 +1,98 @@
+import { NarrativeProvider, NarrativeProviderId, NarrativeRequest } from "./types";
+import * as Prompts from "./prompts";
+import { offlineProvider } from "./offline";
+import { Conformed, conform } from "./validate";
+
+// Sends one request to a language model and resolves with its raw text.
+// Rejects when the model cannot answer.
+export type Complete = (request: NarrativeRequest) => Promise<string>;
+
+export const cleanJson = (text: string) => {
+  if (!text) return "";
+  let clean = text.replace(/```json\s*/g, "").replace(/```\s*$/g, "");
+
+  // Attempt to extract the first JSON object if there's surrounding text
+  const firstBrace = clean.indexOf('{');
+  const lastBrace = clean.lastIndexOf('}');
+
+  if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
+    clean = clean.substring(firstBrace, lastBrace + 1);
+  }
+
+  return clean.trim();
+};
+
+// Reads the model's text as the request asked: plain text, or JSON that
+// conforms to the schema
+const readAnswer = (request: NarrativeRequest, text: string): Conformed => {
+  if (!request.schema) {
+    const answer = (text || '').trim();
+    return { value: answer, problems: answer ? [] : ['The answer is empty.'] };
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleanJson(text));
+  } catch (e) {
+    return { value: undefined, problems: ['The answer is not valid JSON.'] };
+  }
+  const conformed = conform(parsed, request.schema);
+  return conformed.value === undefined && conformed.problems.length === 0
+    ? { value: undefined, problems: ['The answer is empty.'] }
+    : conformed;
+};
+
+// A wrong answer is sent back once with what was wrong with it
+const MAX_CORRECTIONS = 1;
+
+const correctionRequest = (request: NarrativeRequest, answer: string, problems: string[]): NarrativeRequest => ({
+  ...request,
+  prompt: `${request.prompt}
+
+    Your previous answer could not be used:
+    ${(answer || '').slice(0, 2000)}
+
+    Problems: ${problems.join(' ')}
+    Answer again, fixing these problems.${request.schema ? ' Output only the JSON.' : ''}
+  `
+});
+
+// A provider backed by any model that completes prompts. Answers are checked
+// against the request's schema; every answer the model cannot give, even
+// after a correction, comes from the offline provider instead.
+export const createModelProvider = (id: NarrativeProviderId, complete: Complete): NarrativeProvider => {
+  // The schema check is what makes the result a T
+  const ask = async <T,>(request: NarrativeRequest, fallback: () => Promise<T>): Promise<T> => {
+    let attempt = request;
+    try {
+      for (let corrections = 0; ; corrections++) {
+        const text = await complete(attempt);
+        const { value, problems } = readAnswer(request, text);
+        if (problems.length === 0) return value as T;
+        if (corrections >= MAX_CORRECTIONS) throw new Error(problems.join(' '));
+        console.warn(`Invalid answer (${request.label}), asking for a correction:`, problems);
+        attempt = correctionRequest(request, text, problems);
+      }
+    } catch (error) {
+      console.error(`API Error (${request.label}), using fallback:`, error);
+      return fallback();
+    }
+  };
+
+  return {
+    id,
+    generateIntro: (difficulty, investigators, seed) =>
+      ask(Prompts.introRequest(difficulty, investigators), () => offlineProvider.generateIntro(difficulty, investigators, seed)),
+    generateRoomDiscovery: (direction, context, fromRoomType, existingTypes, seed) =>
+      ask(Prompts.roomRequest(direction, context, fromRoomType, existingTypes),
+        () => offlineProvider.generateRoomDiscovery(direction, context, fromRoomType, existingTypes, seed)),
+    generateInvestigationOutcome: (tokenDesc, success, context, foundObject, seed) =>
+      ask(Prompts.investigationRequest(tokenDesc, success, context, foundObject),
+        () => offlineProvider.generateInvestigationOutcome(tokenDesc, success, context, foundObject, seed)),
+    generateInteraction: (description, context, seed) =>
+      ask(Prompts.interactionRequest(description, context), () => offlineProvider.generateInteraction(description, context, seed)),
+    generateMythosEvent: (context, threatLevel, board, seed) =>
+      ask(Prompts.mythosRequest(threatLevel, context, board), () => offlineProvider.generateMythosEvent(context, threatLevel, board, seed)),
+    generateInsanityCondition: (context, seed) =>
+      ask(Prompts.insanityRequest(context), () => offlineProvider.generateInsanityCondition(context, seed))
+  };
+};
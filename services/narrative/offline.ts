@@ -0,0 +1,157 @@
+import { InteractionResult, IntroResult, MythosBoard, MythosResult, RoomResult, SearchPointResult, SecretObjective } from "../../types";
+import { Rng, createRng } from "../../engine/rng";
+import { ContentPack, NarrativeProvider, PackMythos, PackRoom, Template, Weighted } from "./types";
+import { DEFAULT_PACK } from "./packs";
+
+// Plays without any model by drawing from a content pack. Draws use the seed
+// the engine handed out with the request, so a replayed game tells the same
+// story; without one the question itself is hashed.
+
+// FNV-1a, enough to spread picks across a short list
+const hash = (...parts: string[]) => {
+  let h = 0x811c9dc5;
+  for (const c of parts.join('|')) {
+    h ^= c.charCodeAt(0);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const rngFor = (seed: number | undefined, ...key: string[]) => createRng(seed ?? hash(...key));
+
+// --- Tables ---
+
+const drawWeighted = <T,>(list: Weighted<T>[], rng: Rng): Weighted<T> | undefined => {
+  const total = list.reduce((sum, entry) => sum + Math.max(0, entry.weight ?? 1), 0);
+  if (total <= 0) return list.length > 0 ? rng.pick(list) : undefined;
+  let roll = rng.next() * total;
+  for (const entry of list) {
+    roll -= Math.max(0, entry.weight ?? 1);
+    if (roll < 0) return entry;
+  }
+  return list[list.length - 1];
+};
+
+const withoutWeight = <T,>({ weight, ...entry }: Weighted<T>): T => entry as T;
+
+const fill = (text: string, values: Record<string, string>) =>
+  text.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+
+const drawTemplate = (templates: Template[], rng: Rng, values: Record<string, string>) =>
+  fill(drawWeighted(templates, rng)?.text || '', values);
+
+// --- Generators ---
+
+const MIN_SEARCH_POINTS = 2;
+
+// The room's own search points, topped up from the pack's table with points
+// that suit its type. Hidden points are only offered where there is something
+// to look through.
+const furnish = (pack: ContentPack, room: PackRoom, rng: Rng): RoomResult => {
+  const { weight, repeatable, required, ...result } = room as Weighted<PackRoom>;
+  const points: SearchPointResult[] = [...(room.searchPoints || [])];
+  const wanted = MIN_SEARCH_POINTS + rng.int(2);
+
+  let candidates = pack.searchPoints.filter(p =>
+    (!p.rooms || p.rooms.includes(room.visualType)) &&
+    (!p.hidden || !!room.sightPoint) &&
+    !points.some(existing => existing.description === p.description)
+  );
+  while (points.length < wanted && candidates.length > 0) {
+    const point = drawWeighted(candidates, rng)!;
+    candidates = candidates.filter(p => p !== point);
+    const { weight, rooms, ...searchPoint } = point;
+    points.push(searchPoint);
+  }
+
+  return { ...result, searchPoints: points };
+};
+
+const room = (pack: ContentPack, fromType: string, existingTypes: string[], rng: Rng): RoomResult => {
+  const normalizedTypes = existingTypes.map(t => t.toLowerCase());
+
+  // Rooms open onto hallways and hallways onto rooms
+  if (fromType !== 'hallway') return furnish(pack, drawWeighted(pack.hallways, rng)!, rng);
+
+  const missing = pack.rooms.filter(r => r.required && !normalizedTypes.includes(r.visualType));
+  if (missing.length > 0) return furnish(pack, drawWeighted(missing, rng)!, rng);
+
+  const available = pack.rooms.filter(r => r.repeatable || !normalizedTypes.includes(r.visualType));
+  const pool = available.length > 0 ? available : pack.rooms.filter(r => r.repeatable);
+  return furnish(pack, drawWeighted(pool.length > 0 ? pool : pack.rooms, rng)!, rng);
+};
+
+const investigation = (pack: ContentPack, tokenDesc: string, success: boolean, rng: Rng, foundObject?: string) => {
+  const values = { object: tokenDesc, item: foundObject || '' };
+  if (!success) return drawTemplate(pack.outcomes.nothing, rng, values);
+  return drawTemplate(foundObject ? pack.outcomes.found : pack.outcomes.clue, rng, values);
+};
+
+const interaction = (pack: ContentPack, description: string, rng: Rng): InteractionResult => {
+  const values = { subject: description };
+  const template = withoutWeight(drawWeighted(pack.interactions, rng)!);
+  return {
+    narrative: fill(template.narrative, values),
+    choices: template.choices.map(c => ({ ...c, text: fill(c.text, values), success: fill(c.success, values), failure: fill(c.failure, values) }))
+  };
+};
+
+// Events are drawn from those written for the current threat, or from all of
+// them if the pack has none that fit, and that the board can stage: no moving
+// monsters that are not there, no locking doors that are not closed
+const stageable = (event: PackMythos, board: MythosBoard) => {
+  const effects = event.effects || [];
+  const needsMonster = event.narrative.includes('{monster}') || effects.some(e => e.type === 'MOVE_MONSTER');
+  const needsDoor = effects.some(e => e.type === 'LOCK_DOOR');
+  return (!needsMonster || board.monsters.length > 0) && (!needsDoor || board.rooms.some(r => r.closedDoors > 0));
+};
+
+const mythos = (pack: ContentPack, threatLevel: number, board: MythosBoard, rng: Rng): MythosResult => {
+  const possible = pack.mythos.filter(m => stageable(m, board));
+  const pool = possible.length > 0 ? possible : pack.mythos.filter(m => !m.effects?.length);
+  const fitting = pool.filter(m => threatLevel >= (m.minThreat ?? 0) && threatLevel <= (m.maxThreat ?? Infinity));
+  const { weight, minThreat, maxThreat, ...event } = drawWeighted(fitting.length > 0 ? fitting : pool, rng)!;
+
+  // Targets: an investigator, the room they stand in (or one with a door to
+  // lock) and a monster, named in the story and in the effects alike
+  const investigator = board.investigators.length > 0 ? rng.pick(board.investigators) : undefined;
+  const withDoors = board.rooms.filter(r => r.closedDoors > 0);
+  const room = event.effects?.some(e => e.type === 'LOCK_DOOR') && withDoors.length > 0
+    ? rng.pick(withDoors).name
+    : investigator?.room || (board.rooms.length > 0 ? rng.pick(board.rooms).name : undefined);
+  const monster = board.monsters.length > 0 ? rng.pick(board.monsters) : undefined;
+  const values = { room: room || 'the dark', investigator: investigator?.name || 'someone', monster: monster?.name || 'something' };
+
+  return {
+    ...event,
+    narrative: fill(event.narrative, values),
+    ...(event.effects && {
+      effects: event.effects.map(e => ({
+        ...e,
+        room: e.room ?? room,
+        investigator: e.type === 'TEST' ? e.investigator ?? investigator?.name : e.investigator,
+        monster: e.type === 'MOVE_MONSTER' ? e.monster ?? monster?.id : e.monster
+      }))
+    })
+  };
+};
+
+// --- Provider ---
+
+export const createOfflineProvider = (pack: ContentPack): NarrativeProvider => ({
+  id: 'offline',
+  generateIntro: async (difficulty, investigators, seed) =>
+    withoutWeight<IntroResult>(drawWeighted(pack.intros, rngFor(seed, difficulty, ...investigators.map(p => p.name)))!),
+  generateRoomDiscovery: async (direction, _context, fromRoomType, existingTypes, seed) =>
+    room(pack, fromRoomType, existingTypes, rngFor(seed, direction, fromRoomType, ...existingTypes)),
+  generateInvestigationOutcome: async (tokenDesc, success, _context, foundObject, seed) =>
+    investigation(pack, tokenDesc, success, rngFor(seed, tokenDesc, String(success)), foundObject),
+  generateInteraction: async (description, _context, seed) =>
+    interaction(pack, description, rngFor(seed, description)),
+  generateMythosEvent: async (context, threatLevel, board, seed) =>
+    mythos(pack, threatLevel, board, rngFor(seed, context || '', String(threatLevel))),
+  generateInsanityCondition: async (context, seed) =>
+    withoutWeight<SecretObjective>(drawWeighted(pack.insanity, rngFor(seed, context || ''))!)
+});
+
+export const offlineProvider = createOfflineProvider(DEFAULT_PACK);
@@ -0,0 +1,7 @@
+import { ContentPack } from '../types';
+import GOTHIC_MANOR from './gothic-manor.json';
+
+// Every content pack the offline provider can draw from. Add new ones here.
+export const CONTENT_PACKS: ContentPack[] = [GOTHIC_MANOR as ContentPack];
+
+export const DEFAULT_PACK = CONTENT_PACKS[0];
@@ -0,0 +1,250 @@
+import { Attribute, MythosBoard, Player, Tile } from "../../types";
+import { MONSTER_TEMPLATES } from "../../constants";
+import { NarrativeRequest, Schema } from "./types";
+
+// The prompts every model-backed provider sends. Keeping them in one place
+// means a local model is asked exactly what Gemini is.
+
+const attribute = (fallback: Attribute): Schema => ({ type: 'string', enum: Object.values(Attribute), default: fallback });
+
+const VISUAL_TYPES: Tile['imageType'][] = ['hallway', 'study', 'bedroom', 'dining', 'garden', 'ritual', 'kitchen', 'bathroom', 'closet'];
+
+export const introRequest = (difficulty: string, investigators: Player[]): NarrativeRequest => ({
+  label: 'Intro',
+  prompt: `
+    Intro for Mansions of Madness style game.
+    Diff: ${difficulty}. Inv: ${investigators.map(p => p.name).join(", ")}.
+    Theme: Lovecraft.
+    Output JSON: {title, introText, startingRoomDescription}
+  `,
+  maxTokens: 8192,
+  schema: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      introText: { type: 'string' },
+      startingRoomDescription: { type: 'string' }
+    },
+    required: ['title', 'introText', 'startingRoomDescription']
+  }
+});
+
+export const roomRequest = (direction: string, context: string, fromRoomType: string, existingTypes: string[]): NarrativeRequest => {
+  const normalizedExisting = existingTypes.map(t => t.toLowerCase());
+  const bedroomCount = normalizedExisting.filter(t => t === 'bedroom').length;
+  const closetCount = normalizedExisting.filter(t => t === 'closet').length;
+
+  const missingMandatory = [];
+  if (!normalizedExisting.includes('kitchen')) missingMandatory.push('kitchen');
+  if (!normalizedExisting.includes('bathroom')) missingMandatory.push('bathroom');
+  if (bedroomCount < 3) missingMandatory.push('bedroom');
+  if (closetCount < 2) missingMandatory.push('closet');
+
+  return {
+    label: 'Room',
+    prompt: `
+    Generating a new map tile to the ${direction}.
+    Current Location Type: ${fromRoomType}.
+    Existing Room Types: ${normalizedExisting.join(', ')}.
+    Missing Mandatory Rooms: ${missingMandatory.join(', ')}.
+    Context: ${context || ''}
+
+    ESTATE LOGIC:
+    1. Structure: Rooms should mostly connect via 'hallway'. If current is Room, generate 'hallway'. If current is Hallway, generate Room.
+    2. Constraints:
+       - ONLY 1 OF EACH: Kitchen, Bathroom, Dining, Study, Ritual, Garden. DO NOT REPEAT THESE.
+       - CAN REPEAT: Bedroom (Aim for 3+), Closet (Aim for 2+), Hallway.
+    3. Priorities:
+       - If 'hallway', prioritize generating Missing Mandatory Rooms (${missingMandatory.join(', ')}).
+
+    IMPORTANT: Provide 2 or 3 distinct 'searchPoints' (Interactable objects like desks, shelves, bodies) in the room to encourage exploration.
+    OPTIONAL: 'interactPoints' for a person or strange object to deal with (attribute usually Influence), and a 'sightPoint'
+    (a window, keyhole or crack) to look through. Search points marked hidden are only found by looking through the sightPoint.
+
+    Output JSON: {
+       name,
+       description,
+       visualType (OPTIONS: hallway, study, bedroom, dining, garden, ritual, kitchen, bathroom, closet),
+       searchPoints: [{ description, attribute, hidden }],
+       interactPoints: [{ description, attribute }],
+       sightPoint
+    }
+  `,
+    maxTokens: 2000,
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        visualType: { type: 'string', enum: VISUAL_TYPES, default: fromRoomType === 'hallway' ? 'study' : 'hallway' },
+        searchPoints: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { description: { type: 'string' }, attribute: attribute(Attribute.Observation), hidden: { type: 'boolean' } },
+            required: ['description']
+          },
+          maxItems: 3,
+          default: [{ description: 'Something Out of Place', attribute: Attribute.Observation }]
+        },
+        interactPoints: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { description: { type: 'string' }, attribute: attribute(Attribute.Influence) },
+            required: ['description']
+          },
+          maxItems: 2
+        },
+        sightPoint: { type: 'string' }
+      },
+      required: ['name', 'description']
+    }
+  };
+};
+
+export const investigationRequest = (tokenDesc: string, success: boolean, context: string, foundObject?: string): NarrativeRequest => ({
+  label: 'Investigate',
+  prompt: `
+    Action: Investigator searches ${tokenDesc}.
+    Result: ${success ? "SUCCESS" : "FAILURE"}.
+    ${success && foundObject ? `Found Item: ${foundObject}` : ''}
+    Context: ${context || ''}
+
+    Write a short immersive description (approx 2 sentences) of the search action and the result.
+    ${success && foundObject ? `Describe finding the ${foundObject} clearly.` : 'Describe finding nothing useful.'}
+    Do not mention "added to inventory" or game mechanics.
+    IMPORTANT: Ensure the response is a complete sentence and ends with a period.
+  `,
+  maxTokens: 800
+});
+
+export const interactionRequest = (description: string, context: string): NarrativeRequest => ({
+  label: 'Interaction',
+  prompt: `
+    The investigator approaches: ${description}.
+    Context: ${context || ''}
+
+    Write a short scene (1-2 sentences) and 2 or 3 ways to deal with it. Talking is usually Influence,
+    but a choice may test any attribute. Difficulty is 1 (easy) to 3 (hard).
+    Each choice gets one sentence told on success (revealing something useful) and one on failure.
+
+    Output JSON: { narrative, choices: [{ text, attribute, difficulty, success, failure }] }
+  `,
+  maxTokens: 1500,
+  schema: {
+    type: 'object',
+    properties: {
+      narrative: { type: 'string' },
+      choices: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            text: { type: 'string' },
+            attribute: attribute(Attribute.Influence),
+            difficulty: { type: 'integer', minimum: 1, maximum: 3, default: 2 },
+            success: { type: 'string' },
+            failure: { type: 'string' }
+          },
+          required: ['text', 'success', 'failure']
+        },
+        maxItems: 3
+      }
+    },
+    required: ['narrative', 'choices']
+  }
+});
+
+// The board in a few lines, so that events can name real rooms and targets
+const describeBoard = (board: MythosBoard) => `
+    Rooms: ${board.rooms.map(r => `${r.name}${r.condition ? ` (${r.condition.toLowerCase()})` : ''}${r.closedDoors ? `, ${r.closedDoors} closed door(s)` : ''}`).join('; ') || 'none'}.
+    Monsters: ${board.monsters.map(m => `${m.name} [id ${m.id}] in ${m.room}, health ${m.health}`).join('; ') || 'none'}.
+    Investigators: ${board.investigators.map(p => `${p.name} in ${p.room}, health ${p.health}/${p.maxHealth}, sanity ${p.sanity}/${p.maxSanity}`).join('; ')}.
+    Monster kinds: ${MONSTER_TEMPLATES.map(t => `${t.id} (${t.name}, tier ${t.tier})`).join(', ')}.`;
+
+export const mythosRequest = (threatLevel: number, context: string, board: MythosBoard): NarrativeRequest => ({
+  label: 'Mythos',
+  prompt: `
+    Generate Mythos Event. Threat Level (1-10): ${threatLevel}.
+    Context: ${context || ''}
+    The board:${describeBoard(board)}
+
+    Logic:
+    - Low threat (1-3): Atmospheric, flavor text mostly.
+    - Med threat (4-7): Spawn monsters OR skill tests. Do NOT always spawn.
+    - High threat (8+): Hard monsters or hard tests.
+    IMPORTANT: Do not spawn monsters every time. Favor atmospheric horror or tests unless threat is very high.
+    Rarely (mostly at high threat), an event brings the enemy's plan closer: set "doom" to 1 and say so in the narrative.
+
+    An event may change the board with up to 3 "effects", naming rooms, monsters and investigators exactly as listed above:
+    - SPAWN: a monster kind ("monster", use a kind's id) appears in a "room".
+    - LOCK_DOOR: the closed doors of a "room" lock.
+    - MOVE_MONSTER: a monster on the board ("monster", use its id) moves to a "room".
+    - TEST: one "investigator" must test an "attribute". Pick on the weak or the isolated.
+    - CONDITION: "FIRE" (burns whoever stays) or "DARKNESS" (hinders searching) fills a "room".
+    The narrative must describe what the effects do. With effects, "type" only sets the mood.
+
+    Output JSON:
+    {
+      "narrative": "Story text describing the event",
+      "type": "SPAWN" | "TEST" | "FLAVOR",
+      "param": "Attribute name for TEST (e.g. Will), or 'Monster' for SPAWN, or null",
+      "doom": 0 | 1,
+      "effects": [{ "type": "SPAWN" | "LOCK_DOOR" | "MOVE_MONSTER" | "TEST" | "CONDITION", "monster", "room", "investigator", "attribute", "condition" }]
+    }
+  `,
+  maxTokens: 1000,
+  schema: {
+    type: 'object',
+    properties: {
+      narrative: { type: 'string' },
+      type: { type: 'string', enum: ["SPAWN", "TEST", "FLAVOR"], default: 'FLAVOR' },
+      param: { type: 'string' },
+      doom: { type: 'integer', minimum: 0, maximum: 1, default: 0 },
+      effects: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ["SPAWN", "LOCK_DOOR", "MOVE_MONSTER", "TEST", "CONDITION"] },
+            monster: { type: 'string' },
+            room: { type: 'string' },
+            investigator: { type: 'string' },
+            attribute: attribute(Attribute.Will),
+            condition: { type: 'string', enum: ["FIRE", "DARKNESS"] }
+          },
+          required: ['type']
+        },
+        maxItems: 3
+      }
+    },
+    required: ['narrative']
+  }
+});
+
+export const insanityRequest = (context: string): NarrativeRequest => ({
+  label: 'Insanity',
+  prompt: `
+      The investigator has gone INSANE. Generate a secret objective that involves betrayal or a selfish goal.
+      It must be one of these goals, checked when the game ends:
+      - HOARD_ITEMS: end the game carrying at least "count" items (1-5).
+      - NO_SURVIVORS_IN_ROOM: end the game with no other investigator in their space.
+      - ESCAPE_ALONE: be the one who escapes, with no other investigator in their space.
+      Context: ${context || ''}
+      Write "text" as a concise, in-character instruction, e.g. "You must hoard at least 3 items."
+
+      Output JSON:
+      { "goal": "HOARD_ITEMS" | "NO_SURVIVORS_IN_ROOM" | "ESCAPE_ALONE", "count": 3, "text": "..." }
+    `,
+  maxTokens: 300,
+  schema: {
+    type: 'object',
+    properties: {
+      goal: { type: 'string', enum: ["HOARD_ITEMS", "NO_SURVIVORS_IN_ROOM", "ESCAPE_ALONE"] },
+      count: { type: 'integer', minimum: 1, maximum: 5 },
+      text: { type: 'string' }
+    },
+    required: ['goal', 'text']
+  }
+});
@@ -0,0 +1,87 @@
+import { InteractionResult, IntroResult, MythosBoard, MythosResult, Player, RoomResult, SearchPointResult, SecretObjective } from "../../types";
+
+// Everything the game asks of a storyteller. Implementations never throw:
+// when their model fails they answer from the offline stand-in instead.
+// The seed comes from the game's generator, so offline answers replay too.
+export interface NarrativeProvider {
+  id: NarrativeProviderId;
+  generateIntro(difficulty: string, investigators: Player[], seed?: number): Promise<IntroResult>;
+  generateRoomDiscovery(direction: string, context: string, fromRoomType: string, existingTypes: string[], seed?: number): Promise<RoomResult>;
+  generateInvestigationOutcome(tokenDesc: string, success: boolean, context: string, foundObject?: string, seed?: number): Promise<string>;
+  generateInteraction(description: string, context: string, seed?: number): Promise<InteractionResult>;
+  generateMythosEvent(context: string, threatLevel: number, board: MythosBoard, seed?: number): Promise<MythosResult>;
+  generateInsanityCondition(context: string, seed?: number): Promise<SecretObjective>;
+}
+
+export type NarrativeProviderId = 'gemini' | 'local' | 'offline';
+
+// Chosen by the host in the lobby and remembered in the browser
+export interface NarrativeSettings {
+  providerId: NarrativeProviderId;
+  localEndpoint: string; // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  localModel: string;
+}
+
+// A JSON schema for the expected answer, in the subset both Gemini and
+// OpenAI-compatible servers understand. Every answer is checked against it
+// before the game sees it (see validate.ts).
+export interface Schema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'boolean';
+  properties?: Record<string, Schema>;
+  items?: Schema;
+  enum?: string[]; // Near misses ("willpower", "Master Bedroom") are matched to the closest value
+  required?: string[]; // Properties the answer is useless without; empty strings and arrays count as missing
+  default?: unknown; // Stands in for a value that is missing or cannot be coerced
+  minimum?: number; // Integers are clamped into range
+  maximum?: number;
+  maxItems?: number; // Extra items are dropped
+}
+
+// One prompt for a language model. Requests without a schema want plain text.
+export interface NarrativeRequest {
+  label: string; // Names the request in error logs
+  prompt: string;
+  schema?: Schema;
+  maxTokens: number;
+}
+
+// --- Content Packs ---
+// Tables the offline provider draws from, written as JSON. Every entry may
+// carry a weight (1 when absent); heavier entries come up more often.
+
+export type Weighted<T> = T & { weight?: number };
+
+export interface PackRoom extends RoomResult {
+  repeatable?: boolean; // Bedrooms and closets; other room types appear once per house
+  required?: boolean; // Drawn before anything else while the house has none of its type
+}
+
+export interface PackSearchPoint extends SearchPointResult {
+  rooms?: string[]; // Visual types it suits, any room when absent
+}
+
+export interface PackMythos extends MythosResult {
+  minThreat?: number;
+  maxThreat?: number;
+}
+
+// Text with placeholders: {object} is what was searched, {item} what was
+// found and {subject} who or what is approached
+export type Template = Weighted<{ text: string }>;
+
+export interface ContentPack {
+  id: string;
+  name: string;
+  intros: Weighted<IntroResult>[];
+  hallways: Weighted<PackRoom>[];
+  rooms: Weighted<PackRoom>[];
+  searchPoints: Weighted<PackSearchPoint>[]; // Tops every room up to two or three points
+  outcomes: {
+    found: Template[]; // A search turned up {item}
+    clue: Template[]; // A search succeeded without an item
+    nothing: Template[];
+  };
+  interactions: Weighted<InteractionResult>[]; // Written around {subject}
+  mythos: Weighted<PackMythos>[];
+  insanity: Weighted<SecretObjective>[];
+}
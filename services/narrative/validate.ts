@@ -0,0 +1,87 @@
+import { Schema } from "./types";
+
+// Checks a model's answer against the schema it was asked for. Near misses are
+// coerced (numbers given as strings, "Willpower" for "Will", a missing field
+// with a default); anything the game cannot use is reported as a problem, in
+// words the model can be asked to correct.
+
+export interface Conformed {
+  value: unknown; // Only what the schema declares, coerced to its types
+  problems: string[];
+}
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isEmpty = (v: unknown) =>
+  v === undefined || v === null || v === '' || (Array.isArray(v) && v.length === 0);
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Exact match ignoring case and punctuation, then the first option contained
+// in the text or containing it
+const matchEnum = (text: string, options: string[]): string | undefined => {
+  const wanted = normalize(text);
+  if (!wanted) return undefined;
+  return options.find(o => normalize(o) === wanted)
+    || options.find(o => wanted.includes(normalize(o)))
+    || options.find(o => normalize(o).includes(wanted));
+};
+
+// The schema's default, or undefined and a problem when there is none
+const fallBack = (schema: Schema, path: string, problem: string): Conformed =>
+  schema.default !== undefined
+    ? { value: schema.default, problems: [] }
+    : { value: undefined, problems: [`${path} ${problem}.`] };
+
+export const conform = (value: unknown, schema: Schema, path = 'The answer'): Conformed => {
+  if (value === undefined || value === null) return { value: schema.default, problems: [] };
+
+  switch (schema.type) {
+    case 'object': {
+      if (!isPlainObject(value)) return fallBack(schema, path, 'must be an object');
+      const result: Record<string, unknown> = {};
+      const problems: string[] = [];
+      Object.entries(schema.properties || {}).forEach(([key, child]) => {
+        const conformed = conform(value[key], child, `"${key}"`);
+        problems.push(...conformed.problems);
+        if (conformed.value !== undefined) result[key] = conformed.value;
+      });
+      (schema.required || []).forEach(key => {
+        if (isEmpty(result[key])) problems.push(`"${key}" is missing.`);
+      });
+      return { value: result, problems };
+    }
+
+    case 'array': {
+      // A lone item is taken as a list of one
+      const list = Array.isArray(value) ? value : [value];
+      // Items that cannot be used are dropped; a required list left empty is reported by its parent
+      const items = list
+        .map(item => schema.items ? conform(item, schema.items, `An item of ${path}`) : { value: item, problems: [] })
+        .filter(c => c.problems.length === 0 && c.value !== undefined)
+        .map(c => c.value);
+      return { value: schema.maxItems !== undefined ? items.slice(0, schema.maxItems) : items, problems: [] };
+    }
+
+    case 'string': {
+      if (typeof value !== 'string' && typeof value !== 'number') return fallBack(schema, path, 'must be text');
+      const text = String(value).trim();
+      if (!schema.enum) return { value: text, problems: [] };
+      const match = matchEnum(text, schema.enum);
+      return match ? { value: match, problems: [] } : fallBack(schema, path, `must be one of ${schema.enum.join(', ')}`);
+    }
+
+    case 'integer': {
+      const number = Math.round(typeof value === 'string' ? parseFloat(value) : Number(value));
+      if (typeof value === 'boolean' || !Number.isFinite(number)) return fallBack(schema, path, 'must be a whole number');
+      return { value: Math.min(schema.maximum ?? Infinity, Math.max(schema.minimum ?? -Infinity, number)), problems: [] };
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value, problems: [] };
+      if (value === 'true' || value === 'false') return { value: value === 'true', problems: [] };
+      return fallBack(schema, path, 'must be true or false');
+    }
+  }
+};
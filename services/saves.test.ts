@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { parseSaveFile, SAVE_VERSION, toSaveFile } from './saves';
+import { createInitialState, STARTING_RESOURCES } from '../engine';
+import { DEFAULT_SCENARIO_ID } from '../scenarios';
+import { GamePhase } from '../types';
+
+// A game as the first save format wrote it: no discard pile, scenario, doom,
+// eliminations or story memory, and objectives as free text
+const v1Save = () => {
+  const { discardPile, scenarioId, scenarioRoomIndex, doom, doomLimit, eliminated, story, ...state } = createInitialState(7);
+  return JSON.stringify({
+    format: 'echoes-of-madness-save',
+    version: 1,
+    name: 'Old game',
+    savedAt: 1,
+    state: {
+      ...state,
+      phase: GamePhase.Playing,
+      round: 3,
+      tiles: [{ id: 't1', x: 0, y: 0, name: 'The Foyer', roomId: 'r1', type: 'room' }],
+      players: [
+        { id: 'a', name: 'Ann', items: [], clues: 0, secretObjective: 'Escape the mansion and leave the others behind.' },
+        { id: 'b', name: 'Bob', items: [], clues: 0, secretObjective: 'Carry at least 3 items at the end.' },
+        { id: 'c', name: 'Cy', items: [], clues: 0, investigatorId: 'inv_6' }
+      ],
+      storyContext: 'You stand before Blackwood Manor. They entered The Foyer: dust everywhere.'
+    }
+  });
+};
+
+describe('save files', () => {
+  it('migrates a version 1 save to the current version', () => {
+    const { save, error } = parseSaveFile(v1Save());
+    expect(error).toBeUndefined();
+    const state = save!.state as any;
+
+    expect(save!.version).toBe(SAVE_VERSION);
+    expect(state.discardPile).toEqual([]);
+    expect(state.scenarioId).toBe(DEFAULT_SCENARIO_ID);
+    expect(state.scenarioRoomIndex).toBe(0);
+    expect(state.doom).toBe(0);
+    expect(state.doomLimit).toBeGreaterThan(0);
+    expect(state.eliminated).toEqual([]);
+    expect(state.players.map((p: any) => p.secretObjective?.goal)).toEqual(['ESCAPE_ALONE', 'HOARD_ITEMS', undefined]);
+    expect(state.players[1].secretObjective.count).toBe(3);
+    expect(state.storyContext).toBeUndefined();
+    expect(state.story.premise).toBe('You stand before Blackwood Manor.');
+    expect(state.story.summary.ROOM).toEqual(['The Foyer']);
+    expect(state.players.map((p: any) => p.resources)).toEqual([undefined, undefined, STARTING_RESOURCES]);
+  });
+
+  it('round-trips a current save unchanged apart from the room code', () => {
+    const state = { ...createInitialState(3), roomCode: 'ABCD', round: 2 };
+    const { save } = parseSaveFile(JSON.stringify(toSaveFile(state, 'Now')));
+    expect(save!.state).toEqual({ ...state, roomCode: '' });
+  });
+
+  it('refuses saves from a newer version and files that are not saves', () => {
+    const newer = JSON.stringify({ ...JSON.parse(v1Save()), version: SAVE_VERSION + 1 });
+    expect(parseSaveFile(newer).error).toMatch(/newer version/);
+    expect(parseSaveFile('{}').error).toMatch(/not an Echoes of Madness save/);
+    expect(parseSaveFile('not json').error).toMatch(/not valid JSON/);
+  });
+});
@@ -0,0 +1,171 @@
+import { GameState, GamePhase, SecretObjective, StoryMemory } from "../types";
+import { createInitialState, createStory, getAbility, getDoomLimit, STARTING_RESOURCES } from "../engine";
+import { DEFAULT_SCENARIO_ID, getScenario } from "../scenarios";
+
+// Bump whenever GameState changes shape and add a migration from the previous
+// version below, so that older save files keep loading.
+export const SAVE_VERSION = 7;
+
+const SAVE_FORMAT = 'echoes-of-madness-save';
+const STORAGE_PREFIX = 'echoes-madness-save:';
+
+export const AUTOSAVE_SLOT = 'Autosave';
+
+export interface SaveFile {
+  format: typeof SAVE_FORMAT;
+  version: number;
+  name: string;
+  savedAt: number;
+  state: GameState;
+}
+
+export interface SaveSlot {
+  name: string;
+  savedAt: number;
+  round: number;
+  phase: GamePhase;
+  investigators: string[];
+}
+
+export type LoadResult = { save: SaveFile; error?: undefined } | { save?: undefined; error: string };
+
+// --- Migrations ---
+
+// Each entry upgrades the saved state from its key version to the next one.
+const MIGRATIONS: Record<number, (state: any) => any> = {
+  // v2: investigator abilities need the discard pile
+  1: state => ({ ...state, discardPile: state.discardPile || [] }),
+  // v3: games before scenarios were all the procedural default
+  2: state => ({ ...state, scenarioId: state.scenarioId || DEFAULT_SCENARIO_ID, scenarioRoomIndex: state.scenarioRoomIndex || 0 }),
+  // v4: the doom clock starts empty for games already under way
+  3: state => ({ ...state, doom: state.doom || 0, doomLimit: state.doomLimit || getDoomLimit(getScenario(state.scenarioId), state) }),
+  // v5: secret objectives became checkable goals; the old text is kept as flavour
+  4: state => ({
+    ...state,
+    eliminated: state.eliminated || [],
+    players: (state.players || []).map((p: any) => typeof p.secretObjective === 'string' ? { ...p, secretObjective: guessObjective(p.secretObjective) } : p)
+  }),
+  // v6: the story string became structured memory
+  5: ({ storyContext, ...state }) => ({ ...state, story: state.story || storyFromText(storyContext || '', state.tiles || []) }),
+  // v7: Preston Fairmont's ability spends Resources instead of Clues
+  6: state => ({
+    ...state,
+    players: (state.players || []).map((p: any) => getAbility(p) === 'CONVERT_DIE' && p.resources === undefined ? { ...p, resources: STARTING_RESOURCES } : p)
+  })
+};
+
+// The old story began with the intro and had every room and search appended
+// to it; the intro becomes the premise and the explored rooms are remembered
+// by name
+const storyFromText = (text: string, tiles: { name: string }[]): StoryMemory => {
+  const story = createStory(text.split(/ (?=They (?:entered|glimpsed) |Investigation of )/)[0].trim());
+  return { ...story, summary: { ...story.summary, ROOM: Array.from(new Set(tiles.map(t => t.name))).slice(-12) } };
+};
+
+// Old objectives were free text, so the goal is read from its wording
+const guessObjective = (text: string): SecretObjective => {
+  if (/escape/i.test(text)) return { goal: 'ESCAPE_ALONE', text };
+  if (/room|space|survivor/i.test(text)) return { goal: 'NO_SURVIVORS_IN_ROOM', text };
+  return { goal: 'HOARD_ITEMS', count: Number(text.match(/\d+/)?.[0]) || 2, text };
+};
+
+const migrate = (state: any, version: number) => {
+  let current = state;
+  for (let v = version; v < SAVE_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new Error(`No migration from save version ${v}.`);
+    current = step(current);
+  }
+  return current;
+};
+
+// --- Serialization ---
+
+// Connection details belong to the session, not to the investigation
+export const toSaveFile = (state: GameState, name: string): SaveFile => ({
+  format: SAVE_FORMAT,
+  version: SAVE_VERSION,
+  name,
+  savedAt: Date.now(),
+  state: { ...state, roomCode: '' }
+});
+
+export const parseSaveFile = (raw: string): LoadResult => {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch (e) {
+    return { error: "The file is not valid JSON." };
+  }
+
+  if (!data || data.format !== SAVE_FORMAT || typeof data.version !== 'number' || typeof data.state !== 'object') {
+    return { error: "This is not an Echoes of Madness save file." };
+  }
+  if (data.version > SAVE_VERSION) {
+    return { error: `This save was made by a newer version of the game (v${data.version}).` };
+  }
+
+  let state: any;
+  try {
+    state = migrate(data.state, data.version);
+  } catch (e: any) {
+    return { error: e.message };
+  }
+
+  // Anything the save does not carry falls back to a fresh game's defaults
+  const restored: GameState = { ...createInitialState(state.seed || 0), ...state };
+  const lists: (keyof GameState)[] = ['players', 'monsters', 'tiles', 'tokens', 'itemDeck', 'log'];
+  if (lists.some(key => !Array.isArray(restored[key]))) {
+    return { error: "The save file is damaged." };
+  }
+
+  return { save: { format: SAVE_FORMAT, version: SAVE_VERSION, name: String(data.name || 'Imported'), savedAt: Number(data.savedAt) || 0, state: restored } };
+};
+
+// --- Local Storage Slots ---
+
+export const listSaves = (): SaveSlot[] => {
+  const slots: SaveSlot[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith(STORAGE_PREFIX)) continue;
+
+    const loaded = loadSave(key.slice(STORAGE_PREFIX.length));
+    if (!loaded.save) continue;
+    const { name, savedAt, state } = loaded.save;
+    slots.push({ name, savedAt, round: state.round, phase: state.phase, investigators: state.players.map(p => p.name) });
+  }
+  return slots.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const writeSave = (name: string, state: GameState): string | null => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + name, JSON.stringify(toSaveFile(state, name)));
+    return null;
+  } catch (e) {
+    console.error("Failed to write save:", e);
+    return "Could not write the save (storage may be full).";
+  }
+};
+
+export const loadSave = (name: string): LoadResult => {
+  const raw = localStorage.getItem(STORAGE_PREFIX + name);
+  if (raw === null) return { error: `No save named "${name}".` };
+  return parseSaveFile(raw);
+};
+
+export const deleteSave = (name: string) => localStorage.removeItem(STORAGE_PREFIX + name);
+
+// --- JSON Files ---
+
+export const exportSave = (name: string, state: GameState) => {
+  const blob = new Blob([JSON.stringify(toSaveFile(state, name), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name.replace(/[^a-z0-9-_]+/gi, '_')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const importSave = async (file: File): Promise<LoadResult> => parseSaveFile(await file.text());
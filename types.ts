@@ -1,3 +1,5 @@
+import type { NarrativeRequestEvent } from './engine/events';
+
 
 export enum Attribute {
   Strength = 'Strength',
@@ -8,11 +10,49 @@ export enum Attribute {
   Will = 'Will'
 }
 
+// Each investigator's special ability. Passive ones apply on their own, the
+// rest are triggered with an AbilityUse.
+export type AbilityId =
+  | 'REROLL'        // Father Mateo: re-roll dice on a Will check, once per round
+  | 'AGILITY_EVADE' // Wendy Adams: evades monsters with Agility instead of Observation
+  | 'EXTRA_CLUE'    // Harvey Walters: starts with an extra Clue and carries 2 more Items
+  | 'GRANT_ACTION'  // Leo Anderson: the investigator in his space gains an Action, once per round
+  | 'PUZZLE_LORE'   // Agatha Crane: +1 success on Lore checks that solve a puzzle
+  | 'CONVERT_DIE'   // Preston Fairmont: spends a Resource to turn any die into a success
+  | 'SCAVENGE'      // William Yorick: takes back a discarded Item when he defeats a monster
+  // Akachi Onyele's card speaks of the spell deck. There are no spells yet, so
+  // until there are she reads the item deck instead and may bury its top card,
+  // once per round.
+  | 'BURY_ITEM'
+  | 'GIVE_ACTION'   // Carson Sinclair: hands one of his Actions to another investigator
+  | 'NEGATE_HORROR'; // Diana Stanley: discards an Item to negate 1 Horror she has taken
+
+export type AbilityUse =
+  | { ability: 'REROLL'; dieIndexes: number[] }
+  | { ability: 'CONVERT_DIE'; dieIndex: number }
+  | { ability: 'GRANT_ACTION'; targetId: string }
+  | { ability: 'GIVE_ACTION'; targetId: string }
+  | { ability: 'BURY_ITEM' }
+  | { ability: 'NEGATE_HORROR'; item: string };
+
+// An exchange the investigator taking their turn offers to another in the
+// same space. It only happens once the partner accepts it.
+export interface TradeOffer {
+  fromId: string;
+  toId: string;
+  giveItems: string[]; // From the proposer to the partner
+  giveClues: number;
+  takeItems: string[]; // From the partner to the proposer
+  takeClues: number;
+}
+
 export interface Investigator {
   id: string;
   name: string;
   title: string;
   ability: string;
+  abilityId: AbilityId;
+  abilityNote?: string; // How the ability plays where the game differs from the card
   health: number;
   sanity: number;
   attributes: Record<Attribute, number>;
@@ -26,6 +66,7 @@ export interface Player {
   color: string; // Dice color
   clues: number;
   items: string[];
+  resources?: number; // Preston Fairmont's fortune, spent on his ability
   health: number;
   sanity: number;
   attributes: Record<Attribute, number>; // Added attributes to player state
@@ -37,11 +78,19 @@ export interface Player {
   // New Status Flags
   isWounded: boolean;
   isInsane: boolean;
-  secretObjective?: string;
+  secretObjective?: SecretObjective; // Handed out on going insane
   usedItemAbilityRound?: boolean; // Track if they used a "Once per round" item
+  usedAbilityRound?: boolean; // Track if they used their "Once per round" ability
+  bonusActions?: number; // Actions handed over by another investigator, added when their turn starts
+  negatableHorror?: number; // Horror taken that an ability may still negate
+  evadedMonsters?: string[]; // Monsters slipped past this turn, they no longer block movement
+  disconnected?: boolean; // The client controlling them has dropped; their turns are passed over
   isReady: boolean; // Lobby Ready Status
 }
 
+// What a joining player chooses; everything else comes from the investigator's template
+export type PlayerRegistration = Pick<Player, 'id' | 'name' | 'investigatorId' | 'color'>;
+
 export interface Monster {
   id: string;
   templateId: string;
@@ -56,6 +105,14 @@ export interface Monster {
   image?: string;
 }
 
+// How a monster acts when it activates in the Mythos phase
+export interface MonsterBehavior {
+  speed: number; // Tiles moved along the map per activation
+  teleports?: boolean; // Ignores the map and appears in its prey's space
+  restsEvery?: number; // Only activates on rounds divisible by this
+  crushing?: boolean; // Strikes every investigator in its space, not just one
+}
+
 export enum TokenType {
   Explore = 'Explore',
   Search = 'Search',
@@ -73,7 +130,10 @@ export interface Token {
   resolved: boolean;
   requiredAttribute?: Attribute; // For skill checks
   difficulty?: number;
-  direction?: 'North' | 'South' | 'East' | 'West'; // For door placement
+  direction?: 'North' | 'South' | 'East' | 'West'; // For door placement (and the view of a Sight token)
+  hidden?: boolean; // Not on the map until a Sight token in the room reveals it
+  evidence?: boolean; // Always holds a piece of the scenario's evidence
+  locked?: boolean; // A door that must be forced (Strength) before it can be opened
 }
 
 export interface Tile {
@@ -90,8 +150,13 @@ export interface Tile {
   roomY?: number; // Min Y of the room
   roomWidth?: number; // Width in tiles
   roomHeight?: number; // Height in tiles
+  condition?: { type: RoomCondition; until: number }; // Set by Mythos effects, cleared in the Mythos phase of round `until`
 }
 
+// FIRE burns whoever is in the room when a Mythos phase begins; DARKNESS makes
+// searching and looking through Sight points there harder
+export type RoomCondition = 'FIRE' | 'DARKNESS';
+
 export enum GamePhase {
   Lobby = 'LOBBY',
   ItemDistribution = 'ITEM_DISTRIBUTION', // New phase
@@ -125,7 +190,12 @@ export enum NetworkMode {
 // Action Context Types for serialization
 export type ActionContext = 
   | { type: 'SEARCH'; tokenId: string }
-  | { type: 'COMBAT'; monsterId: string };
+  | { type: 'COMBAT'; monsterId: string; damage: number }
+  | { type: 'INTERACT'; tokenId: string; choiceIndex: number }
+  | { type: 'SIGHT'; tokenId: string }
+  | { type: 'EVADE'; monsterId: string }
+  | { type: 'MYTHOS_TEST'; playerIds: string[] } // Investigators still to be tested, in turn order
+  | { type: 'FORCE_DOOR'; tokenId: string };
 
 export interface GameState {
   roomCode: string;
@@ -138,12 +208,23 @@ export interface GameState {
   tiles: Tile[];
   tokens: Token[];
   itemDeck: string[]; // Track unique items available to be found
+  discardPile: string[]; // Items spent during the game, most recent last
+  distributionItems: string[]; // Starting items waiting to be assigned during ItemDistribution
   log: string[];
-  storyContext: string; // History for AI
+  story: StoryMemory;        // What the narrator is reminded of (see engine/memory.ts)
   evidenceCollected: number; // New: Current evidence
   evidenceRequired: number;  // New: Goal
+  doom: number;              // Advances every Mythos phase and with some events
+  doomLimit: number;         // The investigators lose when doom reaches it
   isEscapeOpen: boolean;     // New: Phase flag
   networkMode: NetworkMode;  // New: Track if online
+  eliminated: Player[];      // Investigators who succumbed, kept for the scoreboard
+  escapedBy?: string;        // The investigator who opened the way out
+  scoreboard?: ScoreEntry[]; // Set once the game is won or lost
+  scenarioId: string;        // The investigation being played (see scenarios/)
+  scenarioRoomIndex: number; // Next of the scenario's fixed rooms to be revealed
+  seed: number;              // Seed the game was started from (for replays / bug reports)
+  rngState: number;          // Current PRNG state, advanced by the engine only
   
   // Refactored to be purely serializable (No functions)
   activeDiceRoll?: {
@@ -153,15 +234,169 @@ export interface GameState {
     target: number; // Number of successes needed
     description: string;
     context: ActionContext; // Data to identify what to do on completion
+    bonusDice: number; // Added by items before the roll
+    bonusSuccesses?: number; // Added to the rolled successes by abilities
+    faces?: DiceFace[]; // Rolled by the host, absent until the roll is made
   };
   activePuzzle?: {
     type: PuzzleType;
     token: Token;
     context: ActionContext; // Data to identify what to do on completion
+    seed: number; // Seeds the puzzle layout
+    complexity: 1 | 2 | 3; // Set by the difficulty
   };
   
+  pendingTrade?: TradeOffer; // Waiting for the partner to accept or decline
+  activeInteraction?: {
+    tokenId: string;
+    playerId: string;
+    narrative: string;
+    choices: DialogueChoice[];
+  };
+
   mythosEvent?: {
     text: string;
     type: 'SPAWN' | 'TEST' | 'FLAVOR';
   };
+
+  pendingRequests?: NarrativeRequestEvent[]; // Asked of the narrator and not yet answered
+}
+
+// --- Narrative Results ---
+// Shapes returned by the narrative service and fed back into the engine
+
+export interface IntroResult {
+  title: string;
+  introText: string;
+  startingRoomDescription: string;
+}
+
+export interface SearchPointResult {
+  description: string;
+  attribute: string;
+  hidden?: boolean; // Only found by looking through the room's Sight point
+  evidence?: boolean; // Authored search points that always hold evidence
+}
+
+export interface RoomResult {
+  name: string;
+  description: string;
+  visualType: string;
+  searchPoints?: SearchPointResult[];
+  interactPoints?: SearchPointResult[]; // People or objects to deal with, usually Influence
+  sightPoint?: string; // A window, keyhole or crack to look through
+}
+
+// --- Scenarios ---
+// Authored investigations, written as plain data so that they can live in
+// JSON as well as TypeScript. Anything generated is left to the narrative
+// service and the procedural map.
+
+export interface ScenarioBoss {
+  templateId: string; // From MONSTER_TEMPLATES
+  name?: string;
+  healthPerInvestigator: number; // Added to the template's health
+  damageBonus?: number;
+  horrorBonus?: number;
+  spawnRoom?: string; // Room name, a random tile when absent or not yet explored
+}
+
+export interface Scenario {
+  id: string;
+  title: string;
+  summary: string; // Shown in the lobby
+  intro?: IntroResult; // Written by the narrative service when absent
+  evidence: {
+    name: string; // What the investigators are looking for
+    required: number; // Plus one for every two investigators
+    searchChance: number; // Chance (0-1) that any successful search turns one up
+  };
+  victory: 'ESCAPE' | 'BANISH_BOSS'; // What wins the game once the evidence is in
+  doomLimit: number; // Doom that loses the game on Normal difficulty (scaled for the others)
+  finaleText: string;
+  victoryText: string;
+  defeatText: string;
+  boss: ScenarioBoss;
+  rooms?: RoomResult[]; // Revealed in order by the first doors opened, before procedural rooms
+  mythos?: {
+    scripted?: Record<number, MythosResult>; // Fixed events by round
+    deck?: MythosResult[]; // Drawn from otherwise; the narrative service decides when absent
+  };
+}
+
+// One way of dealing with an Interact token, tested when chosen
+export interface DialogueChoice {
+  text: string;
+  attribute: string;
+  difficulty: number;
+  success: string; // Told when the test passes
+  failure: string;
+}
+
+export interface InteractionResult {
+  narrative: string; // What the investigator finds on approaching
+  choices: DialogueChoice[];
+}
+
+// What an insane investigator must achieve by the end of the game to win on
+// their own, checked by the engine
+export interface SecretObjective {
+  goal: 'HOARD_ITEMS' | 'NO_SURVIVORS_IN_ROOM' | 'ESCAPE_ALONE';
+  count?: number; // Items to hoard
+  text: string; // Flavour shown to the investigator
+}
+
+// One investigator's individual result, revealed when the game ends
+export interface ScoreEntry {
+  playerId: string;
+  name: string;
+  won: boolean;
+  reason: string;
+  objective?: string; // The secret objective's text, if they had one
+}
+
+// --- Story Memory ---
+// What the story has established so far, kept as discrete facts so that each
+// request to the narrator gets a short, relevant reminder
+
+export type StoryFactKind = 'ROOM' | 'NPC' | 'ITEM' | 'LORE' | 'EVENT';
+
+export interface StoryFact {
+  kind: StoryFactKind;
+  subject: string; // Short name: the room, person, item or event
+  detail: string; // What was seen or learned
+  round: number;
+}
+
+export interface StoryMemory {
+  premise: string; // The intro, always remembered
+  facts: StoryFact[]; // The most recent facts, oldest first
+  summary: Record<StoryFactKind, string[]>; // Subjects of older facts, folded out of the list
+}
+
+export interface MythosResult {
+  narrative: string;
+  type: 'SPAWN' | 'TEST' | 'FLAVOR';
+  param?: string | null;
+  doom?: number; // Extra doom the event brings, on top of the round's
+  effects?: MythosEffect[]; // When present, played instead of what the type does by default
+}
+
+// One change a Mythos event makes to the board. Targets are named as the
+// narrator sees them (see MythosBoard); a missing or unknown one is picked at
+// random by the engine.
+export interface MythosEffect {
+  type: 'SPAWN' | 'LOCK_DOOR' | 'MOVE_MONSTER' | 'TEST' | 'CONDITION';
+  monster?: string; // SPAWN: a monster template (id or name); MOVE_MONSTER: a monster on the board (id or name)
+  room?: string; // Where it happens, by room name
+  investigator?: string; // TEST: who is tested (id or name)
+  attribute?: string; // TEST
+  condition?: RoomCondition; // CONDITION
+}
+
+// The board as the narrator is shown it when asked for a Mythos event
+export interface MythosBoard {
+  rooms: { name: string; condition?: RoomCondition; closedDoors: number }[];
+  monsters: { id: string; name: string; room: string; health: number }[];
+  investigators: { name: string; room: string; health: number; maxHealth: number; sanity: number; maxSanity: number }[];
 }